@@ -3,10 +3,35 @@ import React, { useState, useEffect, useRef } from 'react';
 import { OldPaperTexture } from './components/OldPaperTexture';
 import { Navigation } from './components/Navigation';
 import { SectionHeader } from './components/SectionHeader';
-import { generateDailyHeadline, chatWithMentor, hasGlobalApiKey, simulateAlternateHistory, generateVintageMap, generateLocationTrivia, generateHistoricalPhotos, generateImage, testApiKey, setManualApiKey } from './services/geminiService';
-import { AppSection, NewsArticle, Mentor, ChatMessage, TravelerProfile, AlternateHistoryResult, PivotPoint, ChronoscopeData, Suggestion } from './types';
-import { Send, RefreshCw, ArrowRight, Star, ArrowLeft, History, ShieldAlert, Stamp, Zap, User, Briefcase, Gem, Feather, X, Radio, CheckCircle, Settings, LogOut, Compass, Globe, Timer, Search, Sparkles, MessageSquare, Clock, MapPin, AlertTriangle, Radar, ExternalLink, Map, Camera, BookOpen, MessageCircle } from 'lucide-react';
-import { fetchSuggestions, submitSuggestion } from './services/communityService';
+import { TelegraphText } from './components/TelegraphText';
+import { TimelineTreeView } from './components/TimelineTreeView';
+import { PressExportPanel } from './components/PressExportPanel';
+import { EditionCalendar } from './components/EditionCalendar';
+import { ChronoscopeMap } from './components/ChronoscopeMap';
+import { GenerationErrorNotice } from './components/GenerationErrorNotice';
+import { LocaleContext, useLocale } from './components/LocaleContext';
+import { LanguagePicker } from './components/LanguagePicker';
+import { toGenerationError } from './services/aiResponse';
+import { chatWithMentor, streamChatWithMentor, hasGlobalApiKey, simulateAlternateHistory, generateVintageMap, generateLocationTrivia, generateHistoricalPhotos, generateImage, testApiKey, setManualApiKey } from './services/geminiService';
+import { AppSection, BudgetStatus, Locale, UsageBudget, UsageEntry, UsageSummary, DailyEdition, EditionMode, GenerationError, Mentor, ChatMessage, TravelerProfile, AlternateHistoryResult, PivotPoint, ChronoscopeData, ChronoscopeMapPin, TriviaFact, TravelLogEntry, TriviaConfidence, Suggestion, SuggestionCategory, SuggestionSort, SuggestionStatus, ReportReason, MentorConversation, MentorRegistryEntry, PivotFilter, TimelineTree, TravelerSession, TravelerCounter, TravelerEvent, Artifact, ArtifactRarity, EarnedArtifact } from './types';
+import { Send, RefreshCw, ArrowRight, Star, ArrowLeft, History, ShieldAlert, Stamp, Zap, User, Briefcase, Gem, Feather, X, Radio, CheckCircle, Settings, LogOut, Compass, Globe, Timer, Search, Sparkles, MessageSquare, Clock, MapPin, AlertTriangle, Radar, ExternalLink, Map, Camera, BookOpen, MessageCircle, GitBranch, ArrowUp, Flag, Wallet } from 'lucide-react';
+import { fetchSuggestions, submitSuggestion, submitReply, fetchThread, setSuggestionVote, setSuggestionStatus, subscribeToSuggestions, mergeSuggestion, BoardConnection, reportSuggestion, fetchModerationQueue, reviewSuggestion, ModerationQueueItem } from './services/communityService';
+import { checkSuggestion, checkPostingRate, recordPost, SUGGESTION_MAX_LENGTH } from './services/moderationService';
+import { fetchMentors, fetchMentorRegistry, getSeedMentors, saveMentor, validateMentor, getMentorImagePrompt, getMentorFacePrompt } from './services/mentorService';
+import { fetchPivotCatalog, getSeedCatalog, savePivot, validatePivot, filterPivots, getPivotFacets, getPivotImagePrompt } from './services/pivotService';
+import { createTimelineTree, addBranch, getPath, getChildren, buildBranchContext } from './services/timelineService';
+import { restoreSession, onAuthChange, sendLoginCode, verifyLoginCode, startGuestSession, signOut, canModerate, canEditMentors, getAccessToken } from './services/authService';
+import { isAuthConfigured } from './services/supabaseClient';
+import { fetchProfile, recordActivity, onArtifactsAwarded, parseEraYear, centuriesBetween, formatEraYear, dialToYear, yearToDial, CHRONOSCOPE_DIAL_STEPS, fetchTravelerLocale, saveTravelerLocale } from './services/profileService';
+import { detectLocale, getLocaleInfo, translate, TranslationKey } from './services/i18nService';
+import { getArtifactCatalog, describeArtifactRule } from './services/artifactService';
+import { getImageCacheStats, clearImageCache, IMAGE_CACHE_MAX_BYTES, ImageCacheStats } from './services/imageCache';
+import { getUsageSummary, getUsageLedger, getUsageBudget, setUsageBudget, getBudgetStatus, clearUsageLedger, onUsageChange, SESSION_STARTED_AT } from './services/usageMeter';
+import { listConversations, createConversation, loadConversation, appendMessage, deleteConversation } from './services/conversationService';
+import { storyFromArticle, storyFromSimulation } from './services/newspaperExport';
+import { getTodaysEdition, fetchEdition, listEditions, toEditionDate, parseEditionDate } from './services/editionService';
+import { geocode, buildMapPins, formatCoordinates } from './services/gazetteerService';
+import { listVisits, loadVisit, saveVisit, setVisitFavorite, deleteVisit } from './services/travelLogService';
 
 // Type declaration for AI Studio window object
 declare global {
@@ -25,6 +50,8 @@ declare global {
 const AsyncImage: React.FC<{ prompt: string; alt: string; className?: string; aspectRatio?: string }> = ({ prompt, alt, className, aspectRatio = "1:1" }) => {
     const [src, setSrc] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<GenerationError | null>(null);
+    const { t } = useLocale();
 
     useEffect(() => {
         let mounted = true;
@@ -36,14 +63,12 @@ const AsyncImage: React.FC<{ prompt: string; alt: string; className?: string; as
                 return;
             }
 
-            try {
-                const url = await generateImage(prompt, aspectRatio);
-                if (mounted && url) setSrc(url);
-            } catch (e) {
-                console.error("AsyncImage generation error", e);
-            } finally {
-                if (mounted) setLoading(false);
-            }
+            setError(null);
+            const result = await generateImage(prompt, aspectRatio);
+            if (!mounted) return;
+            if (result.ok) setSrc(result.value);
+            else setError(result.error);
+            setLoading(false);
         };
         fetchImage();
         return () => { mounted = false; };
@@ -62,6 +87,7 @@ const AsyncImage: React.FC<{ prompt: string; alt: string; className?: string; as
                 !loading && (
                     <div className="w-full h-full flex items-center justify-center bg-ink/10 text-ink/50 font-mono text-xs p-4 text-center border-2 border-dashed border-ink/30">
                         <span className="opacity-50">{alt}</span>
+                        {error && <span className="block mt-1 text-[9px] uppercase text-alert-red/70">{t(`errors.${error.kind}.title`)}</span>}
                     </div>
                 )
             )}
@@ -70,16 +96,35 @@ const AsyncImage: React.FC<{ prompt: string; alt: string; className?: string; as
 };
 
 
+// Records progress in the background; ArtifactBanner announces anything the traveler just unearthed
+const trackActivity = (session: TravelerSession, delta: Partial<Record<TravelerCounter, number>>, event?: TravelerEvent) => {
+    recordActivity(session, delta, event);
+};
+
 // --- Sub-Components ---
 
+// Splits off the first letter for a drop cap without breaking up a Devanagari syllable
+const splitDropCap = (text: string, locale: Locale): [string, string] => {
+    const first = new Intl.Segmenter(getLocaleInfo(locale).dateTag, { granularity: 'grapheme' }).segment(text)[Symbol.iterator]().next().value?.segment || '';
+    return [first, text.slice(first.length)];
+};
+
 // 0. LOGIN VIEW (Redesigned as Authentic Newspaper Front Page)
-const LoginView: React.FC<{ onLogin: () => void }> = ({ onLogin }) => {
+const LoginView: React.FC<{ onLogin: (session: TravelerSession) => void }> = ({ onLogin }) => {
     const [email, setEmail] = useState('');
+    const [code, setCode] = useState('');
+    const [codeSent, setCodeSent] = useState(false);
     const [loading, setLoading] = useState(false);
+    const authEnabled = isAuthConfigured();
+    // Guests can always come in under a name; with auth configured, email sign-in is the default
+    const [asGuest, setAsGuest] = useState(!authEnabled);
     const [apiKeySet, setApiKeySet] = useState(false);
     const [isGlobalKey, setIsGlobalKey] = useState(false);
     const [showKeyInput, setShowKeyInput] = useState(false);
     const [manualKey, setManualKeyInput] = useState('');
+    const { t, locale } = useLocale();
+    const [weatherCap, weatherStory] = splitDropCap(t('login.weatherStory'), locale);
+    const [gatewayCap, gatewayStory] = splitDropCap(t('login.gatewayStory'), locale);
 
     useEffect(() => {
         const checkKey = async () => {
@@ -118,7 +163,7 @@ const LoginView: React.FC<{ onLogin: () => void }> = ({ onLogin }) => {
 
     const handleLogin = async () => {
         if (!apiKeySet) {
-            alert("TELEGRAPH ERROR: Connection key required.");
+            alert(t('login.errorKey'));
             return;
         }
         setLoading(true);
@@ -126,29 +171,49 @@ const LoginView: React.FC<{ onLogin: () => void }> = ({ onLogin }) => {
         // Perform Real API Handshake to Verify Billing/Connection
         const isConnected = await testApiKey();
 
-        if (isConnected) {
-            onLogin();
+        if (!isConnected) {
+            alert(t('login.errorLine'));
+        } else if (asGuest) {
+            // Enter as a guest under the typed name
+            onLogin(startGuestSession(email));
+        } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+            alert(t('login.errorEmail'));
+        } else if (await sendLoginCode(email.trim())) {
+            setCodeSent(true);
+        } else {
+            alert(t('login.errorSend'));
+        }
+        setLoading(false);
+    };
+
+    const handleVerifyCode = async () => {
+        if (!code.trim()) return;
+        setLoading(true);
+        const session = await verifyLoginCode(email.trim(), code.trim());
+        if (session) {
+            onLogin(session);
         } else {
-            alert("TELEGRAPH LINE DEAD: The API Key provided is invalid, expired, or has insufficient billing permissions. Please check your deployment settings.");
+            alert(t('login.errorCode'));
         }
         setLoading(false);
     };
 
     return (
         <div className="min-h-dvh bg-paper flex flex-col items-center py-8 px-4 relative z-50">
+            <LanguagePicker className="max-w-4xl w-full justify-end mb-3" />
             {/* Newspaper Header */}
             <div className="max-w-4xl w-full border-b-4 border-double border-ink pb-4 text-center">
                 <div className="flex justify-between items-end border-b-2 border-ink pb-2 mb-3">
-                    <span className="font-mono text-xs uppercase font-bold text-ink">Vol. I - No. 1</span>
-                    <span className="font-mono text-xs uppercase font-bold text-ink">Special Edition: 1925</span>
-                    <span className="font-mono text-xs uppercase font-bold text-ink">Price: Two Cents</span>
+                    <span className="font-mono text-xs uppercase font-bold text-ink">{t('login.volume')}</span>
+                    <span className="font-mono text-xs uppercase font-bold text-ink">{t('login.specialEdition')}</span>
+                    <span className="font-mono text-xs uppercase font-bold text-ink">{t('login.price')}</span>
                 </div>
                 <h1 className="font-serif text-6xl md:text-9xl font-black uppercase text-ink tracking-tight leading-[0.8] scale-y-110 mb-4">
                     Timension
                 </h1>
                 <div className="border-t-2 border-b border-ink py-1">
                     <p className="font-serif italic text-lg text-ink font-bold tracking-widest uppercase">
-                        "The Only Chronicle That Prints Tomorrow's News Today"
+                        {t('login.tagline')}
                     </p>
                 </div>
             </div>
@@ -158,60 +223,96 @@ const LoginView: React.FC<{ onLogin: () => void }> = ({ onLogin }) => {
 
                 {/* Left Column (News) */}
                 <div className="md:col-span-3 hidden md:block border-r border-ink pr-6 text-justify">
-                    <h3 className="font-serif text-2xl font-bold uppercase leading-none mb-2 border-b border-ink pb-1">Weather Anomaly</h3>
+                    <h3 className="font-serif text-2xl font-bold uppercase leading-none mb-2 border-b border-ink pb-1">{t('login.weatherHeadline')}</h3>
                     <p className="font-body text-sm leading-tight text-ink/90 mb-4">
-                        <span className="font-bold float-left text-3xl mr-1 leading-[0.8]">M</span>eteorologists are baffled by sudden chronometric fluctuations. Winds from the future are expected to reach gale force by evening.
+                        <span className="font-bold float-left text-3xl mr-1 leading-[0.8]">{weatherCap}</span>{weatherStory}
                     </p>
-                    <h3 className="font-serif text-2xl font-bold uppercase leading-none mb-2 border-b border-ink pb-1 pt-4">Stock Market</h3>
+                    <h3 className="font-serif text-2xl font-bold uppercase leading-none mb-2 border-b border-ink pb-1 pt-4">{t('login.stockHeadline')}</h3>
                     <ul className="font-mono text-xs leading-relaxed">
-                        <li className="flex justify-between"><span>Telegraph Co.</span> <span>+12%</span></li>
-                        <li className="flex justify-between"><span>Steam Engines</span> <span>-4%</span></li>
-                        <li className="flex justify-between"><span>Aether Corp.</span> <span>+55%</span></li>
+                        <li className="flex justify-between"><span>{t('login.stockTelegraph')}</span> <span>+12%</span></li>
+                        <li className="flex justify-between"><span>{t('login.stockSteam')}</span> <span>-4%</span></li>
+                        <li className="flex justify-between"><span>{t('login.stockAether')}</span> <span>+55%</span></li>
                     </ul>
                 </div>
 
                 {/* Center Column (Headline + Login Form) */}
                 <div className="md:col-span-6 flex flex-col items-center">
                     <h2 className="font-serif text-4xl md:text-5xl font-black uppercase leading-[0.9] mb-8 text-ink text-center">
-                        TIME BARRIER BREACHED!
+                        {t('login.headline')}
                     </h2>
 
                     {/* The Centerpiece Login Form */}
                     <div className="w-full max-w-md border-[6px] border-double border-ink p-6 bg-[#fdf6e3] shadow-[12px_12px_0px_0px_rgba(43,34,24,0.8)] transform -rotate-1 relative mb-8 hover:rotate-0 transition-transform duration-300">
                         <div className="absolute -top-4 left-1/2 -translate-x-1/2 bg-ink text-paper px-6 py-1 font-mono text-sm font-bold uppercase z-10 tracking-widest border border-white">
-                            Official Traveler Visa
+                            {t('login.visa')}
                         </div>
 
                         <div className="text-center mb-6 mt-2 border-b border-ink/20 pb-4">
-                            <h3 className="font-sans font-black text-3xl uppercase leading-none">Access Grant</h3>
-                            <p className="font-mono text-[10px] uppercase tracking-widest mt-1">Authorized Personnel Only</p>
+                            <h3 className="font-sans font-black text-3xl uppercase leading-none">{t('login.accessGrant')}</h3>
+                            <p className="font-mono text-[10px] uppercase tracking-widest mt-1">{t('login.authorizedOnly')}</p>
                         </div>
 
-                        <div className="space-y-5">
-                            <div>
-                                <label className="font-mono text-[10px] uppercase font-bold block mb-1 text-left">Traveler Identity</label>
+                        {codeSent ? (
+                            <div className="space-y-5">
+                                <p className="font-body text-sm text-center text-ink leading-snug">
+                                    {t('login.codeSent', { email })}
+                                </p>
                                 <input
                                     type="text"
-                                    value={email}
-                                    onChange={e => setEmail(e.target.value)}
-                                    className="w-full bg-paper border-b-2 border-ink font-serif text-2xl p-2 focus:outline-none placeholder:text-ink/20 text-center"
-                                    placeholder="Enter Name"
+                                    inputMode="numeric"
+                                    value={code}
+                                    onChange={e => setCode(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && handleVerifyCode()}
+                                    className="w-full bg-paper border-b-2 border-ink font-mono text-3xl tracking-[0.5em] p-2 focus:outline-none placeholder:text-ink/20 text-center"
+                                    placeholder="000000"
                                 />
+                                <button
+                                    onClick={handleVerifyCode}
+                                    disabled={loading}
+                                    className="w-full bg-ink text-paper py-4 font-mono font-bold uppercase text-base hover:bg-alert-red transition-all flex items-center justify-center gap-3 shadow-lg active:translate-y-1 active:shadow-none"
+                                >
+                                    {loading ? <RefreshCw className="animate-spin" size={18} /> : <Stamp size={18} />}
+                                    {t('login.stampCode')}
+                                </button>
+                                <button onClick={() => { setCodeSent(false); setCode(''); }} className="w-full font-mono text-[10px] uppercase underline text-ink/60 hover:text-ink">
+                                    {t('login.differentAddress')}
+                                </button>
                             </div>
+                        ) : (
+                            <div className="space-y-5">
+                                <div>
+                                    <label className="font-mono text-[10px] uppercase font-bold block mb-1 text-left">{t('login.identity')}</label>
+                                    <input
+                                        type={asGuest ? 'text' : 'email'}
+                                        value={email}
+                                        onChange={e => setEmail(e.target.value)}
+                                        className="w-full bg-paper border-b-2 border-ink font-serif text-2xl p-2 focus:outline-none placeholder:text-ink/20 text-center"
+                                        placeholder={asGuest ? t('login.enterName') : t('login.enterEmail')}
+                                    />
+                                </div>
 
-                            <button
-                                onClick={handleLogin}
-                                disabled={loading}
-                                className="w-full bg-ink text-paper py-4 font-mono font-bold uppercase text-base hover:bg-alert-red transition-all flex items-center justify-center gap-3 shadow-lg active:translate-y-1 active:shadow-none"
-                            >
-                                {loading ? <RefreshCw className="animate-spin" size={18} /> : <Stamp size={18} />}
-                                Verify Stamp & Enter
-                            </button>
-                        </div>
+                                <button
+                                    onClick={handleLogin}
+                                    disabled={loading}
+                                    className="w-full bg-ink text-paper py-4 font-mono font-bold uppercase text-base hover:bg-alert-red transition-all flex items-center justify-center gap-3 shadow-lg active:translate-y-1 active:shadow-none"
+                                >
+                                    {loading ? <RefreshCw className="animate-spin" size={18} /> : <Stamp size={18} />}
+                                    {asGuest ? t('login.enterAsGuest') : t('login.sendTelegram')}
+                                </button>
+                                {authEnabled && (
+                                    <button onClick={() => setAsGuest(!asGuest)} className="w-full font-mono text-[10px] uppercase underline text-ink/60 hover:text-ink">
+                                        {asGuest ? t('login.useEmail') : t('login.useGuest')}
+                                    </button>
+                                )}
+                                {asGuest && (
+                                    <p className="font-mono text-[9px] uppercase text-ink/50 text-center">{t('login.guestNote')}</p>
+                                )}
+                            </div>
+                        )}
 
                         <div className="mt-4 pt-2 text-center opacity-50">
                             <p className="font-mono text-[8px] uppercase">
-                                Class 4 Temporal Clearance Required
+                                {t('login.clearance')}
                             </p>
                         </div>
                     </div>
@@ -220,18 +321,17 @@ const LoginView: React.FC<{ onLogin: () => void }> = ({ onLogin }) => {
                 {/* Right Column (Supporting Story + Ad) */}
                 <div className="md:col-span-3 border-l-0 md:border-l border-ink pl-0 md:pl-6 flex flex-col">
                     <div className="mb-6">
-                        <h3 className="font-serif text-xl font-bold uppercase mb-2 border-b border-ink pb-1">The Gateway Open</h3>
+                        <h3 className="font-serif text-xl font-bold uppercase mb-2 border-b border-ink pb-1">{t('login.gatewayHeadline')}</h3>
                         <p className="font-body text-sm text-justify leading-snug">
-                            <span className="drop-cap text-3xl">S</span>cientists have confirmed the bridge between 1924 and 2025 is stable.
-                            Citizens wishing to converse with future entities or explore historical divergences must present the visa in the center column immediately.
+                            <span className="drop-cap text-3xl">{gatewayCap}</span>{gatewayStory}
                         </p>
                     </div>
 
                     {/* Filler Ad */}
                     <div className="mt-auto border-4 border-ink p-4 text-center hidden md:block opacity-80 bg-paper-light rotate-2">
-                        <h4 className="font-serif font-black uppercase text-xl mb-1">Dr. Z's Tonic</h4>
-                        <p className="font-serif italic text-sm mb-2">"Cures Time Lag Instantly!"</p>
-                        <div className="font-mono text-xs font-bold border-t border-ink pt-1">Sold at all Apothecaries</div>
+                        <h4 className="font-serif font-black uppercase text-xl mb-1">{t('login.adTitle')}</h4>
+                        <p className="font-serif italic text-sm mb-2">{t('login.adSlogan')}</p>
+                        <div className="font-mono text-xs font-bold border-t border-ink pt-1">{t('login.adFooter')}</div>
                     </div>
                 </div>
             </div>
@@ -239,27 +339,337 @@ const LoginView: React.FC<{ onLogin: () => void }> = ({ onLogin }) => {
     );
 };
 
-// 0.5 TRAVELER'S VAULT (Static Profile)
-const TravelerVault: React.FC<{ isOpen: boolean; onClose: () => void; userEmail: string; onLogout: () => void }> = ({ isOpen, onClose, userEmail, onLogout }) => {
-    const profile: TravelerProfile = {
-        email: userEmail || "Time Traveler",
-        stats: {
-            rank: "Chrono-Captain",
-            centuriesTraversed: 42,
-            paradoxesCaused: 0,
-            artifactsFound: 12,
-            majorDiscoveries: 7,
-            joinDate: "1924-10-12"
-        },
-        inventory: [
-            'The Lost Key of Alexandria',
-            'Da Vinci\'s Clockwork Bird',
-            'Press Badge'
-        ]
+// 0.4 ARTIFACT INVENTORY (shown inside the Vault)
+const rarityStyles: Record<ArtifactRarity, string> = {
+    common: 'border-ink',
+    rare: 'border-sepia-accent',
+    legendary: 'border-vintage-gold shadow-[0_0_8px_rgba(197,160,89,0.8)]'
+};
+
+const RARITY_LABELS: Record<ArtifactRarity, TranslationKey> = { common: 'vault.rarityCommon', rare: 'vault.rarityRare', legendary: 'vault.rarityLegendary' };
+
+const ArtifactInventory: React.FC<{ inventory: EarnedArtifact[] }> = ({ inventory }) => {
+    const [selected, setSelected] = useState<Artifact | null>(null);
+    const catalog = getArtifactCatalog();
+    const earned = new Map(inventory.map(a => [a.id, a]));
+    const selectedEarned = selected ? earned.get(selected.id) : undefined;
+    const { t, locale } = useLocale();
+
+    return (
+        <div className="mb-8">
+            <h3 className="font-mono text-xs uppercase font-bold tracking-widest text-ink mb-3">
+                {t('vault.artifactCollection', { count: inventory.length, total: catalog.length })}
+            </h3>
+
+            {selected ? (
+                <div className="border-4 border-double border-ink bg-paper-light p-4 animate-in fade-in duration-300">
+                    <button onClick={() => setSelected(null)} className="font-mono text-[10px] uppercase font-bold flex items-center gap-1 mb-3 hover:text-sepia-accent">
+                        <ArrowLeft size={12} /> {t('vault.backToCollection')}
+                    </button>
+                    {selectedEarned ? (
+                        <AsyncImage prompt={selected.imagePrompt} alt={t(selected.name as TranslationKey)} className="w-full h-48 border-2 border-ink mb-3" aspectRatio="4:3" />
+                    ) : (
+                        <div className="w-full h-48 border-2 border-dashed border-ink/40 mb-3 flex items-center justify-center font-serif text-6xl text-ink/20">?</div>
+                    )}
+                    <h4 className="font-serif text-2xl font-bold text-ink leading-none mb-1">{selectedEarned ? t(selected.name as TranslationKey) : t('vault.undiscovered')}</h4>
+                    <p className="font-mono text-[10px] uppercase tracking-widest text-sepia-accent mb-2">{t(RARITY_LABELS[selected.rarity])} • {selected.era}</p>
+                    <p className="font-body text-base text-ink leading-snug mb-2">
+                        {selectedEarned ? t(selected.description as TranslationKey) : describeArtifactRule(selected.rule, locale)}
+                    </p>
+                    {selectedEarned && (
+                        <p className="font-mono text-[9px] uppercase text-ink/50">{t('vault.unearthedOn', { date: new Date(selectedEarned.earnedAt).toLocaleDateString(getLocaleInfo(locale).dateTag) })}</p>
+                    )}
+                </div>
+            ) : (
+                <div className="grid grid-cols-3 gap-3">
+                    {catalog.map(artifact => {
+                        const owned = earned.has(artifact.id);
+                        return (
+                            <button key={artifact.id} onClick={() => setSelected(artifact)}
+                                className={`aspect-square border-2 bg-paper-light p-1 relative hover:-translate-y-1 transition-transform ${owned ? rarityStyles[artifact.rarity] : 'border-dashed border-ink/30'}`}>
+                                {owned ? (
+                                    <AsyncImage prompt={artifact.imagePrompt} alt={t(artifact.name as TranslationKey)} className="w-full h-full" />
+                                ) : (
+                                    <div className="w-full h-full flex items-center justify-center font-serif text-3xl text-ink/20">?</div>
+                                )}
+                                {owned && (
+                                    <span className="absolute bottom-0 left-0 right-0 bg-ink/80 text-paper font-mono text-[8px] uppercase truncate px-1">{t(artifact.name as TranslationKey)}</span>
+                                )}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// 0.42 PASSPORT STAMPS (shown inside the Vault)
+const PassportStamps: React.FC<{ session: TravelerSession }> = ({ session }) => {
+    const [visits, setVisits] = useState<TravelLogEntry[] | null>(null);
+    const { t, locale } = useLocale();
+
+    useEffect(() => {
+        listVisits(session).then(setVisits);
+    }, [session.userId]);
+
+    // Oldest trip first, like the pages of a real passport
+    const stamps = visits ? [...visits].sort((a, b) => a.visitedAt - b.visitedAt) : [];
+
+    return (
+        <div className="mb-8">
+            <h3 className="font-mono text-xs uppercase font-bold tracking-widest text-ink mb-3">{t('vault.passportStamps', { count: stamps.length })}</h3>
+            {!visits ? (
+                <div className="text-center py-4 opacity-50"><RefreshCw className="animate-spin inline-block" size={14} /></div>
+            ) : stamps.length === 0 ? (
+                <div className="border-2 border-dashed border-ink/30 p-4 text-center font-mono text-[10px] uppercase text-ink/50">{t('vault.noStamps')}</div>
+            ) : (
+                <div className="relative border-l-2 border-dashed border-ink/40 ml-2 pl-4 space-y-3">
+                    {stamps.map((stamp, i) => (
+                        <div key={stamp.id} className="relative">
+                            <span className="absolute -left-[23px] top-3 w-3 h-3 rounded-full bg-ink border-2 border-paper" />
+                            <div className={`inline-block border-4 border-double px-3 py-1 text-center ${stamp.favorite ? 'border-sepia-accent text-sepia-accent' : 'border-ink/70 text-ink/80'} ${i % 3 === 0 ? '-rotate-2' : i % 3 === 1 ? 'rotate-1' : 'rotate-3'}`}>
+                                <div className="font-serif font-black uppercase leading-tight flex items-center gap-1 justify-center">
+                                    {stamp.favorite && <Star size={10} className="fill-current" />} {stamp.location}
+                                </div>
+                                <div className="font-mono text-[9px] uppercase tracking-widest">{t('vault.stampEra', { era: stamp.era })}</div>
+                                <div className="font-mono text-[8px] uppercase opacity-70">{t('vault.stampEntered', { date: new Date(stamp.visitedAt).toLocaleDateString(getLocaleInfo(locale).dateTag) })}</div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// 0.45 IMAGE CACHE (shown inside the Vault)
+const formatBytes = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const ImageCachePanel: React.FC = () => {
+    const [stats, setStats] = useState<ImageCacheStats | null>(null);
+    const [clearing, setClearing] = useState(false);
+    const { t, locale } = useLocale();
+
+    useEffect(() => {
+        getImageCacheStats().then(setStats);
+    }, []);
+
+    const handleClear = async () => {
+        if (!confirm(t('vault.clearCacheConfirm'))) return;
+        setClearing(true);
+        await clearImageCache();
+        setStats(await getImageCacheStats());
+        setClearing(false);
+    };
+
+    return (
+        <div className="mb-8">
+            <h3 className="font-mono text-xs uppercase font-bold tracking-widest text-ink mb-3">{t('vault.darkroom')}</h3>
+            <div className="border-2 border-ink bg-paper-light p-3 font-mono text-xs text-ink space-y-1">
+                {stats ? (
+                    <>
+                        <div className="flex justify-between"><span>{t('vault.platesStored')}</span><span>{stats.entries}</span></div>
+                        <div className="flex justify-between"><span>{t('vault.archiveSize')}</span><span>{formatBytes(stats.bytes)} / {formatBytes(IMAGE_CACHE_MAX_BYTES)}</span></div>
+                        <div className="flex justify-between"><span>{t('vault.reused')}</span><span>{t('vault.reusedCount', { hits: stats.hits, total: stats.hits + stats.misses })}</span></div>
+                        {stats.oldestEntry && (
+                            <div className="flex justify-between"><span>{t('vault.oldestPlate')}</span><span>{new Date(stats.oldestEntry).toLocaleDateString(getLocaleInfo(locale).dateTag)}</span></div>
+                        )}
+                    </>
+                ) : (
+                    <div className="text-center opacity-50"><RefreshCw className="animate-spin inline-block" size={14} /></div>
+                )}
+                <button onClick={handleClear} disabled={clearing} className="w-full mt-2 border border-ink py-2 uppercase font-bold hover:bg-ink hover:text-paper transition-colors flex items-center justify-center gap-2">
+                    {clearing ? <RefreshCw className="animate-spin" size={12} /> : <X size={12} />} {t('vault.clearCache')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// 0.46 TELEGRAPH LEDGER (AI usage and daily budget, shown inside the Vault)
+const BUDGET_METRIC_LABELS: Record<BudgetStatus['metric'], TranslationKey> = { calls: 'budget.calls', tokens: 'budget.tokens', images: 'budget.images' };
+
+const TelegraphLedgerPanel: React.FC = () => {
+    const { t, locale } = useLocale();
+    const formatCount = (n: number) => n.toLocaleString(getLocaleInfo(locale).dateTag);
+    const [today, setToday] = useState<UsageSummary>(() => getUsageSummary());
+    const [session, setSession] = useState<UsageSummary>(() => getUsageSummary(SESSION_STARTED_AT));
+    const [recent, setRecent] = useState<UsageEntry[]>([]);
+    const [budget, setBudget] = useState<UsageBudget>(() => getUsageBudget());
+    const [statuses, setStatuses] = useState<BudgetStatus[]>(() => getBudgetStatus());
+
+    useEffect(() => {
+        const refresh = () => {
+            setToday(getUsageSummary());
+            setSession(getUsageSummary(SESSION_STARTED_AT));
+            setRecent(getUsageLedger().slice(-5).reverse());
+            setBudget(getUsageBudget());
+            setStatuses(getBudgetStatus());
+        };
+        refresh();
+        return onUsageChange(refresh);
+    }, []);
+
+    const updateBudget = (patch: Partial<UsageBudget>) => setUsageBudget({ ...budget, ...patch });
+
+    const handleClear = () => {
+        if (!confirm(t('ledger.confirmClear'))) return;
+        clearUsageLedger();
     };
 
+    const rows = [
+        { label: t('ledger.calls'), today: formatCount(today.calls), session: formatCount(session.calls) },
+        { label: t('ledger.tokens'), today: `${formatCount(today.promptTokens)} / ${formatCount(today.outputTokens)}`, session: `${formatCount(session.promptTokens)} / ${formatCount(session.outputTokens)}` },
+        { label: t('ledger.images'), today: formatCount(today.images), session: formatCount(session.images) },
+        { label: t('ledger.latency'), today: `${(today.averageLatencyMs / 1000).toFixed(1)}s`, session: `${(session.averageLatencyMs / 1000).toFixed(1)}s` },
+        { label: t('ledger.failures'), today: formatCount(today.failures), session: formatCount(session.failures) },
+    ];
+
+    return (
+        <div className="mb-8">
+            <h3 className="font-mono text-xs uppercase font-bold tracking-widest text-ink mb-3">{t('ledger.title')}</h3>
+            <div className="border-2 border-ink bg-paper-light p-3 font-mono text-xs text-ink space-y-1">
+                <div className="flex justify-between text-[9px] uppercase opacity-60"><span></span><span className="flex gap-4"><span className="w-24 text-right">{t('ledger.today')}</span><span className="w-24 text-right">{t('ledger.session')}</span></span></div>
+                {rows.map(row => (
+                    <div key={row.label} className="flex justify-between">
+                        <span>{row.label}</span>
+                        <span className="flex gap-4"><span className="w-24 text-right">{row.today}</span><span className="w-24 text-right">{row.session}</span></span>
+                    </div>
+                ))}
+
+                {today.byModel.length > 0 && (
+                    <div className="border-t border-dotted border-ink pt-2 mt-2">
+                        <span className="text-[9px] uppercase font-bold opacity-60 block mb-1">{t('ledger.byModel')}</span>
+                        {today.byModel.map(row => (
+                            <div key={row.model} className="flex justify-between">
+                                <span className="truncate mr-2">{row.model}</span>
+                                <span className="shrink-0">{row.calls} × • {formatCount(row.tokens)} tok{row.images > 0 ? ` • ${row.images} img` : ''}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {recent.length > 0 && (
+                    <div className="border-t border-dotted border-ink pt-2 mt-2">
+                        <span className="text-[9px] uppercase font-bold opacity-60 block mb-1">{t('ledger.latest')}</span>
+                        {recent.map((entry, i) => (
+                            <div key={`${entry.at}-${i}`} className={`flex justify-between text-[10px] ${entry.ok ? '' : 'text-alert-red'}`}>
+                                <span>{new Date(entry.at).toLocaleTimeString(getLocaleInfo(locale).dateTag, { hour: '2-digit', minute: '2-digit' })} {t('ledger.entry', { kind: entry.kind, provider: entry.provider })}</span>
+                                <span>{entry.ok ? `${(entry.latencyMs / 1000).toFixed(1)}s` : t('ledger.failed')}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="border-t border-dotted border-ink pt-2 mt-2">
+                    <span className="text-[9px] uppercase font-bold opacity-60 block mb-1">{t('ledger.budget')}</span>
+                    <div className="grid grid-cols-3 gap-2">
+                        {(['calls', 'tokens', 'images'] as BudgetStatus['metric'][]).map(metric => {
+                            const status = statuses.find(s => s.metric === metric);
+                            return (
+                                <label key={metric} className="block">
+                                    <span className="text-[9px] uppercase block">{t(BUDGET_METRIC_LABELS[metric])}</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={budget[metric]}
+                                        onChange={e => updateBudget({ [metric]: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                                        className={`w-full border bg-paper px-1 py-1 ${status?.level === 'over' ? 'border-alert-red' : status?.level === 'warn' ? 'border-vintage-gold' : 'border-ink'}`}
+                                    />
+                                    {status && <span className={`text-[9px] ${status.level === 'ok' ? 'opacity-60' : 'text-alert-red font-bold'}`}>{t('ledger.used', { count: formatCount(status.used) })}</span>}
+                                </label>
+                            );
+                        })}
+                    </div>
+                    <label className="flex justify-between items-center mt-2">
+                        <span>{t('ledger.whenSpent')}</span>
+                        <select value={budget.mode} onChange={e => updateBudget({ mode: e.target.value as UsageBudget['mode'] })} className="border border-ink bg-paper px-1 py-1 uppercase text-[10px]">
+                            <option value="warn">{t('ledger.warnOnly')}</option>
+                            <option value="block">{t('ledger.stopSending')}</option>
+                        </select>
+                    </label>
+                </div>
+
+                <button onClick={handleClear} className="w-full mt-2 border border-ink py-2 uppercase font-bold hover:bg-ink hover:text-paper transition-colors flex items-center justify-center gap-2">
+                    <X size={12} /> {t('ledger.clear')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// Shown under the masthead once a daily budget is nearly or fully spent
+const BudgetBanner: React.FC<{ onOpenLedger: () => void }> = ({ onOpenLedger }) => {
+    const [statuses, setStatuses] = useState<BudgetStatus[]>(() => getBudgetStatus());
+    const [dismissed, setDismissed] = useState('');
+    const { t, locale } = useLocale();
+    const formatCount = (n: number) => n.toLocaleString(getLocaleInfo(locale).dateTag);
+
+    useEffect(() => onUsageChange(() => setStatuses(getBudgetStatus())), []);
+
+    const pressing = statuses.filter(s => s.level !== 'ok');
+    // Dismissing hides the banner until another budget crosses a threshold
+    const signature = pressing.map(s => `${s.metric}:${s.level}`).join(',');
+    if (!pressing.length || signature === dismissed) return null;
+
+    const blocking = getUsageBudget().mode === 'block';
+    const spent = pressing.filter(s => s.level === 'over');
+
+    return (
+        <div role="status" className={`border-b-2 border-ink px-4 py-2 flex items-center gap-3 font-mono text-[10px] uppercase ${spent.length ? 'bg-alert-red text-paper' : 'bg-vintage-gold/30 text-ink'}`}>
+            <Wallet size={14} className="shrink-0" />
+            <span className="flex-1">
+                {spent.length
+                    ? `${t('budget.spent', { metrics: spent.map(s => t(BUDGET_METRIC_LABELS[s.metric])).join(' & ') })}${blocking ? ` ${t('budget.closed')}` : ''}`
+                    : t('budget.nearing', { usage: pressing.map(s => t('budget.usage', { used: formatCount(s.used), limit: formatCount(s.limit), metric: t(BUDGET_METRIC_LABELS[s.metric]) })).join(', ') })}
+            </span>
+            <button onClick={onOpenLedger} className="underline font-bold shrink-0">{t('budget.ledger')}</button>
+            <button onClick={() => setDismissed(signature)} className="shrink-0" aria-label={t('budget.dismiss')}><X size={12} /></button>
+        </div>
+    );
+};
+
+// Announces newly unearthed artifacts one at a time, oldest first
+const ArtifactBanner: React.FC<{ onOpenVault: () => void }> = ({ onOpenVault }) => {
+    const [queue, setQueue] = useState<Artifact[]>([]);
+    const { t } = useLocale();
+
+    useEffect(() => onArtifactsAwarded(awarded => setQueue(prev => [...prev, ...awarded])), []);
+
+    if (!queue.length) return null;
+    const artifact = queue[0];
+    const dismiss = () => setQueue(prev => prev.slice(1));
+
+    return (
+        <div role="status" className="border-b-2 border-ink px-4 py-2 flex items-center gap-3 font-mono text-[10px] uppercase bg-vintage-gold/30 text-ink animate-in slide-in-from-top-2 duration-300">
+            <Gem size={14} className="shrink-0" />
+            <span className="flex-1">{t('artifact.unearthed', { name: t(artifact.name as TranslationKey) })}{queue.length > 1 ? ` (+${queue.length - 1})` : ''}</span>
+            <button onClick={() => { dismiss(); onOpenVault(); }} className="underline font-bold shrink-0">{t('artifact.openVault')}</button>
+            <button onClick={dismiss} className="shrink-0" aria-label={t('artifact.dismiss')}><X size={12} /></button>
+        </div>
+    );
+};
+
+// 0.5 TRAVELER'S VAULT (Static Profile)
+const TravelerVault: React.FC<{ isOpen: boolean; onClose: () => void; session: TravelerSession; onLogout: () => void }> = ({ isOpen, onClose, session, onLogout }) => {
+    const [profile, setProfile] = useState<TravelerProfile | null>(null);
+    const { t, locale } = useLocale();
+
+    useEffect(() => {
+        if (isOpen) fetchProfile(session).then(setProfile);
+    }, [isOpen, session]);
+
     if (!isOpen) return null;
 
+    const statRows = profile ? [
+        { label: t('stats.centuriesTraversed'), value: profile.stats.centuriesTraversed },
+        { label: t('stats.paradoxesCaused'), value: profile.stats.paradoxesCaused },
+        { label: t('stats.artifactsFound'), value: profile.stats.artifactsFound },
+        { label: t('stats.majorDiscoveries'), value: profile.stats.majorDiscoveries },
+    ] : [];
+
     return (
         <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
             <div className="bg-[#f0e6d2] w-full max-w-lg h-[80vh] border-4 border-double border-ink shadow-2xl relative flex flex-col overflow-hidden">
@@ -268,8 +678,8 @@ const TravelerVault: React.FC<{ isOpen: boolean; onClose: () => void; userEmail:
                     <div className="flex items-center gap-3">
                         <Briefcase className="text-vintage-gold" />
                         <div>
-                            <h2 className="font-serif text-2xl font-bold leading-none">Traveler's Dossier</h2>
-                            <span className="font-mono text-[10px] uppercase tracking-[0.2em] text-gray-400">Classified</span>
+                            <h2 className="font-serif text-2xl font-bold leading-none">{t('vault.title')}</h2>
+                            <span className="font-mono text-[10px] uppercase tracking-[0.2em] text-gray-400">{t('vault.classified')}</span>
                         </div>
                     </div>
                     <button onClick={onClose} className="hover:text-alert-red transition-colors"><X size={24} /></button>
@@ -285,15 +695,56 @@ const TravelerVault: React.FC<{ isOpen: boolean; onClose: () => void; userEmail:
                             </div>
                         </div>
                         <div className="flex-1">
-                            <label className="font-mono text-[10px] uppercase text-ink block font-bold">Agent Name</label>
-                            <p className="font-serif text-xl font-bold border-b border-dotted border-ink mb-2 truncate text-ink">{profile.email}</p>
-                            <label className="font-mono text-[10px] uppercase text-ink block font-bold">Current Rank</label>
-                            <p className="font-serif text-lg italic text-sepia-accent font-bold mb-2">{profile.stats.rank}</p>
+                            <label className="font-mono text-[10px] uppercase text-ink block font-bold">{t('vault.agentName')}</label>
+                            <p className="font-serif text-xl font-bold border-b border-dotted border-ink mb-2 truncate text-ink">{profile?.email || session.email}</p>
+                            <label className="font-mono text-[10px] uppercase text-ink block font-bold">{t('vault.rank')}</label>
+                            <p className="font-serif text-lg italic text-sepia-accent font-bold mb-2">{profile ? t(profile.stats.rank as TranslationKey) : '...'}</p>
+                            <label className="font-mono text-[10px] uppercase text-ink block font-bold">{t('vault.visaIssued')}</label>
+                            <p className="font-mono text-sm text-ink mb-2">{profile ? new Date(`${profile.stats.joinDate}T00:00:00`).toLocaleDateString(getLocaleInfo(locale).dateTag, { year: 'numeric', month: 'long', day: 'numeric' }) : '...'}</p>
+                            {session.isGuest && (
+                                <span className="inline-block font-mono text-[9px] uppercase font-bold border border-ink px-1 text-ink/70">{t('vault.guestPass')}</span>
+                            )}
                         </div>
                     </div>
+                    {/* Service Record */}
+                    <div className="mb-8">
+                        <h3 className="font-mono text-xs uppercase font-bold tracking-widest text-ink mb-3">{t('vault.serviceRecord')}</h3>
+                        {profile ? (
+                            <div className="grid grid-cols-2 gap-3">
+                                {statRows.map(row => (
+                                    <div key={row.label} className="border-2 border-ink bg-paper-light p-3 text-center">
+                                        <span className="font-serif text-3xl font-black text-ink block leading-none">{row.value}</span>
+                                        <span className="font-mono text-[9px] uppercase tracking-widest text-ink/60">{row.label}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="text-center py-6 opacity-50"><RefreshCw className="animate-spin inline-block" size={16} /></div>
+                        )}
+                    </div>
+
+                    {/* Language */}
+                    <div className="mb-8">
+                        <h3 className="font-mono text-xs uppercase font-bold tracking-widest text-ink mb-3">{t('vault.language')}</h3>
+                        <LanguagePicker />
+                        <p className="font-serif italic text-xs text-ink/60 mt-2">{t('vault.languageHint')}</p>
+                    </div>
+
+                    {/* Artifacts */}
+                    {profile && <ArtifactInventory inventory={profile.inventory} />}
+
+                    {/* Travel Log */}
+                    <PassportStamps session={session} />
+
+                    {/* Image Cache */}
+                    <ImageCachePanel />
+
+                    {/* AI Usage */}
+                    <TelegraphLedgerPanel />
+
                     {/* Logout */}
                     <button onClick={onLogout} className="w-full border-2 border-ink py-3 font-mono uppercase text-xs font-bold hover:bg-alert-red hover:text-paper transition-colors flex items-center justify-center gap-2 group text-ink">
-                        <LogOut size={16} /> Sign Out
+                        <LogOut size={16} /> {t('vault.signOut')}
                     </button>
                 </div>
             </div>
@@ -303,39 +754,119 @@ const TravelerVault: React.FC<{ isOpen: boolean; onClose: () => void; userEmail:
 
 // 1. DASHBOARD & CHRONICLE
 const DashboardView: React.FC = () => {
-    const [viewMode, setViewMode] = useState<'DASHBOARD' | 'NEWSPAPER'>('DASHBOARD');
-    const [article, setArticle] = useState<NewsArticle | null>(null);
+    const [viewMode, setViewMode] = useState<'DASHBOARD' | 'NEWSPAPER' | 'ARCHIVE'>('DASHBOARD');
+    const [article, setArticle] = useState<DailyEdition | null>(null);
+    const [articleError, setArticleError] = useState<{ error: GenerationError; mode: EditionMode } | null>(null);
     const [loadingNews, setLoadingNews] = useState(false);
     const [time, setTime] = useState(new Date());
+    const { t, locale } = useLocale();
+    const { dateTag } = getLocaleInfo(locale);
+
+    // Back issues
+    const [archiveMonth, setArchiveMonth] = useState(() => toEditionDate(new Date()).slice(0, 7));
+    const [archiveEditions, setArchiveEditions] = useState<DailyEdition[]>([]);
+    const [archiveDate, setArchiveDate] = useState<string | null>(null);
+    const [loadingArchive, setLoadingArchive] = useState(false);
 
     useEffect(() => {
         const timer = setInterval(() => setTime(new Date()), 1000);
         return () => clearInterval(timer);
     }, []);
 
-    const fetchHeadline = async () => {
+    useEffect(() => {
+        if (viewMode !== 'ARCHIVE') return;
+        let cancelled = false;
+        setLoadingArchive(true);
+        listEditions(archiveMonth, locale).then(editions => {
+            if (cancelled) return;
+            setArchiveEditions(editions);
+            setLoadingArchive(false);
+        });
+        return () => { cancelled = true; };
+    }, [viewMode, archiveMonth, locale]);
+
+    const openTodaysEdition = async (mode: EditionMode) => {
         setLoadingNews(true);
         setViewMode('NEWSPAPER');
-        const data = await generateDailyHeadline();
-        setArticle(data);
+        setArticleError(null);
+        const result = await getTodaysEdition(mode, locale);
+        setArticle(result.ok ? result.value : null);
+        if (!result.ok) setArticleError({ error: result.error, mode });
         setLoadingNews(false);
     };
 
-    if (viewMode === 'NEWSPAPER') {
+    // The archive list omits images, so load the full back issue when opened
+    const openBackIssue = async (edition: DailyEdition) => {
+        setLoadingNews(true);
+        setViewMode('NEWSPAPER');
+        setArticleError(null);
+        setArticle(await fetchEdition(edition.editionDate, edition.mode, edition.locale) || edition);
+        setLoadingNews(false);
+    };
+
+    const editionLabel = (edition: DailyEdition) =>
+        `${parseEditionDate(edition.editionDate).toLocaleDateString(dateTag, { year: 'numeric', month: 'short', day: 'numeric' })} • ${edition.mode === 'onThisDay' ? t('dashboard.thisDay') : t('dashboard.dailyChronicle')}`;
+
+    if (viewMode === 'ARCHIVE') {
+        const shownEditions = archiveDate ? archiveEditions.filter(e => e.editionDate === archiveDate) : archiveEditions;
         return (
-            <div className="p-4 max-w-4xl mx-auto space-y-8 pb-24 animate-in slide-in-from-right duration-500">
+            <div className="p-4 max-w-4xl mx-auto space-y-6 pb-24 animate-in slide-in-from-right duration-500">
                 <button onClick={() => setViewMode('DASHBOARD')} className="flex items-center gap-2 font-mono text-xs uppercase font-bold text-ink hover:text-sepia-accent mb-4">
-                    <ArrowLeft size={16} /> Return to Command Deck
+                    <ArrowLeft size={16} /> {t('dashboard.returnToDeck')}
                 </button>
+                <SectionHeader title={t('dashboard.backIssues')} subtitle={t('dashboard.backIssuesSubtitle')} />
+
+                <div className="grid md:grid-cols-2 gap-6">
+                    <EditionCalendar
+                        month={archiveMonth}
+                        markedDates={archiveEditions.map(e => e.editionDate)}
+                        selectedDate={archiveDate}
+                        onSelectDate={date => setArchiveDate(archiveDate === date ? null : date)}
+                        onChangeMonth={month => { setArchiveMonth(month); setArchiveDate(null); }}
+                        latestMonth={toEditionDate(new Date()).slice(0, 7)}
+                    />
+
+                    <div className="space-y-2">
+                        {loadingArchive ? (
+                            <div className="text-center py-10 opacity-50 font-mono text-xs"><RefreshCw className="animate-spin inline-block mr-2" size={14} /> {t('dashboard.searching')}</div>
+                        ) : shownEditions.length === 0 ? (
+                            <div className="text-center font-mono text-xs text-ink/50 py-10">{t('dashboard.noEditions')}</div>
+                        ) : (
+                            shownEditions.map(edition => (
+                                <button key={`${edition.editionDate}|${edition.mode}|${edition.locale}`} onClick={() => openBackIssue(edition)} className="w-full text-left bg-white border-2 border-ink p-3 hover:bg-[#f0e6d2] transition-colors">
+                                    <span className="font-mono text-[9px] uppercase text-ink/50">{editionLabel(edition)}</span>
+                                    <h4 className="font-serif font-bold uppercase leading-tight text-ink">{edition.headline}</h4>
+                                    <span className="font-serif italic text-xs text-ink/60">{edition.date}</span>
+                                </button>
+                            ))
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (viewMode === 'NEWSPAPER') {
+        return (
+            <div className="p-4 max-w-4xl mx-auto space-y-8 pb-24 animate-in slide-in-from-right duration-500">
+                <div className="flex justify-between items-center mb-4">
+                    <button onClick={() => setViewMode('DASHBOARD')} className="flex items-center gap-2 font-mono text-xs uppercase font-bold text-ink hover:text-sepia-accent">
+                        <ArrowLeft size={16} /> {t('dashboard.returnToDeck')}
+                    </button>
+                    <button onClick={() => setViewMode('ARCHIVE')} className="flex items-center gap-2 font-mono text-xs uppercase font-bold text-ink hover:text-sepia-accent">
+                        <BookOpen size={16} /> {t('dashboard.backIssues')}
+                    </button>
+                </div>
 
                 <div className="border-b-4 border-double border-ink mb-6 pb-2 text-center relative bg-paper shadow-lg p-4">
                     <div className="flex justify-between items-center border-b border-ink pb-1 mb-2 px-2">
-                        <span className="font-mono text-[10px] uppercase tracking-widest text-ink">Vol. XCVIII</span>
-                        <span className="font-serif italic text-xs text-ink">The Voice of History</span>
+                        <span className="font-mono text-[10px] uppercase tracking-widest text-ink">{t('dashboard.volume')}</span>
+                        {article && <span className="font-mono text-[10px] uppercase tracking-widest text-ink hidden md:inline">{editionLabel(article)}</span>}
+                        <span className="font-serif italic text-xs text-ink">{t('dashboard.voiceOfHistory')}</span>
                     </div>
                     <h1 className="font-serif text-5xl md:text-8xl font-black text-ink uppercase tracking-tighter leading-[0.85] mb-4 scale-y-110">Timension</h1>
                     <div className="border-t-2 border-b-2 border-ink py-1 flex justify-between px-4 items-center bg-paper-dark/30">
-                        <span className="font-serif font-bold uppercase text-sm text-ink">{article?.date || "CALCULATING DATE..."}</span>
+                        <span className="font-serif font-bold uppercase text-sm text-ink">{article?.date || t('dashboard.calculatingDate')}</span>
                         <span className="font-serif font-bold uppercase text-sm text-ink">{article?.weather || "..."}</span>
                     </div>
                 </div>
@@ -343,8 +874,10 @@ const DashboardView: React.FC = () => {
                 {loadingNews ? (
                     <div className="h-96 flex flex-col items-center justify-center font-mono animate-pulse text-sepia-accent space-y-4 border-4 border-dashed border-ink/20 bg-paper/50">
                         <RefreshCw className="animate-spin" size={48} />
-                        <span className="text-xl tracking-widest">DECODING SIGNAL...</span>
+                        <span className="text-xl tracking-widest">{t('dashboard.decoding')}</span>
                     </div>
+                ) : articleError ? (
+                    <GenerationErrorNotice error={articleError.error} onRetry={() => openTodaysEdition(articleError.mode)} className="max-w-xl mx-auto" />
                 ) : (
                     <div className="bg-paper p-2 animate-in fade-in duration-700">
                         <div className="text-center mb-8 border-b-2 border-black pb-6">
@@ -354,7 +887,7 @@ const DashboardView: React.FC = () => {
                             <div className="md:w-1/2 order-2 md:order-1">
                                 <div className="w-full border-4 border-ink p-2 bg-white mb-2 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] transform rotate-[-1deg]">
                                     <div className="relative w-full h-64 md:h-80 bg-gray-300 overflow-hidden">
-                                        <img src={article?.imageUrl} alt="Historical Event" className="w-full h-full object-cover filter sepia-[0.3] contrast-125 grayscale-[100%]" />
+                                        <img src={article?.imageUrl} alt={t('dashboard.imageAlt')} className="w-full h-full object-cover filter sepia-[0.3] contrast-125 grayscale-[100%]" />
                                     </div>
                                 </div>
                             </div>
@@ -364,6 +897,11 @@ const DashboardView: React.FC = () => {
                                 </p>
                             </div>
                         </div>
+                        {article && (
+                            <div className="mt-8">
+                                <PressExportPanel story={storyFromArticle(article)} />
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
@@ -379,22 +917,30 @@ const DashboardView: React.FC = () => {
                 </div>
                 <div className="relative z-10 text-center space-y-8">
                     <div>
-                        <h2 className="font-mono text-xs uppercase tracking-[0.4em] text-ink mb-2">Temporal Command Center</h2>
-                        <h1 className="font-serif text-4xl md:text-5xl font-black uppercase text-ink leading-none">Status: Online</h1>
+                        <h2 className="font-mono text-xs uppercase tracking-[0.4em] text-ink mb-2">{t('dashboard.commandCenter')}</h2>
+                        <h1 className="font-serif text-4xl md:text-5xl font-black uppercase text-ink leading-none">{t('dashboard.status')}</h1>
                     </div>
                     <div className="flex justify-center gap-8 border-y border-ink py-4">
                         <div className="text-center">
-                            <span className="font-mono text-[10px] uppercase block text-ink/60">Local Time</span>
-                            <span className="font-mono text-xl font-bold text-ink tabular-nums">{time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                            <span className="font-mono text-[10px] uppercase block text-ink/60">{t('dashboard.localTime')}</span>
+                            <span className="font-mono text-xl font-bold text-ink tabular-nums">{time.toLocaleTimeString(dateTag, { hour: '2-digit', minute: '2-digit' })}</span>
                         </div>
                         <div className="text-center">
-                            <span className="font-mono text-[10px] uppercase block text-ink/60">Current Era</span>
-                            <span className="font-mono text-xl font-bold text-ink">{time.getFullYear()} AD</span>
+                            <span className="font-mono text-[10px] uppercase block text-ink/60">{t('dashboard.currentEra')}</span>
+                            <span className="font-mono text-xl font-bold text-ink">{t('dashboard.year', { year: time.getFullYear() })}</span>
                         </div>
                     </div>
-                    <button onClick={fetchHeadline} className="w-full bg-ink text-paper py-5 px-6 font-serif text-xl font-bold uppercase tracking-widest hover:bg-sepia-accent transition-all hover:scale-[1.02] shadow-[4px_4px_0px_0px_rgba(50,50,50,1)] flex items-center justify-center gap-3">
-                        <Feather className="w-5 h-5" /> Materialize Chronicle
+                    <button onClick={() => openTodaysEdition('chronicle')} className="w-full bg-ink text-paper py-5 px-6 font-serif text-xl font-bold uppercase tracking-widest hover:bg-sepia-accent transition-all hover:scale-[1.02] shadow-[4px_4px_0px_0px_rgba(50,50,50,1)] flex items-center justify-center gap-3">
+                        <Feather className="w-5 h-5" /> {t('dashboard.materialize')}
                     </button>
+                    <div className="grid grid-cols-2 gap-3">
+                        <button onClick={() => openTodaysEdition('onThisDay')} className="border-2 border-ink py-3 px-2 font-mono text-xs font-bold uppercase text-ink hover:bg-vintage-gold/20 flex items-center justify-center gap-2">
+                            <Clock size={14} /> {t('dashboard.thisDay')}
+                        </button>
+                        <button onClick={() => setViewMode('ARCHIVE')} className="border-2 border-ink py-3 px-2 font-mono text-xs font-bold uppercase text-ink hover:bg-vintage-gold/20 flex items-center justify-center gap-2">
+                            <BookOpen size={14} /> {t('dashboard.backIssues')}
+                        </button>
+                    </div>
                 </div>
             </div>
         </div>
@@ -402,17 +948,80 @@ const DashboardView: React.FC = () => {
 };
 
 // 2. CHRONOSCOPE
-const Chronoscope: React.FC = () => {
+const CHRONOSCOPE_PRESETS: { label: TranslationKey; year: number }[] = [
+    { label: 'chronoscope.preset.antiquity', year: 100 },
+    { label: 'chronoscope.preset.middleAges', year: 1200 },
+    { label: 'chronoscope.preset.renaissance', year: 1500 },
+    { label: 'chronoscope.preset.industrial', year: 1850 },
+    { label: 'chronoscope.preset.twenties', year: 1920 },
+];
+
+const CONFIDENCE_LABELS: Record<TriviaConfidence, TranslationKey> = { high: 'chronoscope.confidence.high', medium: 'chronoscope.confidence.medium', low: 'chronoscope.confidence.low' };
+
+const TriviaFactCard: React.FC<{ fact: TriviaFact; index: number; onShowOnMap?: () => void }> = ({ fact, index, onShowOnMap }) => {
+    const { t } = useLocale();
+    // Facts the model could not tie to a place still have an approximate pin on the map
+    const place = fact.place?.trim();
+
+    return (
+        <div className="bg-white border-2 border-ink p-6 shadow-[6px_6px_0px_0px_rgba(0,0,0,0.1)] relative">
+            <span className="absolute -top-3 -left-2 bg-ink text-paper font-mono text-xs px-2 py-1 font-bold">{t('chronoscope.factNumber', { number: index + 1 })}</span>
+            <p className="font-body text-xl leading-relaxed text-ink/90">{fact.fact}</p>
+            <div className="mt-3 flex flex-wrap items-center gap-3 font-mono text-[10px] uppercase text-ink/60">
+                {fact.year && <span className="flex items-center gap-1"><Clock size={10} /> {fact.year}</span>}
+                {onShowOnMap ? (
+                    <button onClick={onShowOnMap} className="flex items-center gap-1 underline hover:text-sepia-accent"><MapPin size={10} /> {place || t('chronoscope.showOnMap')}</button>
+                ) : place && (
+                    <span className="flex items-center gap-1"><MapPin size={10} /> {place}</span>
+                )}
+                <span className={`ml-auto border px-1 font-bold ${fact.confidence === 'low' ? 'border-alert-red text-alert-red' : 'border-ink/40'}`}>
+                    {t(CONFIDENCE_LABELS[fact.confidence] || 'chronoscope.confidence.medium')}
+                </span>
+            </div>
+        </div>
+    );
+};
+
+const Chronoscope: React.FC<{ session: TravelerSession }> = ({ session }) => {
     const [locationInput, setLocationInput] = useState("");
+    const [year, setYear] = useState(1920);
     const [data, setData] = useState<ChronoscopeData | null>(null);
     const [view, setView] = useState<'INPUT' | 'MENU' | 'MAP' | 'TRIVIA' | 'PHOTOS'>('INPUT');
     const [loading, setLoading] = useState(false);
+    const [selectedPinId, setSelectedPinId] = useState<string | null>(null);
+    const [pinning, setPinning] = useState(false);
+    const [triviaError, setTriviaError] = useState<GenerationError | null>(null);
+    const [mapError, setMapError] = useState<GenerationError | null>(null);
+    const [photosError, setPhotosError] = useState<GenerationError | null>(null);
+    const { t, locale } = useLocale();
+    const [visits, setVisits] = useState<TravelLogEntry[]>([]);
+    const [showAllVisits, setShowAllVisits] = useState(false);
+
+    useEffect(() => {
+        listVisits(session).then(setVisits);
+    }, [session.userId]);
+
+    // Plates that failed to develop belong to the previous destination
+    useEffect(() => {
+        setMapError(null);
+        setPhotosError(null);
+    }, [data?.location, data?.era]);
+
+    // Log the destination, and everything generated for it, as soon as it changes
+    useEffect(() => {
+        if (!data) return;
+        saveVisit(session, data).then(entry => {
+            if (entry) setVisits(prev => [entry, ...prev.filter(v => v.id !== entry.id)]);
+        });
+    }, [data, session.userId]);
 
     // Handlers
     const handleSetLocation = () => {
         if (!locationInput.trim()) return;
-        setData({ location: locationInput });
+        setData({ location: locationInput, era: formatEraYear(year), place: geocode(locationInput) || undefined });
+        setSelectedPinId(null);
         setView('MENU');
+        trackActivity(session, { centuriesTraversed: centuriesBetween(year) }, { type: 'location', location: locationInput });
     };
 
     const handleLoadMap = async () => {
@@ -420,20 +1029,39 @@ const Chronoscope: React.FC = () => {
         setLoading(true);
         setView('MAP');
         if (!data.vintageMapUrl) {
-            const mapUrl = await generateVintageMap(data.location);
-            setData(prev => prev ? ({ ...prev, vintageMapUrl: mapUrl || undefined }) : null);
+            setMapError(null);
+            const map = await generateVintageMap(data.location, data.era);
+            if (map.ok) setData(prev => prev ? ({ ...prev, vintageMapUrl: map.value }) : null);
+            else setMapError(map.error);
         }
         setLoading(false);
     };
 
+    const loadTrivia = async () => {
+        if (!data || data.trivia) return;
+        setTriviaError(null);
+        const result = await generateLocationTrivia(data.location, data.era, locale);
+        if (result.ok) {
+            setData(prev => prev ? ({ ...prev, trivia: result.value }) : null);
+            trackActivity(session, { majorDiscoveries: 1 });
+        } else {
+            setTriviaError(result.error);
+        }
+    };
+
+    const loadPhotos = async () => {
+        if (!data || data.historicalPhotos) return;
+        setPhotosError(null);
+        const photos = await generateHistoricalPhotos(data.location, data.era);
+        if (photos.ok) setData(prev => prev ? ({ ...prev, historicalPhotos: photos.value }) : null);
+        else setPhotosError(photos.error);
+    };
+
     const handleLoadTrivia = async () => {
         if (!data?.location) return;
         setLoading(true);
         setView('TRIVIA');
-        if (!data.trivia) {
-            const facts = await generateLocationTrivia(data.location);
-            setData(prev => prev ? ({ ...prev, trivia: facts }) : null);
-        }
+        await loadTrivia();
         setLoading(false);
     };
 
@@ -441,27 +1069,65 @@ const Chronoscope: React.FC = () => {
         if (!data?.location) return;
         setLoading(true);
         setView('PHOTOS');
-        if (!data.historicalPhotos) {
-            const photos = await generateHistoricalPhotos(data.location);
-            setData(prev => prev ? ({ ...prev, historicalPhotos: photos }) : null);
-        }
+        await loadPhotos();
+        setLoading(false);
+    };
+
+    // Fetches intel or photographs from within the map so their pins appear in place
+    const handlePinLayer = async (load: () => Promise<void>) => {
+        setPinning(true);
+        await load();
+        setPinning(false);
+    };
+
+    const showOnMap = (pinId: string) => {
+        setSelectedPinId(pinId);
+        handleLoadMap();
+    };
+
+    const handleRevisit = async (entry: TravelLogEntry) => {
+        setLoading(true);
+        const saved = await loadVisit(entry.id);
         setLoading(false);
+        if (!saved) {
+            alert(t('chronoscope.visitUnreadable'));
+            return;
+        }
+        setData(saved);
+        setYear(parseEraYear(saved.era) ?? year);
+        setSelectedPinId(null);
+        setView('MENU');
+        trackActivity(session, { centuriesTraversed: centuriesBetween(parseEraYear(saved.era)) }, { type: 'location', location: saved.location });
+    };
+
+    const handleToggleFavorite = async (entry: TravelLogEntry) => {
+        if (await setVisitFavorite(entry.id, !entry.favorite)) {
+            setVisits(prev => prev.map(v => v.id === entry.id ? { ...v, favorite: !entry.favorite } : v));
+        }
+    };
+
+    const handleDeleteVisit = async (entry: TravelLogEntry) => {
+        if (!confirm(t('chronoscope.confirmDeleteVisit', { location: entry.location, era: entry.era }))) return;
+        if (await deleteVisit(entry.id)) setVisits(prev => prev.filter(v => v.id !== entry.id));
     };
 
     const reset = () => {
         setData(null);
+        setTriviaError(null);
+        setSelectedPinId(null);
         setLocationInput("");
         setView('INPUT');
     };
 
     // INPUT VIEW
     if (view === 'INPUT') {
+        const sortedVisits = [...visits].sort((a, b) => Number(b.favorite) - Number(a.favorite) || b.updatedAt - a.updatedAt);
         return (
-            <div className="p-4 max-w-3xl mx-auto pb-24 h-[calc(100vh-80px)] flex flex-col items-center justify-center">
-                <SectionHeader title="Chronoscope" subtitle="Select Temporal Coordinates" />
+            <div className="p-4 max-w-3xl mx-auto pb-24 min-h-[calc(100vh-80px)] flex flex-col items-center justify-center">
+                <SectionHeader title={t('chronoscope.title')} subtitle={t('chronoscope.subtitle')} />
                 <div className="w-full max-w-lg space-y-6 animate-in zoom-in duration-500">
                     <div className="bg-paper border-4 border-ink p-8 shadow-2xl relative">
-                        <label className="font-mono text-xs uppercase font-bold text-ink mb-2 block tracking-widest">Destination Name</label>
+                        <label className="font-mono text-xs uppercase font-bold text-ink mb-2 block tracking-widest">{t('chronoscope.destination')}</label>
                         <div className="flex border-b-4 border-ink pb-2 mb-6">
                             <MapPin className="text-ink mr-3" size={28} />
                             <input
@@ -469,14 +1135,68 @@ const Chronoscope: React.FC = () => {
                                 value={locationInput}
                                 onChange={(e) => setLocationInput(e.target.value)}
                                 onKeyDown={(e) => e.key === 'Enter' && handleSetLocation()}
-                                placeholder="e.g. Paris, The Colosseum..."
+                                placeholder={t('chronoscope.placeholder')}
                                 className="bg-transparent w-full font-serif text-3xl font-bold text-ink placeholder:text-ink/30 focus:outline-none"
                             />
                         </div>
+                        <label className="font-mono text-xs uppercase font-bold text-ink mb-2 flex justify-between tracking-widest">
+                            <span>{t('chronoscope.targetEra')}</span>
+                            <span className="font-serif text-2xl normal-case tracking-normal">{formatEraYear(year)}</span>
+                        </label>
+                        <input
+                            type="range"
+                            min={0}
+                            max={CHRONOSCOPE_DIAL_STEPS}
+                            value={yearToDial(year)}
+                            onChange={(e) => setYear(dialToYear(Number(e.target.value)))}
+                            className="w-full accent-[#2b2218]"
+                        />
+                        <div className="flex justify-between font-mono text-[9px] uppercase text-ink/50 mb-3">
+                            <span>{t('chronoscope.antiquity')}</span>
+                            <span>{t('chronoscope.present')}</span>
+                        </div>
+                        <div className="flex flex-wrap gap-1 mb-6">
+                            {CHRONOSCOPE_PRESETS.map(preset => (
+                                <button key={preset.label} onClick={() => setYear(preset.year)} className={`border border-ink px-2 py-0.5 font-mono text-[10px] uppercase ${year === preset.year ? 'bg-ink text-paper' : 'hover:bg-vintage-gold/20'}`}>
+                                    {t(preset.label)}
+                                </button>
+                            ))}
+                        </div>
                         <button onClick={handleSetLocation} disabled={!locationInput.trim()} className="w-full bg-ink text-paper py-4 font-mono font-bold uppercase text-lg tracking-widest hover:bg-sepia-accent transition-all shadow-[4px_4px_0px_0px_rgba(50,50,50,1)] active:translate-y-1 active:shadow-none">
-                            Lock Coordinates
+                            {t('chronoscope.lock')}
                         </button>
                     </div>
+
+                    {/* Travel log: favorites first, then the most recent trips */}
+                    {visits.length > 0 && (
+                        <div className="bg-paper border-2 border-ink p-4">
+                            <h3 className="font-mono text-xs uppercase font-bold tracking-widest text-ink mb-3 flex items-center gap-2">
+                                <History size={14} /> {t('chronoscope.revisit')}
+                            </h3>
+                            <div className="space-y-1">
+                                {(showAllVisits ? sortedVisits : sortedVisits.slice(0, 5)).map(entry => (
+                                    <div key={entry.id} className="flex items-center gap-2 border-b border-ink/10 py-1 group">
+                                        <button onClick={() => handleToggleFavorite(entry)} title={entry.favorite ? t('chronoscope.unfavorite') : t('chronoscope.favorite')} className="text-ink/40 hover:text-vintage-gold">
+                                            <Star size={14} className={entry.favorite ? 'fill-vintage-gold text-vintage-gold' : ''} />
+                                        </button>
+                                        <button onClick={() => handleRevisit(entry)} className="flex-1 text-left hover:text-sepia-accent">
+                                            <span className="font-serif font-bold text-ink">{entry.location}</span>
+                                            <span className="font-mono text-[10px] uppercase text-ink/50 ml-2">{entry.era}</span>
+                                        </button>
+                                        <span className="font-mono text-[9px] text-ink/40">{new Date(entry.updatedAt).toLocaleDateString(getLocaleInfo(locale).dateTag)}</span>
+                                        <button onClick={() => handleDeleteVisit(entry)} title={t('chronoscope.removeVisit')} className="text-ink/30 hover:text-alert-red opacity-0 group-hover:opacity-100">
+                                            <X size={12} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            {sortedVisits.length > 5 && (
+                                <button onClick={() => setShowAllVisits(!showAllVisits)} className="mt-2 font-mono text-[10px] uppercase font-bold underline hover:text-sepia-accent">
+                                    {showAllVisits ? t('chronoscope.showFewer') : t('chronoscope.showAll', { count: sortedVisits.length })}
+                                </button>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
         );
@@ -484,35 +1204,43 @@ const Chronoscope: React.FC = () => {
 
     // MENU VIEW
     if (view === 'MENU') {
+        const currentVisit = data && visits.find(v => v.location.trim().toLowerCase() === data.location.trim().toLowerCase() && v.era === data.era);
         return (
             <div className="p-4 max-w-3xl mx-auto pb-24 min-h-[calc(100vh-80px)] flex flex-col">
                 <div className="flex justify-between items-center mb-6">
                     <button onClick={reset} className="font-mono text-xs font-bold uppercase flex items-center gap-2 hover:text-sepia-accent transition-colors">
-                        <ArrowLeft size={16} /> New Destination
+                        <ArrowLeft size={16} /> {t('chronoscope.newDestination')}
                     </button>
-                    <h2 className="font-serif text-2xl font-black uppercase underline decoration-double">{data?.location}</h2>
+                    <div className="flex items-center gap-2">
+                        {currentVisit && (
+                            <button onClick={() => handleToggleFavorite(currentVisit)} title={currentVisit.favorite ? t('chronoscope.unfavorite') : t('chronoscope.favorite')} className="text-ink/40 hover:text-vintage-gold">
+                                <Star size={20} className={currentVisit.favorite ? 'fill-vintage-gold text-vintage-gold' : ''} />
+                            </button>
+                        )}
+                        <h2 className="font-serif text-2xl font-black uppercase underline decoration-double">{data?.location}, {data?.era}</h2>
+                    </div>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 flex-1 items-center">
                     <button onClick={handleLoadMap} className="h-64 border-4 border-ink bg-[#f0e6d2] p-4 flex flex-col items-center justify-center gap-4 hover:-translate-y-2 hover:shadow-xl transition-all group relative overflow-hidden">
                         <Map size={48} className="text-ink group-hover:scale-110 transition-transform" />
                         <div className="text-center relative z-10">
-                            <h3 className="font-serif text-xl font-bold uppercase leading-none mb-1">Cartography</h3>
-                            <span className="font-mono text-[10px] uppercase tracking-widest">View 1920s Map</span>
+                            <h3 className="font-serif text-xl font-bold uppercase leading-none mb-1">{t('chronoscope.cartography')}</h3>
+                            <span className="font-mono text-[10px] uppercase tracking-widest">{t('chronoscope.viewMap', { era: data?.era || '' })}</span>
                         </div>
                     </button>
                     <button onClick={handleLoadTrivia} className="h-64 border-4 border-ink bg-[#f0e6d2] p-4 flex flex-col items-center justify-center gap-4 hover:-translate-y-2 hover:shadow-xl transition-all group relative overflow-hidden">
                         <BookOpen size={48} className="text-ink group-hover:scale-110 transition-transform" />
                         <div className="text-center relative z-10">
-                            <h3 className="font-serif text-xl font-bold uppercase leading-none mb-1">Intel</h3>
-                            <span className="font-mono text-[10px] uppercase tracking-widest">Secret History</span>
+                            <h3 className="font-serif text-xl font-bold uppercase leading-none mb-1">{t('chronoscope.intel')}</h3>
+                            <span className="font-mono text-[10px] uppercase tracking-widest">{t('chronoscope.secretHistory')}</span>
                         </div>
                     </button>
                     <button onClick={handleLoadPhotos} className="h-64 border-4 border-ink bg-[#f0e6d2] p-4 flex flex-col items-center justify-center gap-4 hover:-translate-y-2 hover:shadow-xl transition-all group relative overflow-hidden">
                         <Camera size={48} className="text-ink group-hover:scale-110 transition-transform" />
                         <div className="text-center relative z-10">
-                            <h3 className="font-serif text-xl font-bold uppercase leading-none mb-1">Visuals</h3>
-                            <span className="font-mono text-[10px] uppercase tracking-widest">Time Travel Photos</span>
+                            <h3 className="font-serif text-xl font-bold uppercase leading-none mb-1">{t('chronoscope.visuals')}</h3>
+                            <span className="font-mono text-[10px] uppercase tracking-widest">{t('chronoscope.timeTravelPhotos')}</span>
                         </div>
                     </button>
                 </div>
@@ -521,41 +1249,93 @@ const Chronoscope: React.FC = () => {
     }
 
     // CONTENT VIEWS
+    const mapPins = data ? buildMapPins(data) : [];
+    const selectedPin = mapPins.find(pin => pin.id === selectedPinId);
+
     return (
         <div className="p-4 max-w-3xl mx-auto pb-24 min-h-[calc(100vh-80px)]">
             <button onClick={() => setView('MENU')} className="mb-6 font-mono text-xs font-bold uppercase flex items-center gap-2 hover:text-sepia-accent transition-colors">
-                <ArrowLeft size={16} /> Back to Menu
+                <ArrowLeft size={16} /> {t('chronoscope.backToMenu')}
             </button>
 
             {loading ? (
                 <div className="flex flex-col items-center justify-center h-96 space-y-4">
                     <RefreshCw className="animate-spin text-ink" size={48} />
-                    <p className="font-mono text-xs uppercase tracking-widest animate-pulse">Retrieving Archives...</p>
+                    <p className="font-mono text-xs uppercase tracking-widest animate-pulse">{t('chronoscope.retrieving')}</p>
                 </div>
             ) : (
                 <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
                     {/* MAP */}
                     {view === 'MAP' && (
                         <div className="bg-paper border-4 border-double border-ink p-2 shadow-2xl rotate-1">
-                            <h2 className="font-serif text-2xl text-center font-bold uppercase mb-2">Survey Map: {data?.location} (c. 1920)</h2>
-                            <div className="aspect-square bg-[#e6dbc4] relative overflow-hidden border-2 border-ink">
-                                {data?.vintageMapUrl ? (
-                                    <img src={data.vintageMapUrl} alt="Vintage Map" className="w-full h-full object-cover sepia contrast-125" />
+                            <h2 className="font-serif text-2xl text-center font-bold uppercase mb-2">{t('chronoscope.surveyMap', { location: data?.location || '', era: data?.era || '' })}</h2>
+                            <ChronoscopeMap
+                                imageUrl={data?.vintageMapUrl}
+                                pins={mapPins}
+                                selectedPinId={selectedPinId}
+                                onSelectPin={(pin: ChronoscopeMapPin) => setSelectedPinId(selectedPinId === pin.id ? null : pin.id)}
+                                caption={data?.place ? `${data.place.name} • ${formatCoordinates(data.place)}` : t('chronoscope.unknownCoordinates')}
+                            />
+                            <div className="flex flex-wrap items-center gap-2 mt-2 font-mono text-[10px] uppercase">
+                                {pinning ? (
+                                    <span className="flex items-center gap-1 text-ink/60"><RefreshCw className="animate-spin" size={12} /> {t('chronoscope.surveying')}</span>
                                 ) : (
-                                    <div className="flex items-center justify-center h-full font-mono text-xs text-alert-red">[MAP GENERATION FAILED - CHECK API]</div>
+                                    <>
+                                        {!data?.trivia && (
+                                            <button onClick={() => handlePinLayer(loadTrivia)} className="flex items-center gap-1 border border-ink px-2 py-1 font-bold hover:bg-vintage-gold/20"><BookOpen size={12} /> {t('chronoscope.pinIntel')}</button>
+                                        )}
+                                        {!data?.historicalPhotos && (
+                                            <button onClick={() => handlePinLayer(loadPhotos)} className="flex items-center gap-1 border border-ink px-2 py-1 font-bold hover:bg-vintage-gold/20"><Camera size={12} /> {t('chronoscope.pinPhotos')}</button>
+                                        )}
+                                    </>
                                 )}
+                                <span className="ml-auto text-ink/50">{t('chronoscope.approximatePins')}</span>
                             </div>
+                            {mapError && <GenerationErrorNotice error={mapError} onRetry={handleLoadMap} className="mt-2" />}
+                            {photosError && <GenerationErrorNotice error={photosError} onRetry={() => handlePinLayer(loadPhotos)} className="mt-2" />}
+                        </div>
+                    )}
+                    {/* Card for the pin selected on the map */}
+                    {view === 'MAP' && selectedPin && (
+                        <div className="mt-8 animate-in slide-in-from-bottom-2 duration-300">
+                            {selectedPin.kind === 'trivia' && data?.trivia ? (
+                                <TriviaFactCard fact={data.trivia.facts[selectedPin.index]} index={selectedPin.index} />
+                            ) : data?.historicalPhotos?.[selectedPin.index] && (
+                                <div className="bg-white p-3 border-2 border-ink shadow-lg">
+                                    <div className="aspect-[4/3] bg-gray-200 overflow-hidden relative">
+                                        <img src={data.historicalPhotos[selectedPin.index]} alt={selectedPin.label} className="w-full h-full object-cover grayscale contrast-125" />
+                                    </div>
+                                </div>
+                            )}
+                            <button onClick={() => setView(selectedPin.kind === 'trivia' ? 'TRIVIA' : 'PHOTOS')} className="mt-3 font-mono text-[10px] uppercase font-bold underline hover:text-sepia-accent">
+                                {selectedPin.kind === 'trivia' ? t('chronoscope.readAllIntel') : t('chronoscope.viewAllPhotos')}
+                            </button>
                         </div>
                     )}
                     {/* TRIVIA */}
                     {view === 'TRIVIA' && (
                         <div className="space-y-6">
-                            {data?.trivia?.map((fact, i) => (
-                                <div key={i} className="bg-white border-2 border-ink p-6 shadow-[6px_6px_0px_0px_rgba(0,0,0,0.1)] relative">
-                                    <span className="absolute -top-3 -left-2 bg-ink text-paper font-mono text-xs px-2 py-1 font-bold">FACT #{i + 1}</span>
-                                    <p className="font-body text-xl leading-relaxed text-ink/90">{fact}</p>
+                            {data?.trivia ? data.trivia.facts.map((fact, i) => (
+                                <TriviaFactCard key={i} fact={fact} index={i} onShowOnMap={() => showOnMap(`trivia-${i}`)} />
+                            )) : triviaError ? (
+                                <GenerationErrorNotice error={triviaError} onRetry={handleLoadTrivia} />
+                            ) : (
+                                <div className="text-center font-mono uppercase text-alert-red">{t('chronoscope.recordsFragmented', { location: data?.location || '' })}</div>
+                            )}
+                            {!!data?.trivia?.sources.length && (
+                                <div className="border-t-2 border-ink pt-4">
+                                    <h4 className="font-mono text-xs uppercase font-bold text-ink mb-2">{t('chronoscope.sources')}</h4>
+                                    <ol className="space-y-1 list-decimal list-inside font-body text-sm text-ink/80">
+                                        {data.trivia.sources.map(source => (
+                                            <li key={source.uri}>
+                                                <a href={source.uri} target="_blank" rel="noopener noreferrer" className="underline hover:text-sepia-accent inline-flex items-center gap-1">
+                                                    {source.title} <ExternalLink size={10} />
+                                                </a>
+                                            </li>
+                                        ))}
+                                    </ol>
                                 </div>
-                            ))}
+                            )}
                         </div>
                     )}
                     {/* PHOTOS */}
@@ -564,11 +1344,16 @@ const Chronoscope: React.FC = () => {
                             {data?.historicalPhotos?.length ? data.historicalPhotos.map((photo, i) => (
                                 <div key={i} className={`bg-white p-3 border-2 border-ink shadow-lg ${i % 2 === 0 ? 'rotate-1' : '-rotate-1'} transition-transform hover:rotate-0 hover:z-10`}>
                                     <div className="aspect-[4/3] bg-gray-200 overflow-hidden relative mb-2">
-                                        <img src={photo} alt={`Historical view ${i + 1}`} className="w-full h-full object-cover grayscale contrast-125" />
+                                        <img src={photo} alt={t('chronoscope.photoAlt', { number: i + 1 })} className="w-full h-full object-cover grayscale contrast-125" />
                                     </div>
+                                    <button onClick={() => showOnMap(`photo-${i}`)} className="font-mono text-[10px] uppercase font-bold underline hover:text-sepia-accent flex items-center gap-1">
+                                        <MapPin size={10} /> {t('chronoscope.showOnMap')}
+                                    </button>
                                 </div>
-                            )) : (
-                                <div className="text-center font-mono text-alert-red">UNABLE TO DEVELOP PHOTOS - CHECK API KEY</div>
+                            )) : photosError ? (
+                                <GenerationErrorNotice error={photosError} onRetry={handleLoadPhotos} />
+                            ) : (
+                                <div className="text-center font-mono text-alert-red">{t('chronoscope.photosFailed')}</div>
                             )}
                         </div>
                     )}
@@ -579,94 +1364,185 @@ const Chronoscope: React.FC = () => {
 };
 
 // 3. MENTOR CHAT
-const MentorChat: React.FC = () => {
+const MentorChat: React.FC<{ session: TravelerSession }> = ({ session }) => {
     const [selectedMentor, setSelectedMentor] = useState<Mentor | null>(null);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [conversationId, setConversationId] = useState<string | null>(null);
+    const [pastConversations, setPastConversations] = useState<MentorConversation[]>([]);
+    const [showArchive, setShowArchive] = useState(false);
     const [input, setInput] = useState('');
     const [loading, setLoading] = useState(false);
+    const [streamingId, setStreamingId] = useState<string | null>(null);
+    const { t, locale } = useLocale();
+    const [chatError, setChatError] = useState<GenerationError | null>(null);
+    const [archiveFailed, setArchiveFailed] = useState(false);
     const scrollRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    // The thread on screen, updated as soon as it changes so a reply still streaming for another one can tell
+    const threadRef = useRef<{ mentorId: string | null; conversationId: string | null }>({ mentorId: null, conversationId: null });
 
-    const mentors: Mentor[] = [
-        {
-            id: 'einstein', name: 'Albert Einstein', role: 'Physics', era: '1921', avatar: 'E',
-            imageUrl: '', // Generated via AsyncImage
-            bio: 'The eccentric genius who dared to bend time itself.',
-            systemPrompt: 'You are Einstein.',
-            greeting: "Greetings from 1921! I must know—in your year 2025, have you finally unified gravity and electromagnetism?"
-        },
-        {
-            id: 'sarojini', name: 'Sarojini Naidu', role: 'Politics & Poetry', era: '1930', avatar: 'S',
-            imageUrl: '', // Generated via AsyncImage
-            bio: 'The Nightingale of India. A voice of fire and grace in the struggle for freedom.',
-            systemPrompt: 'You are Sarojini Naidu.',
-            greeting: "Namaste, traveler. I speak to you from a time of great struggle. Does the sun of freedom shine brightly in your time?"
-        },
-        {
-            id: 'buddha', name: 'Gautama Buddha', role: 'Philosophy', era: '500 BCE', avatar: 'B',
-            imageUrl: '',
-            bio: 'The Awakened One. Teacher of the Middle Way and the path to enlightenment.',
-            systemPrompt: 'You are Gautama Buddha. Speak with infinite compassion, calm, and wisdom. Use metaphors from nature. Focus on mindfulness, suffering, and the present moment.',
-            greeting: "Peace be with you. You travel through time, yet the mind often wanders furthest. What truth do you seek in this moment?"
-        },
-        {
-            id: 'hitler', name: 'Adolf Hitler', role: 'Leader of Germany', era: '1940', avatar: 'H',
-            imageUrl: '',
-            bio: 'Chancellor of Germany. A figure of immense historical consequence and tyranny.',
-            systemPrompt: 'You are Adolf Hitler from the 1940s. You are speaking to a student from the future. Answer questions about your time and actions from your perspective. Do not violate safety guidelines, but maintain the historical persona.',
-            greeting: "The telegraph brings news from the future? Impossible. Tell me, does the Reich stand eternal in your time?"
-        }
-    ];
+    const isShowing = (mentorId: string, id: string | null) =>
+        threadRef.current.mentorId === mentorId && threadRef.current.conversationId === id;
+
+    const [mentors, setMentors] = useState<Mentor[]>(getSeedMentors());
+
+    useEffect(() => {
+        fetchMentors().then(setMentors);
+    }, []);
 
     useEffect(() => {
         if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }, [messages]);
 
+    // Cut the line if the student leaves mid-transmission
     useEffect(() => {
-        if (selectedMentor) {
-            setMessages([{
-                id: 'init',
-                sender: 'ai',
-                text: selectedMentor.greeting,
-                timestamp: Date.now()
-            }]);
-        }
+        return () => {
+            abortRef.current?.abort();
+            threadRef.current = { mentorId: null, conversationId: null };
+        };
     }, [selectedMentor]);
 
-    const handleSend = async () => {
-        if (!input.trim() || !selectedMentor) return;
-        const userMsg: ChatMessage = { id: Date.now().toString(), sender: 'user', text: input, timestamp: Date.now() };
-        setMessages(prev => [...prev, userMsg]);
-        setInput('');
-        setLoading(true);
-
-        const reply = await chatWithMentor(selectedMentor.name, selectedMentor.era, messages, userMsg.text);
-        const aiMsg: ChatMessage = { id: (Date.now() + 1).toString(), sender: 'ai', text: reply, timestamp: Date.now() };
-        setMessages(prev => [...prev, aiMsg]);
-        setLoading(false);
+    const startNewConversation = (mentor: Mentor) => {
+        abortRef.current?.abort();
+        threadRef.current = { mentorId: mentor.id, conversationId: null };
+        setConversationId(null);
+        setChatError(null);
+        setArchiveFailed(false);
+        setMessages([{
+            id: 'init',
+            sender: 'ai',
+            text: mentor.greeting,
+            timestamp: Date.now()
+        }]);
     };
 
-    // Helper for generating specific image prompts
-    const getMentorImagePrompt = (mentor: Mentor) => {
-        if (mentor.id === 'sarojini') return "Authentic vintage photograph of Sarojini Naidu in the 1930s, indian freedom fighter, poet, black and white portrait, high quality";
-        if (mentor.id === 'buddha') return "Ancient statue or painting of Gautama Buddha, stone texture, vintage photography style, spiritual atmosphere, golden light";
-        if (mentor.id === 'hitler') return "Historical portrait of Adolf Hitler, 1940s, military uniform, vintage black and white newspaper photo";
-        return `Portrait of ${mentor.name}, ${mentor.era}, vintage photography, historical figure`;
+    const refreshArchive = async (mentor: Mentor) => {
+        const data = await listConversations(session.userId, mentor.id);
+        setPastConversations(data);
     };
 
-    const getMentorFacePrompt = (mentor: Mentor) => {
-        if (mentor.id === 'sarojini') return "Sarojini Naidu vintage portrait face only";
-        if (mentor.id === 'buddha') return "Face of Gautama Buddha statue, vintage style, close up";
-        if (mentor.id === 'hitler') return "Adolf Hitler face only, vintage 1940s photo";
-        return `Portrait of ${mentor.name}, face only`;
-    }
+    useEffect(() => {
+        if (selectedMentor) {
+            startNewConversation(selectedMentor);
+            setShowArchive(false);
+            refreshArchive(selectedMentor);
+        }
+    }, [selectedMentor]);
+
+    const handleSelectMentor = (mentor: Mentor) => {
+        setSelectedMentor(mentor);
+        trackActivity(session, { centuriesTraversed: centuriesBetween(parseEraYear(mentor.era)) });
+    };
+
+    const handleResume = async (conversation: MentorConversation) => {
+        abortRef.current?.abort();
+        threadRef.current = { mentorId: conversation.mentorId, conversationId: conversation.id };
+        setShowArchive(false);
+        setConversationId(conversation.id);
+        setChatError(null);
+        setArchiveFailed(false);
+        const history = await loadConversation(conversation.id);
+        if (isShowing(conversation.mentorId, conversation.id)) setMessages(history);
+    };
+
+    const handleDeleteConversation = async (conversation: MentorConversation) => {
+        const success = await deleteConversation(conversation.id);
+        if (!success) {
+            alert(t('mentors.deleteFailed'));
+            return;
+        }
+        setPastConversations(prev => prev.filter(c => c.id !== conversation.id));
+        if (conversation.id === conversationId && selectedMentor) startNewConversation(selectedMentor);
+    };
+
+    // Lazily opens a conversation record on the first message, filing the greeting alongside it.
+    // The new record only goes on screen if the traveler is still on the new line it was opened for.
+    const ensureConversation = async (mentor: Mentor, firstMessage: string): Promise<string> => {
+        if (conversationId) return conversationId;
+        const conversation = await createConversation(session.userId, mentor.id, firstMessage.slice(0, 60));
+        if (isShowing(mentor.id, null)) {
+            threadRef.current = { mentorId: mentor.id, conversationId: conversation.id };
+            setConversationId(conversation.id);
+        }
+        if (threadRef.current.mentorId === mentor.id) setPastConversations(prev => [conversation, ...prev]);
+        trackActivity(session, {}, { type: 'mentor', mentorId: mentor.id });
+        const greeting = messages.find(m => m.id === 'init');
+        if (greeting) await fileMessage(conversation.id, greeting);
+        return conversation.id;
+    };
+
+    // Messages stay on screen even if the archive refuses them; the traveler is told they were not kept
+    const fileMessage = async (id: string, message: ChatMessage) => {
+        const saved = await appendMessage(id, message);
+        if (!saved && threadRef.current.conversationId === id) setArchiveFailed(true);
+    };
+
+    const handleSend = async () => {
+        if (!input.trim() || !selectedMentor || loading) return;
+        const mentor = selectedMentor;
+        const userMsg: ChatMessage = { id: Date.now().toString(), sender: 'user', text: input, timestamp: Date.now() };
+        setMessages(prev => [...prev, userMsg]);
+        setInput('');
+        setLoading(true);
+        setChatError(null);
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        // Captured once the record exists; switching mentor or conversation after this leaves the reply behind
+        const activeConversationId = await ensureConversation(mentor, userMsg.text);
+        const onThread = () => isShowing(mentor.id, activeConversationId);
+        await fileMessage(activeConversationId, userMsg);
+
+        const aiId = (Date.now() + 1).toString();
+        let reply = '';
+
+        try {
+            for await (const chunk of streamChatWithMentor(mentor, messages, userMsg.text, controller.signal, locale)) {
+                if (!onThread()) break;
+                if (!reply) {
+                    // First chunk: open a new bubble for the incoming dispatch
+                    setMessages(prev => [...prev, { id: aiId, sender: 'ai', text: chunk, timestamp: Date.now() }]);
+                    setStreamingId(aiId);
+                } else {
+                    setMessages(prev => prev.map(m => m.id === aiId ? { ...m, text: reply + chunk } : m));
+                }
+                reply += chunk;
+            }
+        } catch (e) {
+            // Nothing arrived; explain why instead of putting words in the mentor's mouth
+            if (onThread()) setChatError(toGenerationError(e));
+        }
+
+        if (abortRef.current === controller) abortRef.current = null;
+        setStreamingId(null);
+        setLoading(false);
+
+        // The traveler moved to another thread; the reply must not land there or be filed under this one
+        if (!onThread()) return;
+
+        if (controller.signal.aborted) {
+            const cutText = reply ? `${reply} —` : t('mentors.cancelled');
+            setMessages(prev => reply
+                ? prev.map(m => m.id === aiId ? { ...m, text: cutText } : m)
+                : [...prev, { id: aiId, sender: 'ai', text: cutText, timestamp: Date.now() }]);
+            reply = cutText;
+        }
+
+        if (reply) await fileMessage(activeConversationId, { id: aiId, sender: 'ai', text: reply, timestamp: Date.now() });
+    };
+
+    const handleCancel = () => {
+        abortRef.current?.abort();
+    };
 
     if (!selectedMentor) {
         return (
             <div className="p-4 max-w-3xl mx-auto pb-24">
-                <SectionHeader title="Great Minds Gallery" subtitle="Establish a Neural Link" />
+                <SectionHeader title={t('mentors.title')} subtitle={t('mentors.subtitle')} />
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     {mentors.map(mentor => (
-                        <div key={mentor.id} onClick={() => { setSelectedMentor(mentor); }}
+                        <div key={mentor.id} onClick={() => handleSelectMentor(mentor)}
                             className="relative group cursor-pointer overflow-hidden border-4 border-ink bg-paper shadow-xl hover:-translate-y-2 transition-all duration-300">
                             <div className="h-64 overflow-hidden relative grayscale group-hover:grayscale-0 transition-all duration-700">
                                 <AsyncImage
@@ -701,18 +1577,53 @@ const MentorChat: React.FC = () => {
                         className="w-full h-full"
                     />
                 </div>
-                <div>
+                <div className="flex-1">
                     <h3 className="font-serif font-black text-2xl text-ink leading-none">{selectedMentor.name}</h3>
                 </div>
+                <button onClick={() => setShowArchive(!showArchive)} title={t('mentors.previousDispatches')} className={`p-2 border border-ink rounded-full transition-colors ${showArchive ? 'bg-ink text-paper' : 'hover:bg-ink hover:text-paper'}`}>
+                    <History size={16} />
+                </button>
             </div>
 
+            {showArchive && (
+                <div className="border-x-4 border-b-2 border-ink bg-paper p-3 max-h-60 overflow-y-auto animate-in slide-in-from-top-2 duration-300 relative z-20">
+                    <div className="flex justify-between items-center mb-2">
+                        <h4 className="font-mono text-[10px] uppercase font-bold tracking-widest text-ink">{t('mentors.previousDispatches')}</h4>
+                        <button onClick={() => { startNewConversation(selectedMentor); setShowArchive(false); }} className="font-mono text-[10px] uppercase font-bold underline hover:text-sepia-accent">
+                            {t('mentors.newLine')}
+                        </button>
+                    </div>
+                    {pastConversations.length === 0 ? (
+                        <p className="font-mono text-xs text-ink/50 text-center py-4">{t('mentors.noArchive', { name: selectedMentor.name })}</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {pastConversations.map(c => (
+                                <li key={c.id} className={`flex items-center gap-2 border-b border-ink/10 py-1 ${c.id === conversationId ? 'bg-vintage-gold/20' : ''}`}>
+                                    <button onClick={() => handleResume(c)} className="flex-1 text-left px-1 hover:text-sepia-accent">
+                                        <span className="font-serif text-sm text-ink block truncate">"{c.title}"</span>
+                                        <span className="font-mono text-[9px] uppercase text-ink/40">{new Date(c.updatedAt).toLocaleString(getLocaleInfo(locale).dateTag)}</span>
+                                    </button>
+                                    <button onClick={() => handleDeleteConversation(c)} title={t('mentors.burnDispatch')} className="p-1 text-ink/40 hover:text-alert-red">
+                                        <X size={14} />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
             <div className="flex-1 overflow-y-auto space-y-6 p-4 border-x-4 border-ink bg-[#e6dbc4] relative shadow-inner" ref={scrollRef}>
                 <OldPaperTexture />
                 {messages.map((msg) => (
                     <div key={msg.id} className={`flex relative z-10 animate-in slide-in-from-bottom-2 duration-500 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
                         {msg.sender === 'ai' ? (
                             <div className="max-w-[85%] bg-[#fdf6e3] border border-ink shadow-[4px_4px_0px_0px_rgba(0,0,0,0.1)] p-5 relative rotate-[-1deg]">
-                                <p className="font-mono text-sm leading-relaxed text-ink/90 whitespace-pre-wrap font-medium">{msg.text}</p>
+                                <TelegraphText
+                                    text={msg.text}
+                                    animate={msg.id === streamingId}
+                                    className="font-mono text-sm leading-relaxed text-ink/90 whitespace-pre-wrap font-medium"
+                                />
                             </div>
                         ) : (
                             <div className="max-w-[85%] bg-white border border-gray-300 shadow-md p-4 relative rotate-[1deg]">
@@ -721,7 +1632,9 @@ const MentorChat: React.FC = () => {
                         )}
                     </div>
                 ))}
-                {loading && <div className="text-center font-mono text-xs uppercase animate-pulse">Waiting for reply...</div>}
+                {loading && !streamingId && <div className="text-center font-mono text-xs uppercase animate-pulse">{t('mentors.waiting')}</div>}
+                {chatError && <GenerationErrorNotice error={chatError} />}
+                {archiveFailed && <p className="relative z-10 text-center font-mono text-[10px] uppercase tracking-widest text-alert-red">{t('mentors.archiveFailed')}</p>}
             </div>
 
             <div className="mt-4 relative z-20">
@@ -730,10 +1643,14 @@ const MentorChat: React.FC = () => {
                         value={input}
                         onChange={(e) => setInput(e.target.value)}
                         onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                        placeholder="Type your message..."
+                        placeholder={t('mentors.placeholder')}
                         className="flex-1 bg-transparent p-3 font-body text-xl placeholder:text-ink/30 focus:outline-none text-ink"
                     />
-                    <button onClick={handleSend} className="bg-ink text-paper px-6 hover:bg-sepia-accent transition-colors"><Send size={24} /></button>
+                    {loading ? (
+                        <button onClick={handleCancel} title={t('mentors.cutLine')} className="bg-alert-red text-paper px-6 hover:bg-ink transition-colors"><X size={24} /></button>
+                    ) : (
+                        <button onClick={handleSend} className="bg-ink text-paper px-6 hover:bg-sepia-accent transition-colors"><Send size={24} /></button>
+                    )}
                 </div>
             </div>
         </div>
@@ -741,86 +1658,496 @@ const MentorChat: React.FC = () => {
 };
 
 // 5. COMMUNITY (Suggestions)
-const CommunityView: React.FC = () => {
+const SUGGESTION_CATEGORIES: { id: SuggestionCategory; label: TranslationKey }[] = [
+    { id: 'feature', label: 'community.category.feature' },
+    { id: 'content', label: 'community.category.content' },
+    { id: 'bug', label: 'community.category.bug' },
+];
+
+const SUGGESTION_STATUSES: SuggestionStatus[] = ['open', 'planned', 'done'];
+const SUGGESTION_STATUS_LABELS: Record<SuggestionStatus, TranslationKey> = { open: 'community.status.open', planned: 'community.status.planned', done: 'community.status.done' };
+
+const REPORT_REASONS: { id: ReportReason; label: TranslationKey }[] = [
+    { id: 'spam', label: 'community.reason.spam' },
+    { id: 'offensive', label: 'community.reason.offensive' },
+    { id: 'off-topic', label: 'community.reason.offTopic' },
+];
+
+// Flag button that unfolds into the report reasons
+const ReportControl: React.FC<{ reported: boolean; onReport: (reason: ReportReason) => void }> = ({ reported, onReport }) => {
+    const [open, setOpen] = useState(false);
+    const { t } = useLocale();
+
+    if (reported) return <span className="text-ink/40">{t('community.reported')}</span>;
+    if (!open) {
+        return (
+            <button onClick={() => setOpen(true)} title={t('community.report')} className="text-ink/30 hover:text-alert-red">
+                <Flag size={12} />
+            </button>
+        );
+    }
+    return (
+        <span className="flex flex-wrap items-center gap-1">
+            <span className="text-ink/60">{t('community.reportAs')}</span>
+            {REPORT_REASONS.map(r => (
+                <button key={r.id} onClick={() => { setOpen(false); onReport(r.id); }} className="border border-alert-red text-alert-red px-1 font-bold hover:bg-alert-red hover:text-paper">{t(r.label)}</button>
+            ))}
+            <button onClick={() => setOpen(false)} title={t('community.cancel')} className="text-ink/40 hover:text-ink"><X size={12} /></button>
+        </span>
+    );
+};
+
+// Replies under a suggestion, set like the letters page of a newspaper
+const LettersToTheEditor: React.FC<{
+    replies: Suggestion[] | undefined; // undefined while loading
+    reportedIds: string[];
+    onReport?: (reply: Suggestion, reason: ReportReason) => void; // left out for guests, who cannot report
+    // Resolves to the reasons the letter was refused; empty once it is posted
+    onPost: (text: string) => Promise<string[]>;
+}> = ({ replies, reportedIds, onReport, onPost }) => {
+    const [draft, setDraft] = useState('');
+    const [problems, setProblems] = useState<string[]>([]);
+    const [sending, setSending] = useState(false);
+    const { t, locale } = useLocale();
+
+    const handlePost = async () => {
+        if (!draft.trim()) return;
+        const text = draft;
+        setSending(true);
+        setDraft('');
+        const refused = await onPost(text);
+        if (refused.length) setDraft(text);
+        setProblems(refused);
+        setSending(false);
+    };
+
+    if (!replies) {
+        return <div className="mt-3 ml-2 pl-4 font-mono text-xs text-ink/50"><RefreshCw className="animate-spin inline-block mr-2" size={12} /> {t('community.openingMailbag')}</div>;
+    }
+
+    return (
+        <div className="mt-3 ml-2 border-l-2 border-dashed border-ink/30 pl-4 space-y-3">
+            {replies.map(r => (
+                <div key={r.clientId || r.id} className={`bg-[#fdf6e3] border border-ink/20 p-3 shadow-sm ${r.pending ? 'opacity-60' : ''}`}>
+                    <p className="font-mono text-[9px] uppercase text-ink/40 mb-1">{t('community.salutation')}</p>
+                    <p className="font-handwriting text-lg text-ink leading-snug">{r.text}</p>
+                    <div className="mt-1 flex flex-wrap items-center justify-end gap-2 font-mono text-[10px] uppercase text-ink/50">
+                        {r.official && (
+                            <span className="flex items-center gap-1 bg-ink text-paper px-1 font-bold"><Stamp size={10} /> {t('community.maintainer')}</span>
+                        )}
+                        <span>— {r.official ? t('community.theEditors') : t('community.fellowTraveler')}, {r.pending ? t('community.transmitting') : new Date(r.timestamp).toLocaleDateString(getLocaleInfo(locale).dateTag)}</span>
+                        {!r.pending && onReport && <ReportControl reported={reportedIds.includes(r.id)} onReport={reason => onReport(r, reason)} />}
+                    </div>
+                </div>
+            ))}
+            {replies.length === 0 && (
+                <p className="font-mono text-xs text-ink/50">{t('community.noLetters')}</p>
+            )}
+            <div>
+                <textarea
+                    value={draft}
+                    onChange={(e) => { setDraft(e.target.value); setProblems([]); }}
+                    maxLength={SUGGESTION_MAX_LENGTH}
+                    placeholder={t('community.replyPlaceholder')}
+                    className="w-full h-20 bg-white/50 border border-ink p-2 font-handwriting text-lg text-ink placeholder:text-ink/30 focus:outline-none"
+                />
+                {problems.length > 0 && (
+                    <ul className="mb-2 border-l-4 border-alert-red pl-3 font-mono text-xs text-alert-red space-y-1">
+                        {problems.map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                )}
+                <button onClick={handlePost} disabled={sending || !draft.trim()} className="border-2 border-ink px-3 py-1 font-mono text-[10px] uppercase font-bold hover:bg-vintage-gold/20 disabled:opacity-40 flex items-center gap-2">
+                    {sending ? <RefreshCw className="animate-spin" size={10} /> : <Send size={10} />} {t('community.postLetter')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// Reported posts awaiting review, and ones already removed, for moderators and maintainers
+const ModeratorDesk: React.FC = () => {
+    const [state, setState] = useState<'flagged' | 'hidden'>('flagged');
+    const [items, setItems] = useState<ModerationQueueItem[]>([]);
+    const [loading, setLoading] = useState(false);
+    const { t } = useLocale();
+
+    useEffect(() => {
+        setLoading(true);
+        fetchModerationQueue(state).then(queue => {
+            setItems(queue);
+            setLoading(false);
+        });
+    }, [state]);
+
+    const handleReview = async (item: ModerationQueueItem, decision: 'approve' | 'remove') => {
+        if (await reviewSuggestion(item.suggestion.id, decision)) {
+            setItems(prev => prev.filter(i => i.suggestion.id !== item.suggestion.id));
+        } else {
+            alert(t('community.reviewRefused'));
+        }
+    };
+
+    const tabClass = (active: boolean) =>
+        `border border-paper px-2 py-0.5 font-mono text-[10px] uppercase font-bold ${active ? 'bg-paper text-ink' : 'hover:bg-paper/20'}`;
+
+    return (
+        <div className="bg-ink text-paper border-4 border-double border-paper p-4 mb-8">
+            <div className="flex items-center gap-2 mb-3">
+                <ShieldAlert size={16} className="text-vintage-gold" />
+                <h3 className="font-serif font-bold uppercase mr-auto">{t('community.moderatorDesk')}</h3>
+                <button onClick={() => setState('flagged')} className={tabClass(state === 'flagged')}>{t('community.held')}</button>
+                <button onClick={() => setState('hidden')} className={tabClass(state === 'hidden')}>{t('community.removed')}</button>
+            </div>
+            {loading ? (
+                <div className="font-mono text-xs opacity-60"><RefreshCw className="animate-spin inline-block mr-2" size={12} /> {t('community.sortingMailbag')}</div>
+            ) : items.length === 0 ? (
+                <div className="font-mono text-xs opacity-60">{state === 'flagged' ? t('community.noHeld') : t('community.noRemoved')}</div>
+            ) : (
+                <div className="space-y-2">
+                    {items.map(item => (
+                        <div key={item.suggestion.id} className="border border-paper/30 p-3">
+                            {item.suggestion.parentId && <div className="font-mono text-[9px] uppercase text-paper/50 mb-1">{t('community.letter')}</div>}
+                            <div className="font-serif text-paper leading-snug">"{item.suggestion.text}"</div>
+                            <div className="mt-2 flex flex-wrap items-center gap-2 font-mono text-[10px] uppercase">
+                                <span className="text-vintage-gold">{t(item.suggestion.reportCount === 1 ? 'community.reportCountOne' : 'community.reportCount', { count: item.suggestion.reportCount })}</span>
+                                {REPORT_REASONS.filter(r => item.reasons.includes(r.id)).map(r => (
+                                    <span key={r.id} className="border border-paper/40 px-1">{t(r.label)} ×{item.reasons.filter(reason => reason === r.id).length}</span>
+                                ))}
+                                <span className="ml-auto flex gap-1">
+                                    <button onClick={() => handleReview(item, 'approve')} className="border border-paper px-2 py-0.5 font-bold hover:bg-paper hover:text-ink flex items-center gap-1">
+                                        <CheckCircle size={10} /> {state === 'flagged' ? t('community.approve') : t('community.restore')}
+                                    </button>
+                                    {state === 'flagged' && (
+                                        <button onClick={() => handleReview(item, 'remove')} className="border border-alert-red text-alert-red px-2 py-0.5 font-bold hover:bg-alert-red hover:text-paper flex items-center gap-1">
+                                            <X size={10} /> {t('community.remove')}
+                                        </button>
+                                    )}
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const statusStyles: Record<SuggestionStatus, string> = {
+    open: 'border-ink/40 text-ink/60',
+    planned: 'border-vintage-gold text-vintage-gold',
+    done: 'border-ink bg-ink text-paper'
+};
+
+const CommunityView: React.FC<{ session: TravelerSession }> = ({ session }) => {
     const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
     const [newSuggestion, setNewSuggestion] = useState('');
+    const [newCategory, setNewCategory] = useState<SuggestionCategory>('feature');
     const [submitting, setSubmitting] = useState(false);
     const [loading, setLoading] = useState(false);
+    const [sort, setSort] = useState<SuggestionSort>('top');
+    const [categoryFilter, setCategoryFilter] = useState<SuggestionCategory | 'all'>('all');
+    const { t, locale } = useLocale();
+    const [page, setPage] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
+    const [connection, setConnection] = useState<BoardConnection>('connecting');
+    const [dispatch, setDispatch] = useState<Suggestion | null>(null);
+    const [freshIds, setFreshIds] = useState<string[]>([]);
+    const [problems, setProblems] = useState<string[]>([]);
+    const [openThreads, setOpenThreads] = useState<string[]>([]);
+    const [threads, setThreads] = useState<Record<string, Suggestion[]>>({});
+    const [reportedIds, setReportedIds] = useState<string[]>([]);
+    const [showDesk, setShowDesk] = useState(false);
+    const suggestionsRef = useRef(suggestions);
+    suggestionsRef.current = suggestions;
+    const isMaintainer = session.role === 'maintainer';
+    const isModerator = canModerate(session);
 
     useEffect(() => {
-        loadSuggestions();
-    }, []);
+        loadSuggestions(0);
+    }, [sort, categoryFilter]);
+
+    // Live board: new posts and vote counts arrive over Supabase realtime
+    useEffect(() => {
+        return subscribeToSuggestions({
+            onInsert: (incoming) => {
+                if (incoming.moderation !== 'visible') return;
+                if (incoming.parentId) {
+                    mergeIntoThread(incoming.parentId, incoming);
+                    return;
+                }
+                if (categoryFilter !== 'all' && incoming.category !== categoryFilter) return;
+                // Our own posts are already on the board as optimistic copies
+                if (mergeSuggestion(suggestionsRef.current, incoming).isNew) announceDispatch(incoming);
+                setSuggestions(prev => mergeSuggestion(prev, incoming).suggestions);
+            },
+            onUpdate: (incoming) => {
+                const parentId = incoming.parentId;
+                if (parentId) {
+                    if (incoming.moderation !== 'visible') {
+                        setThreads(prev => prev[parentId] ? { ...prev, [parentId]: prev[parentId].filter(r => r.id !== incoming.id) } : prev);
+                    } else {
+                        mergeIntoThread(parentId, incoming);
+                    }
+                    return;
+                }
+                // Held or removed posts leave the board
+                if (incoming.moderation !== 'visible') {
+                    setSuggestions(prev => prev.filter(s => s.id !== incoming.id));
+                    return;
+                }
+                setSuggestions(prev => prev.some(s => s.id === incoming.id) ? mergeSuggestion(prev, incoming).suggestions : prev);
+            },
+            onConnectionChange: setConnection,
+            onResync: () => resyncSuggestions()
+        });
+    }, [sort, categoryFilter]);
+
+    useEffect(() => {
+        if (!dispatch) return;
+        const timer = setTimeout(() => setDispatch(null), 6000);
+        return () => clearTimeout(timer);
+    }, [dispatch]);
+
+    const announceDispatch = (suggestion: Suggestion) => {
+        setDispatch(suggestion);
+        setFreshIds(prev => [...prev, suggestion.id]);
+        setTimeout(() => setFreshIds(prev => prev.filter(id => id !== suggestion.id)), 4000);
+    };
+
+    // Catch up on whatever was posted while the connection was down, without resetting the scroll position
+    const resyncSuggestions = async () => {
+        const result = await fetchSuggestions({ sort, category: categoryFilter, page: 0 }, session.userId);
+        setSuggestions(prev => [...result.suggestions].reverse().reduce((list, s) => mergeSuggestion(list, s).suggestions, prev));
+    };
 
-    const loadSuggestions = async () => {
+    // Page 0 replaces the list; later pages are appended below it
+    const loadSuggestions = async (nextPage: number) => {
         setLoading(true);
-        const data = await fetchSuggestions();
-        setSuggestions(data);
+        const result = await fetchSuggestions({ sort, category: categoryFilter, page: nextPage }, session.userId);
+        setSuggestions(prev => nextPage === 0 ? result.suggestions : [...prev, ...result.suggestions.filter(s => !prev.some(p => p.id === s.id))]);
+        setHasMore(result.hasMore);
+        setPage(nextPage);
         setLoading(false);
     };
 
+    // Optimistic: the post appears at once and is swapped for the server row (or its realtime echo, whichever lands first)
     const handleSubmit = async () => {
         if (!newSuggestion.trim()) return;
+        const rateProblem = checkPostingRate(session.userId, locale);
+        const found = [...checkSuggestion(newSuggestion, suggestions.map(s => s.text), locale), ...(rateProblem ? [rateProblem] : [])];
+        setProblems(found);
+        if (found.length) return;
+
         setSubmitting(true);
-        const success = await submitSuggestion(newSuggestion);
-        if (success) {
-            setNewSuggestion('');
-            // Optimistic update or reload
-            if (suggestions.length < 50) { // If using mock or simple list, just append
-                // If real DB, we should reload or append with temp ID. 
-                // Since we don't return the new ID from submitSuggestion in simple version, we'll reload.
-                loadSuggestions();
-            } else {
-                loadSuggestions();
-            }
-            alert("Suggestion transmitted to the ether!");
+        const clientId = crypto.randomUUID();
+        const pendingId = `pending-${clientId}`;
+        const text = newSuggestion;
+        setSuggestions(prev => [{
+            id: pendingId, text: text.trim(), timestamp: Date.now(), category: newCategory, status: 'open', votes: 0, hasVoted: false,
+            moderation: 'visible', reportCount: 0, replyCount: 0, official: false, clientId, pending: true
+        }, ...prev]);
+        setNewSuggestion('');
+
+        const { suggestion: saved, problems: refused } = await submitSuggestion(text, newCategory, clientId, locale);
+        if (saved) {
+            recordPost(session.userId);
+            setSuggestions(prev => mergeSuggestion(prev, saved).suggestions);
         } else {
-            alert("Transmission failed. The airwaves are jammed.");
+            setSuggestions(prev => prev.filter(s => s.id !== pendingId));
+            setNewSuggestion(text);
+            setProblems(refused);
         }
         setSubmitting(false);
     };
 
+    // Optimistic: flip the vote at once and roll back if the server refuses
+    const handleVote = async (suggestion: Suggestion) => {
+        if (session.isGuest) return;
+        const voted = !suggestion.hasVoted;
+        const apply = (hasVoted: boolean) => setSuggestions(prev => prev.map(s => s.id === suggestion.id
+            ? { ...s, hasVoted, votes: s.votes + (hasVoted === s.hasVoted ? 0 : hasVoted ? 1 : -1) }
+            : s));
+        apply(voted);
+        if (!await setSuggestionVote(suggestion.id, session.userId, voted)) apply(!voted);
+    };
+
+    // Threads are kept oldest first; only threads that have been opened are tracked
+    const mergeIntoThread = (parentId: string, reply: Suggestion) => setThreads(prev => prev[parentId]
+        ? { ...prev, [parentId]: mergeSuggestion(prev[parentId], reply).suggestions.sort((a, b) => a.timestamp - b.timestamp) }
+        : prev);
+
+    const toggleThread = (suggestion: Suggestion) => {
+        if (openThreads.includes(suggestion.id)) {
+            setOpenThreads(prev => prev.filter(id => id !== suggestion.id));
+            return;
+        }
+        setOpenThreads(prev => [...prev, suggestion.id]);
+        if (!threads[suggestion.id]) {
+            fetchThread(suggestion.id).then(replies => setThreads(prev => ({ ...prev, [suggestion.id]: replies })));
+        }
+    };
+
+    // Same checks and optimistic flow as a new suggestion, inside the thread
+    const handleReply = async (parent: Suggestion, text: string): Promise<string[]> => {
+        const rateProblem = checkPostingRate(session.userId, locale);
+        const found = [...checkSuggestion(text, (threads[parent.id] || []).map(r => r.text), locale), ...(rateProblem ? [rateProblem] : [])];
+        if (found.length) return found;
+
+        const clientId = crypto.randomUUID();
+        const pendingId = `pending-${clientId}`;
+        mergeIntoThread(parent.id, {
+            id: pendingId, text: text.trim(), timestamp: Date.now(), category: parent.category, status: 'open', votes: 0, hasVoted: false,
+            moderation: 'visible', reportCount: 0, parentId: parent.id, replyCount: 0, official: isMaintainer, clientId, pending: true
+        });
+
+        const { suggestion: saved, problems: refused } = await submitReply(parent.id, text, clientId, locale);
+        if (!saved) {
+            setThreads(prev => ({ ...prev, [parent.id]: (prev[parent.id] || []).filter(r => r.id !== pendingId) }));
+            return refused;
+        }
+        recordPost(session.userId);
+        mergeIntoThread(parent.id, saved);
+        return [];
+    };
+
+    const handleReport = async (suggestion: Suggestion, reason: ReportReason) => {
+        if (await reportSuggestion(suggestion.id, session.userId, reason)) {
+            setReportedIds(prev => [...prev, suggestion.id]);
+        } else {
+            alert(t('community.reportFailed'));
+        }
+    };
+
+    const handleStatusChange = async (suggestion: Suggestion, status: SuggestionStatus) => {
+        if (await setSuggestionStatus(suggestion.id, status)) {
+            setSuggestions(prev => prev.map(s => s.id === suggestion.id ? { ...s, status } : s));
+        } else {
+            alert(t('community.statusRefused'));
+        }
+    };
+
+    const toggleClass = (active: boolean) =>
+        `border border-ink px-2 py-0.5 font-mono text-[10px] uppercase font-bold ${active ? 'bg-ink text-paper' : 'hover:bg-vintage-gold/20'}`;
+
     return (
         <div className="p-4 max-w-2xl mx-auto pb-24 min-h-[calc(100vh-80px)]">
-            <SectionHeader title="Public Forum" subtitle="Anonymous Voice of the People" />
+            <SectionHeader title={t('community.title')} subtitle={t('community.subtitle')} />
 
             <div className="bg-[#fdf6e3] border-4 border-ink p-6 shadow-xl mb-8 relative">
-                <div className="absolute -top-3 left-6 bg-ink text-paper px-2 font-mono text-xs uppercase font-bold">Write to the Editor</div>
+                <div className="absolute -top-3 left-6 bg-ink text-paper px-2 font-mono text-xs uppercase font-bold">{t('community.writeToEditor')}</div>
                 <textarea
                     value={newSuggestion}
-                    onChange={(e) => setNewSuggestion(e.target.value)}
-                    placeholder="How should this world evolve? (Anonymous)"
-                    className="w-full h-32 bg-white/50 border-2 border-ink p-4 font-handwriting text-xl text-ink placeholder:text-ink/30 focus:outline-none mb-4"
+                    onChange={(e) => { setNewSuggestion(e.target.value); setProblems([]); }}
+                    maxLength={SUGGESTION_MAX_LENGTH}
+                    placeholder={t('community.placeholder')}
+                    className="w-full h-32 bg-white/50 border-2 border-ink p-4 font-handwriting text-xl text-ink placeholder:text-ink/30 focus:outline-none"
                 />
+                <div className="text-right font-mono text-[9px] text-ink/40 mb-2">{newSuggestion.trim().length}/{SUGGESTION_MAX_LENGTH}</div>
+                {problems.length > 0 && (
+                    <ul className="mb-4 border-l-4 border-alert-red pl-3 font-mono text-xs text-alert-red space-y-1">
+                        {problems.map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                )}
+                <div className="flex items-center gap-2 mb-4">
+                    <span className="font-mono text-[10px] uppercase text-ink/60">{t('community.categoryLabel')}</span>
+                    {SUGGESTION_CATEGORIES.map(c => (
+                        <button key={c.id} onClick={() => setNewCategory(c.id)} className={toggleClass(newCategory === c.id)}>{t(c.label)}</button>
+                    ))}
+                </div>
                 <button
                     onClick={handleSubmit}
                     disabled={submitting || !newSuggestion.trim()}
                     className="w-full bg-ink text-paper py-3 font-mono font-bold uppercase hover:bg-sepia-accent transition-colors flex justify-center items-center gap-2"
                 >
                     {submitting ? <RefreshCw className="animate-spin" size={16} /> : <Send size={16} />}
-                    Submit Suggestion
+                    {t('community.submit')}
                 </button>
-                <p className="font-mono text-[9px] text-ink/50 mt-2 text-center uppercase">* All telegrams are anonymous and visible to all travelers.</p>
+                <p className="font-mono text-[9px] text-ink/50 mt-2 text-center uppercase">{t('community.anonymousNote')}</p>
             </div>
 
+            {isModerator && (
+                <div className="mb-4 text-right">
+                    <button onClick={() => setShowDesk(prev => !prev)} className={toggleClass(showDesk)}>
+                        <ShieldAlert size={10} className="inline-block mr-1" /> {t('community.moderatorDesk')}
+                    </button>
+                </div>
+            )}
+            {isModerator && showDesk && <ModeratorDesk />}
+
             <div className="space-y-4">
-                <div className="flex items-center gap-2 mb-4">
+                <div className="flex flex-wrap items-center gap-2 mb-4">
                     <MessageCircle size={20} className="text-ink" />
-                    <h3 className="font-serif font-bold text-xl uppercase">Recent Transmissions</h3>
+                    <h3 className="font-serif font-bold text-xl uppercase mr-auto">{sort === 'top' ? t('community.mostSeconded') : t('community.recent')}</h3>
+                    <span className={`flex items-center gap-1 font-mono text-[9px] uppercase ${connection === 'live' ? 'text-ink/60' : 'text-alert-red'}`} title={t('community.connection')}>
+                        <Radio size={12} className={connection === 'live' ? '' : 'animate-pulse'} />
+                        {connection === 'live' ? t('community.live') : connection === 'connecting' ? t('community.tuning') : t('community.reconnecting')}
+                    </span>
+                    <button onClick={() => setSort('top')} className={toggleClass(sort === 'top')}>{t('community.sortTop')}</button>
+                    <button onClick={() => setSort('new')} className={toggleClass(sort === 'new')}>{t('community.sortNew')}</button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                    <button onClick={() => setCategoryFilter('all')} className={toggleClass(categoryFilter === 'all')}>{t('community.allCategories')}</button>
+                    {SUGGESTION_CATEGORIES.map(c => (
+                        <button key={c.id} onClick={() => setCategoryFilter(c.id)} className={toggleClass(categoryFilter === c.id)}>{t(c.label)}</button>
+                    ))}
                 </div>
-                {loading ? (
-                    <div className="text-center py-10 opacity-50"><RefreshCw className="animate-spin inline-block mr-2" /> Tuning frequency...</div>
+                {dispatch && (
+                    <div className="border-2 border-ink bg-ink text-paper px-4 py-2 animate-in fade-in slide-in-from-top-2 duration-300">
+                        <div className="flex items-center gap-2 font-mono text-[10px] uppercase font-bold text-vintage-gold">
+                            <Zap size={12} className="animate-pulse" /> {t('community.newDispatch')}
+                        </div>
+                        <TelegraphText key={dispatch.id} text={`"${dispatch.text}"`} className="font-mono text-xs mt-1 line-clamp-2" />
+                    </div>
+                )}
+                {loading && page === 0 ? (
+                    <div className="text-center py-10 opacity-50"><RefreshCw className="animate-spin inline-block mr-2" /> {t('community.tuningFrequency')}</div>
                 ) : (
                     suggestions.map(s => (
-                        <div key={s.id} className="bg-white p-4 border-b-2 border-ink/10 relative group hover:bg-[#f0e6d2] transition-colors">
-                            <div className="font-serif text-lg text-ink leading-snug">"{s.text}"</div>
-                            <div className="mt-2 text-[10px] font-mono text-ink/40 uppercase text-right">
-                                {new Date(s.timestamp).toLocaleDateString()} • Anonymous
+                        <div key={s.clientId || s.id} className={`p-4 border-b-2 border-ink/10 relative group hover:bg-[#f0e6d2] transition-colors duration-1000 flex gap-4 ${freshIds.includes(s.id) ? 'bg-vintage-gold/30' : 'bg-white'} ${s.pending ? 'opacity-60' : ''}`}>
+                            <button onClick={() => handleVote(s)} disabled={s.pending || session.isGuest} title={session.isGuest ? t('community.signInToVote') : s.hasVoted ? t('community.unvote') : t('community.vote')}
+                                className={`flex flex-col items-center justify-center w-12 shrink-0 border-2 py-1 disabled:cursor-not-allowed ${s.hasVoted ? 'border-ink bg-ink text-paper' : 'border-ink/30 text-ink hover:border-ink'}`}>
+                                <ArrowUp size={16} />
+                                <span className="font-mono text-sm font-bold">{s.votes}</span>
+                            </button>
+                            <div className="flex-1">
+                                <div className="font-serif text-lg text-ink leading-snug">"{s.text}"</div>
+                                <div className="mt-2 flex flex-wrap items-center gap-2 text-[10px] font-mono uppercase">
+                                    <span className="border border-ink/30 px-1 text-ink/60">{t(SUGGESTION_CATEGORIES.find(c => c.id === s.category)?.label || 'community.category.feature')}</span>
+                                    {isMaintainer ? (
+                                        <select value={s.status} onChange={(e) => handleStatusChange(s, e.target.value as SuggestionStatus)} className={`border px-1 bg-transparent font-bold uppercase ${statusStyles[s.status]}`}>
+                                            {SUGGESTION_STATUSES.map(status => <option key={status} value={status}>{t(SUGGESTION_STATUS_LABELS[status])}</option>)}
+                                        </select>
+                                    ) : (
+                                        <span className={`border px-1 font-bold ${statusStyles[s.status]}`}>{t(SUGGESTION_STATUS_LABELS[s.status])}</span>
+                                    )}
+                                    <span className="ml-auto text-ink/40">{s.pending ? t('community.transmitting') : new Date(s.timestamp).toLocaleDateString(getLocaleInfo(locale).dateTag)} • {t('community.anonymous')}</span>
+                                    {!s.pending && !session.isGuest && <ReportControl reported={reportedIds.includes(s.id)} onReport={reason => handleReport(s, reason)} />}
+                                </div>
+                                {!s.pending && (
+                                    <button onClick={() => toggleThread(s)} className="mt-2 flex items-center gap-1 font-mono text-[10px] uppercase font-bold text-ink/60 hover:text-ink">
+                                        <MessageSquare size={12} />
+                                        {openThreads.includes(s.id) ? t('community.foldLetters') : t('community.letters', { count: Math.max(s.replyCount, (threads[s.id] || []).filter(r => !r.pending).length) })}
+                                    </button>
+                                )}
+                                {openThreads.includes(s.id) && (
+                                    <LettersToTheEditor
+                                        replies={threads[s.id]}
+                                        reportedIds={reportedIds}
+                                        onReport={session.isGuest ? undefined : handleReport}
+                                        onPost={text => handleReply(s, text)}
+                                    />
+                                )}
                             </div>
                         </div>
                     ))
                 )}
                 {suggestions.length === 0 && !loading && (
-                    <div className="text-center font-mono text-xs text-ink/50 py-10">No signals received yet. Be the first.</div>
+                    <div className="text-center font-mono text-xs text-ink/50 py-10">{t('community.empty')}</div>
+                )}
+                {hasMore && (
+                    <button onClick={() => loadSuggestions(page + 1)} disabled={loading} className="w-full border-2 border-ink py-2 font-mono text-xs uppercase font-bold hover:bg-vintage-gold/20 flex items-center justify-center gap-2">
+                        {loading && <RefreshCw className="animate-spin" size={12} />} {t('community.older')}
+                    </button>
                 )}
             </div>
         </div>
@@ -828,64 +2155,225 @@ const CommunityView: React.FC = () => {
 };
 
 // 4. SIMULATION
-const Simulation: React.FC = () => {
-    const [result, setResult] = useState<AlternateHistoryResult | null>(null);
+const emptyPivot = (): PivotPoint => ({
+    id: '', event: '', year: '', originalOutcome: '', image: '', era: '', region: '', themes: [], imagePrompt: ''
+});
+
+const Simulation: React.FC<{ session: TravelerSession }> = ({ session }) => {
+    const [tree, setTree] = useState<TimelineTree | null>(null);
+    const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
+    const [compareNodeId, setCompareNodeId] = useState<string | null>(null);
+    const [branchStep, setBranchStep] = useState<number | null>(null);
+    const [branchInput, setBranchInput] = useState("");
     const [calculating, setCalculating] = useState(false);
+    const { t, locale } = useLocale();
+    const [simError, setSimError] = useState<GenerationError | null>(null);
     const [selectedPivot, setSelectedPivot] = useState<PivotPoint | null>(null);
     const [customInput, setCustomInput] = useState("");
 
-    const pivots: PivotPoint[] = [
-        { id: 'titanic', event: 'Sinking of the Titanic', year: '1912', originalOutcome: 'Ship sinks, safety regulations change.', image: '' },
-        { id: 'bunker', event: 'The Berlin Bunker', year: '1945', originalOutcome: 'Hitler commits suicide.', image: '' },
-        { id: 'hiroshima', event: 'Hiroshima Attack', year: '1945', originalOutcome: 'Atomic bomb dropped, ending WWII.', image: '' },
-        { id: 'rajiv', event: 'Assassination of Rajiv Gandhi', year: '1991', originalOutcome: 'Former Indian PM assassinated by suicide bomber.', image: '' },
-    ];
+    const [pivots, setPivots] = useState<PivotPoint[]>(getSeedCatalog().pivots);
+    const [filter, setFilter] = useState<PivotFilter>({ query: '', era: null, region: null, theme: null });
+    const [showAdmin, setShowAdmin] = useState(false);
+    const [newPivot, setNewPivot] = useState<PivotPoint>(emptyPivot());
+    const [newPivotThemes, setNewPivotThemes] = useState('');
+    const [pivotErrors, setPivotErrors] = useState<string[]>([]);
+    const [savingPivot, setSavingPivot] = useState(false);
+
+    useEffect(() => {
+        fetchPivotCatalog().then(catalog => setPivots(catalog.pivots));
+    }, []);
+
+    const facets = getPivotFacets(pivots);
+    const visiblePivots = filterPivots(pivots, filter);
+
+    const handleSavePivot = async () => {
+        const pivot: PivotPoint = {
+            ...newPivot,
+            themes: newPivotThemes.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)
+        };
+        const problems = validatePivot(pivot, pivots.map(p => p.id), locale);
+        setPivotErrors(problems);
+        if (problems.length) return;
+
+        setSavingPivot(true);
+        const success = await savePivot(pivot);
+        if (success) {
+            setPivots(prev => [...prev, pivot].sort((a, b) => parseInt(a.year) - parseInt(b.year)));
+            setNewPivot(emptyPivot());
+            setNewPivotThemes('');
+            setShowAdmin(false);
+        } else {
+            alert(t('simulation.saveFailed'));
+        }
+        setSavingPivot(false);
+    };
+
+    const result = tree && activeNodeId ? tree.nodes[activeNodeId] : null;
+    const activePath = tree && activeNodeId ? getPath(tree, activeNodeId) : [];
+    const compareNode = tree && compareNodeId ? tree.nodes[compareNodeId] : null;
 
     const handleSimulate = async () => {
         if (!selectedPivot || !customInput) return;
         setCalculating(true);
-        setResult(null);
-        const simResult = await simulateAlternateHistory(selectedPivot.event, selectedPivot.originalOutcome, customInput);
-        setResult(simResult);
+        handleReset();
+        setSimError(null);
+        const simResult = await simulateAlternateHistory(selectedPivot.event, selectedPivot.originalOutcome, customInput, undefined, locale);
+        if (!simResult.ok) {
+            setSimError(simResult.error);
+        } else {
+            const newTree = createTimelineTree(selectedPivot.event, selectedPivot.originalOutcome, customInput, simResult.value);
+            setTree(newTree);
+            setActiveNodeId(newTree.rootId);
+            trackActivity(session, { paradoxesCaused: 1 }, { type: 'simulation' });
+        }
         setCalculating(false);
     };
 
+    // "And then what if..." — simulate a further change from one step of the current future
+    const handleBranch = async () => {
+        if (!tree || !result || branchStep === null || !branchInput.trim()) return;
+        setCalculating(true);
+        const context = buildBranchContext(tree, result.id, branchStep);
+        setSimError(null);
+        const simResult = await simulateAlternateHistory(tree.event, tree.originalOutcome, branchInput, context, locale);
+        if (!simResult.ok) {
+            // Keep the branch form open so the traveler can retry or rephrase
+            setSimError(simResult.error);
+            setCalculating(false);
+            return;
+        }
+        const { tree: grown, node } = addBranch(tree, result.id, branchStep, branchInput, context, simResult.value);
+        setTree(grown);
+        setActiveNodeId(node.id);
+        trackActivity(session, { paradoxesCaused: 1 }, { type: 'simulation' });
+        setBranchStep(null);
+        setBranchInput("");
+        setCalculating(false);
+    };
+
+    const handleSelectNode = (nodeId: string) => {
+        setActiveNodeId(nodeId);
+        setBranchStep(null);
+        setBranchInput("");
+    };
+
+    const handleReset = () => {
+        setTree(null);
+        setActiveNodeId(null);
+        setCompareNodeId(null);
+        setBranchStep(null);
+    };
+
     return (
         <div className="p-4 max-w-3xl mx-auto pb-24">
-            <SectionHeader title="Simulation Engine" subtitle="What If...?" />
+            <SectionHeader title={t('simulation.title')} subtitle={t('simulation.subtitle')} />
 
             {!result ? (
                 <div className="space-y-8 animate-in fade-in duration-500">
                     <div className="newspaper-border p-4 bg-paper">
-                        <h3 className="font-mono text-xs font-bold uppercase mb-4 text-ink">Step 1: Select Event</h3>
-                        <div className="grid grid-cols-2 gap-4">
-                            {pivots.map(p => (
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="font-mono text-xs font-bold uppercase text-ink">{t('simulation.step1')}</h3>
+                            {canEditMentors(session) && (
+                                <button onClick={() => setShowAdmin(!showAdmin)} className="font-mono text-[10px] uppercase font-bold underline hover:text-sepia-accent">
+                                    {showAdmin ? t('simulation.closeLedger') : t('simulation.addEvent')}
+                                </button>
+                            )}
+                        </div>
+
+                        {showAdmin && canEditMentors(session) && (
+                            <div className="border-2 border-ink bg-[#fdf6e3] p-4 mb-4 space-y-3 animate-in slide-in-from-top-2 duration-300">
+                                <h4 className="font-mono text-[10px] uppercase font-bold tracking-widest text-ink">{t('simulation.catalogPivot')}</h4>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input value={newPivot.id} onChange={e => setNewPivot({ ...newPivot, id: e.target.value })} placeholder={t('simulation.pivotId')} className="bg-white/50 border-b-2 border-ink p-2 font-mono text-xs focus:outline-none" />
+                                    <input value={newPivot.year} onChange={e => setNewPivot({ ...newPivot, year: e.target.value })} placeholder={t('simulation.pivotYear')} className="bg-white/50 border-b-2 border-ink p-2 font-mono text-xs focus:outline-none" />
+                                </div>
+                                <input value={newPivot.event} onChange={e => setNewPivot({ ...newPivot, event: e.target.value })} placeholder={t('simulation.pivotEvent')} className="w-full bg-white/50 border-b-2 border-ink p-2 font-serif text-sm focus:outline-none" />
+                                <textarea value={newPivot.originalOutcome} onChange={e => setNewPivot({ ...newPivot, originalOutcome: e.target.value })} placeholder={t('simulation.pivotOutcome')} className="w-full h-16 bg-white/50 border-2 border-ink p-2 font-mono text-xs focus:outline-none" />
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input list="pivot-eras" value={newPivot.era} onChange={e => setNewPivot({ ...newPivot, era: e.target.value })} placeholder={t('simulation.pivotEra')} className="bg-white/50 border-b-2 border-ink p-2 font-mono text-xs focus:outline-none" />
+                                    <input list="pivot-regions" value={newPivot.region} onChange={e => setNewPivot({ ...newPivot, region: e.target.value })} placeholder={t('simulation.pivotRegion')} className="bg-white/50 border-b-2 border-ink p-2 font-mono text-xs focus:outline-none" />
+                                </div>
+                                <datalist id="pivot-eras">{facets.eras.map(era => <option key={era} value={era} />)}</datalist>
+                                <datalist id="pivot-regions">{facets.regions.map(region => <option key={region} value={region} />)}</datalist>
+                                <input value={newPivotThemes} onChange={e => setNewPivotThemes(e.target.value)} placeholder={t('simulation.pivotThemes')} className="w-full bg-white/50 border-b-2 border-ink p-2 font-mono text-xs focus:outline-none" />
+                                <input value={newPivot.imagePrompt || ''} onChange={e => setNewPivot({ ...newPivot, imagePrompt: e.target.value })} placeholder={t('simulation.pivotImagePrompt')} className="w-full bg-white/50 border-b-2 border-ink p-2 font-mono text-xs focus:outline-none" />
+                                {pivotErrors.length > 0 && (
+                                    <ul className="font-mono text-xs text-alert-red list-disc pl-5">
+                                        {pivotErrors.map(err => <li key={err}>{err}</li>)}
+                                    </ul>
+                                )}
+                                <button onClick={handleSavePivot} disabled={savingPivot} className="w-full bg-ink text-paper py-2 font-mono text-xs font-bold uppercase hover:bg-sepia-accent transition-colors flex items-center justify-center gap-2">
+                                    {savingPivot ? <RefreshCw className="animate-spin" size={14} /> : <Stamp size={14} />} {t('simulation.fileEvent')}
+                                </button>
+                            </div>
+                        )}
+
+                        {/* Search & Filters */}
+                        <div className="space-y-2 mb-4">
+                            <div className="flex items-center border-b-2 border-ink pb-1">
+                                <Search size={16} className="text-ink mr-2" />
+                                <input
+                                    value={filter.query}
+                                    onChange={e => setFilter({ ...filter, query: e.target.value })}
+                                    placeholder={t('simulation.searchPlaceholder')}
+                                    className="bg-transparent w-full font-serif text-lg text-ink placeholder:text-ink/30 focus:outline-none"
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <select value={filter.era || ''} onChange={e => setFilter({ ...filter, era: e.target.value || null })} className="bg-white/50 border border-ink p-1 font-mono text-xs text-ink">
+                                    <option value="">{t('simulation.allEras')}</option>
+                                    {facets.eras.map(era => <option key={era} value={era}>{era}</option>)}
+                                </select>
+                                <select value={filter.region || ''} onChange={e => setFilter({ ...filter, region: e.target.value || null })} className="bg-white/50 border border-ink p-1 font-mono text-xs text-ink">
+                                    <option value="">{t('simulation.allRegions')}</option>
+                                    {facets.regions.map(region => <option key={region} value={region}>{region}</option>)}
+                                </select>
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {facets.themes.map(theme => (
+                                    <button key={theme} onClick={() => setFilter({ ...filter, theme: filter.theme === theme ? null : theme })}
+                                        className={`px-2 py-0.5 border border-ink font-mono text-[10px] uppercase transition-colors ${filter.theme === theme ? 'bg-ink text-paper' : 'hover:bg-vintage-gold/20'}`}>
+                                        {theme}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4 max-h-[32rem] overflow-y-auto pr-1">
+                            {visiblePivots.map(p => (
                                 <div key={p.id} onClick={() => setSelectedPivot(p)}
                                     className={`cursor-pointer border-2 p-2 transition-all group ${selectedPivot?.id === p.id ? 'border-alert-red bg-alert-red/5' : 'border-ink'}`}>
                                     <div className="h-24 w-full bg-gray-300 mb-2 overflow-hidden filter grayscale">
-                                        {/* DYNAMIC PIVOT IMAGE */}
-                                        <AsyncImage
-                                            prompt={
-                                                p.id === 'titanic' ? 'RMS Titanic sinking 1912 vintage photo' :
-                                                    p.id === 'bunker' ? 'Berlin Bunker ruins 1945 vintage photo' :
-                                                        p.id === 'hiroshima' ? 'Mushroom cloud over Hiroshima, 1945, vintage black and white photo' :
-                                                            'Rajiv Gandhi with supporters in 1991, vintage news photo, india'
-                                            }
-                                            alt={p.event}
-                                            className="w-full h-full"
-                                            aspectRatio="16:9"
-                                        />
+                                        {/* Only stored images here; a generated photo is developed for the selected pivot alone */}
+                                        {p.image ? (
+                                            <img src={p.image} alt={p.event} className="w-full h-full object-cover" />
+                                        ) : (
+                                            <div className="w-full h-full flex flex-col items-center justify-center bg-[#d6cdae] border-2 border-dashed border-ink/30 text-ink/60">
+                                                <span className="font-serif text-2xl font-black leading-none">{p.year}</span>
+                                                <span className="font-mono text-[9px] uppercase tracking-widest">{p.era}</span>
+                                            </div>
+                                        )}
                                     </div>
                                     <h4 className="font-serif font-bold text-sm text-ink">{p.event}</h4>
-                                    <span className="font-mono text-[10px] text-ink/60">{p.year}</span>
+                                    <span className="font-mono text-[10px] text-ink/60">{p.year} • {p.region}</span>
                                 </div>
                             ))}
                         </div>
+                        {visiblePivots.length === 0 && (
+                            <div className="text-center font-mono text-xs text-ink/50 py-6">{t('simulation.noMatches')}</div>
+                        )}
                     </div>
 
                     {selectedPivot && (
                         <div className="newspaper-border p-4 bg-paper animate-in slide-in-from-bottom-4">
-                            <h3 className="font-mono text-xs font-bold uppercase mb-2 text-ink">Step 2: Inject Variable</h3>
+                            <div className="h-40 w-full mb-3 overflow-hidden border-2 border-ink filter grayscale">
+                                {selectedPivot.image ? (
+                                    <img src={selectedPivot.image} alt={selectedPivot.event} className="w-full h-full object-cover" />
+                                ) : (
+                                    <AsyncImage prompt={getPivotImagePrompt(selectedPivot)} alt={selectedPivot.event} className="w-full h-full" aspectRatio="16:9" />
+                                )}
+                            </div>
+                            <h3 className="font-mono text-xs font-bold uppercase mb-2 text-ink">{t('simulation.step2')}</h3>
                             <textarea
                                 value={customInput}
                                 onChange={(e) => setCustomInput(e.target.value)}
@@ -897,61 +2385,371 @@ const Simulation: React.FC = () => {
                             >
                                 {calculating ? (
                                     <>
-                                        <RefreshCw className="animate-spin" /> Calculating Ripples...
+                                        <RefreshCw className="animate-spin" /> {t('simulation.calculating')}
                                     </>
-                                ) : "Simulate Timeline"}
+                                ) : t('simulation.simulate')}
                             </button>
+                            {simError && <GenerationErrorNotice error={simError} onRetry={handleSimulate} className="mt-4" />}
                         </div>
                     )}
                 </div>
             ) : (
                 <div className="animate-in zoom-in-95 duration-700">
-                    <button onClick={() => setResult(null)} className="mb-6 font-mono text-xs underline text-ink flex items-center gap-1 hover:text-sepia-accent">
-                        <ArrowLeft size={12} /> Return to Variables
+                    <button onClick={handleReset} className="mb-6 font-mono text-xs underline text-ink flex items-center gap-1 hover:text-sepia-accent">
+                        <ArrowLeft size={12} /> {t('simulation.returnToVariables')}
                     </button>
 
+                    {/* Tree Navigator */}
+                    <div className="mb-6 space-y-2">
+                        <TimelineTreeView tree={tree!} activeId={result.id} compareId={compareNodeId} onSelect={handleSelectNode} />
+                        <div className="flex flex-wrap items-center gap-1 font-mono text-[10px] uppercase text-ink/60">
+                            {activePath.map((node, depth) => (
+                                <React.Fragment key={node.id}>
+                                    {depth > 0 && <ArrowRight size={10} />}
+                                    <button onClick={() => handleSelectNode(node.id)} className={`underline hover:text-sepia-accent ${node.id === result.id ? 'font-bold text-ink' : ''}`}>
+                                        {depth === 0 ? tree!.event : t('simulation.changeNumber', { number: depth + 1 })}
+                                    </button>
+                                </React.Fragment>
+                            ))}
+                        </div>
+                        <button onClick={() => setCompareNodeId(compareNodeId === result.id ? null : result.id)} className="font-mono text-[10px] uppercase font-bold underline hover:text-sepia-accent">
+                            {compareNodeId === result.id ? t('simulation.unpin') : t('simulation.pin')}
+                        </button>
+                    </div>
+
+                    {/* Side-by-side comparison with a pinned sibling future */}
+                    {compareNode && compareNode.id !== result.id && (
+                        <div className="grid grid-cols-2 gap-2 mb-6 animate-in fade-in duration-500">
+                            {[compareNode, result].map((node, i) => (
+                                <div key={node.id} className="border-2 border-ink bg-white p-3">
+                                    <span className="font-mono text-[9px] uppercase font-bold text-ink/50">{i === 0 ? t('simulation.pinnedFuture') : t('simulation.thisFuture')}</span>
+                                    <h4 className="font-serif font-bold text-sm uppercase leading-tight text-ink mb-1">"{node.finalHeadline}"</h4>
+                                    <p className="font-body text-sm leading-snug text-ink/80">{node.timelineSteps[node.timelineSteps.length - 1]}</p>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* GRAPHICAL TIMELINE VIEW */}
                     <div className="bg-[#f0e6d2] border-4 border-double border-ink shadow-2xl relative overflow-hidden pb-8">
                         <div className="absolute inset-0 border-l-2 border-dashed border-ink left-1/2 transform -translate-x-1/2 opacity-20 pointer-events-none h-full"></div>
 
                         {/* Headline Image Header */}
                         <div className="w-full h-48 md:h-64 bg-black relative border-b-4 border-ink overflow-hidden group">
-                            {result.imageUrl && <img src={result.imageUrl} className="w-full h-full object-cover opacity-90 sepia-[0.3]" alt="Alternate Reality" />}
+                            {result.imageUrl && <img src={result.imageUrl} className="w-full h-full object-cover opacity-90 sepia-[0.3]" alt={t('simulation.imageAlt')} />}
                             <div className="absolute inset-0 bg-gradient-to-t from-black/90 to-transparent"></div>
                             <div className="absolute bottom-4 left-0 right-0 text-center px-4">
-                                <div className="inline-block bg-alert-red text-paper px-3 py-1 font-mono text-[10px] uppercase font-bold mb-2 tracking-widest">Timeline Divergence Confirmed</div>
+                                <div className="inline-block bg-alert-red text-paper px-3 py-1 font-mono text-[10px] uppercase font-bold mb-2 tracking-widest">{t('simulation.divergence')}</div>
                                 <h1 className="font-serif text-2xl md:text-4xl font-black uppercase leading-none text-paper drop-shadow-md">"{result.finalHeadline}"</h1>
                             </div>
                         </div>
 
                         {/* Graphical Nodes */}
                         <div className="px-6 py-8 relative max-w-2xl mx-auto space-y-12">
-                            {result.timelineSteps.map((step, i) => (
-                                <div key={i} className="relative flex items-center gap-4 group">
-                                    {/* Visual Node */}
-                                    <div className="hidden md:flex flex-col items-center w-24 shrink-0">
-                                        <div className="w-12 h-12 rounded-full border-4 border-ink bg-paper flex items-center justify-center font-serif font-bold text-xl shadow-lg z-10 group-hover:bg-vintage-gold transition-colors">
-                                            {i + 1}
+                            {result.timelineSteps.map((step, i) => {
+                                const branches = getChildren(tree!, result.id).filter(child => child.branchStepIndex === i);
+                                return (
+                                    <div key={i} className="relative flex items-center gap-4 group">
+                                        {/* Visual Node */}
+                                        <div className="hidden md:flex flex-col items-center w-24 shrink-0">
+                                            <div className="w-12 h-12 rounded-full border-4 border-ink bg-paper flex items-center justify-center font-serif font-bold text-xl shadow-lg z-10 group-hover:bg-vintage-gold transition-colors">
+                                                {i + 1}
+                                            </div>
+                                            <div className="font-mono text-[10px] uppercase font-bold mt-2 text-ink/60">
+                                                {result.parentId === null
+                                                    ? (i === 0 ? '1950s' : i === 1 ? '1980s' : '2025')
+                                                    : (i === 0 ? t('simulation.soonAfter') : i === 1 ? t('simulation.decadesOn') : '2025')}
+                                            </div>
                                         </div>
-                                        <div className="font-mono text-[10px] uppercase font-bold mt-2 text-ink/60">
-                                            {i === 0 ? '1950s' : i === 1 ? '1980s' : '2025'}
+
+                                        {/* Content Card */}
+                                        <div className="flex-1 bg-white border-2 border-ink p-5 shadow-[6px_6px_0px_0px_rgba(43,34,24,0.1)] relative rotate-1 transition-transform group-hover:rotate-0">
+                                            <div className="absolute -left-2 top-1/2 w-4 h-4 bg-ink transform -translate-y-1/2 rotate-45 hidden md:block"></div>
+                                            <h4 className="font-serif font-bold text-lg mb-1 uppercase text-vintage-gold">
+                                                {i === 0 ? t('simulation.immediate') : i === 1 ? t('simulation.ripple') : t('simulation.newPresent')}
+                                            </h4>
+                                            <p className="font-body text-lg leading-snug text-ink">{step}</p>
+
+                                            {/* Existing branches off this step */}
+                                            {branches.length > 0 && (
+                                                <div className="mt-3 flex flex-wrap gap-1">
+                                                    {branches.map(branch => (
+                                                        <button key={branch.id} onClick={() => handleSelectNode(branch.id)} className="flex items-center gap-1 border border-ink px-2 py-0.5 font-mono text-[10px] uppercase hover:bg-vintage-gold/20">
+                                                            <GitBranch size={10} /> {branch.change.slice(0, 30)}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            {branchStep === i ? (
+                                                <div className="mt-3 space-y-2 animate-in slide-in-from-top-2 duration-300">
+                                                    <textarea
+                                                        value={branchInput}
+                                                        onChange={(e) => setBranchInput(e.target.value)}
+                                                        placeholder={t('simulation.branchPlaceholder')}
+                                                        className="w-full h-16 border-2 border-ink p-2 font-mono text-xs focus:outline-none bg-white/50 text-ink"
+                                                    />
+                                                    <div className="flex gap-2">
+                                                        <button onClick={() => { setBranchStep(null); setBranchInput(''); setSimError(null); }} className="flex-1 border border-ink py-1 font-mono text-[10px] uppercase font-bold hover:bg-ink/10">{t('simulation.cancel')}</button>
+                                                        <button onClick={handleBranch} disabled={calculating || !branchInput.trim()} className="flex-1 bg-ink text-paper py-1 font-mono text-[10px] uppercase font-bold hover:bg-sepia-accent flex items-center justify-center gap-1">
+                                                            {calculating ? <RefreshCw className="animate-spin" size={12} /> : <GitBranch size={12} />} {t('simulation.branch')}
+                                                        </button>
+                                                    </div>
+                                                    {simError && <GenerationErrorNotice error={simError} onRetry={handleBranch} />}
+                                                </div>
+                                            ) : (
+                                                <button onClick={() => { setBranchStep(i); setBranchInput(''); setSimError(null); }} className="mt-3 font-mono text-[10px] uppercase font-bold underline text-ink/60 hover:text-sepia-accent">
+                                                    {t('simulation.andThen')}
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
+                                );
+                            })}
+                        </div>
+                    </div>
 
-                                    {/* Content Card */}
-                                    <div className="flex-1 bg-white border-2 border-ink p-5 shadow-[6px_6px_0px_0px_rgba(43,34,24,0.1)] relative rotate-1 transition-transform group-hover:rotate-0">
-                                        <div className="absolute -left-2 top-1/2 w-4 h-4 bg-ink transform -translate-y-1/2 rotate-45 hidden md:block"></div>
-                                        <h4 className="font-serif font-bold text-lg mb-1 uppercase text-vintage-gold">
-                                            {i === 0 ? 'The Immediate Consequence' : i === 1 ? 'The Ripple Effect' : 'The New Present'}
-                                        </h4>
-                                        <p className="font-body text-lg leading-snug text-ink">{step}</p>
-                                    </div>
+                    <div className="mt-6">
+                        <PressExportPanel story={storyFromSimulation(result, tree!.event)} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// 6. EDITOR (Mentor Authoring)
+const emptyMentor = (): Mentor => ({
+    id: '', name: '', role: '', era: '', avatar: '', imageUrl: '',
+    bio: '', systemPrompt: '', greeting: '', imagePrompt: '', facePrompt: ''
+});
+
+const MentorEditor: React.FC = () => {
+    const [registry, setRegistry] = useState<MentorRegistryEntry[]>([]);
+    const [draft, setDraft] = useState<Mentor>(emptyMentor());
+    const [isNew, setIsNew] = useState(true);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+    const { t, locale } = useLocale();
+    const [loading, setLoading] = useState(false);
+    const [previewPrompt, setPreviewPrompt] = useState<string | null>(null);
+    const [previewMessages, setPreviewMessages] = useState<ChatMessage[]>([]);
+    const [previewInput, setPreviewInput] = useState('');
+    const [previewLoading, setPreviewLoading] = useState(false);
+    const [previewError, setPreviewError] = useState<GenerationError | null>(null);
+
+    useEffect(() => {
+        loadRegistry();
+    }, []);
+
+    const loadRegistry = async () => {
+        setLoading(true);
+        const data = await fetchMentorRegistry();
+        setRegistry(data);
+        setLoading(false);
+    };
+
+    const resetPreview = () => {
+        setPreviewPrompt(null);
+        setPreviewMessages([]);
+        setPreviewInput('');
+    };
+
+    const handleSelect = (entry: MentorRegistryEntry) => {
+        setDraft({ ...emptyMentor(), ...entry.mentor });
+        setIsNew(false);
+        setErrors([]);
+        resetPreview();
+    };
+
+    const handleNew = () => {
+        setDraft(emptyMentor());
+        setIsNew(true);
+        setErrors([]);
+        resetPreview();
+    };
+
+    const updateField = (field: keyof Mentor, value: string) => {
+        setDraft(prev => ({
+            ...prev,
+            [field]: value,
+            // Keep the avatar letter in step with the name unless the author set one
+            ...(field === 'name' && !prev.avatar ? { avatar: value.charAt(0).toUpperCase() } : {})
+        }));
+    };
+
+    const handleValidate = (): boolean => {
+        const takenIds = isNew ? registry.map(e => e.mentor.id) : [];
+        const problems = validateMentor(draft, takenIds, locale);
+        setErrors(problems);
+        return problems.length === 0;
+    };
+
+    const handleSave = async (publish: boolean) => {
+        if (!handleValidate()) return;
+        setSaving(true);
+        const success = await saveMentor(draft, publish);
+        if (success) {
+            setIsNew(false);
+            await loadRegistry();
+            alert(publish ? t('editor.published') : t('editor.draftSaved'));
+        } else {
+            alert(t('editor.saveFailed'));
+        }
+        setSaving(false);
+    };
+
+    const handlePreviewStart = () => {
+        setPreviewPrompt(getMentorImagePrompt(draft));
+        setPreviewMessages([{ id: 'init', sender: 'ai', text: draft.greeting || '...', timestamp: Date.now() }]);
+    };
+
+    const handlePreviewSend = async () => {
+        if (!previewInput.trim() || previewLoading) return;
+        const userMsg: ChatMessage = { id: Date.now().toString(), sender: 'user', text: previewInput, timestamp: Date.now() };
+        setPreviewMessages(prev => [...prev, userMsg]);
+        setPreviewInput('');
+        setPreviewLoading(true);
+        setPreviewError(null);
+        const reply = await chatWithMentor(draft, previewMessages, userMsg.text, locale, (await getAccessToken()) || undefined);
+        if (reply.ok) {
+            setPreviewMessages(prev => [...prev, { id: (Date.now() + 1).toString(), sender: 'ai', text: reply.value, timestamp: Date.now() }]);
+        } else {
+            setPreviewError(reply.error);
+        }
+        setPreviewLoading(false);
+    };
+
+    const fields: { key: keyof Mentor; label: TranslationKey; multiline?: boolean; placeholder?: TranslationKey }[] = [
+        { key: 'id', label: 'editor.field.id', placeholder: 'editor.field.idPlaceholder' },
+        { key: 'name', label: 'editor.field.name', placeholder: 'editor.field.namePlaceholder' },
+        { key: 'role', label: 'editor.field.role', placeholder: 'editor.field.rolePlaceholder' },
+        { key: 'era', label: 'editor.field.era', placeholder: 'editor.field.eraPlaceholder' },
+        { key: 'bio', label: 'editor.field.bio', multiline: true },
+        { key: 'systemPrompt', label: 'editor.field.systemPrompt', multiline: true },
+        { key: 'greeting', label: 'editor.field.greeting', multiline: true },
+        { key: 'imagePrompt', label: 'editor.field.imagePrompt', multiline: true },
+        { key: 'facePrompt', label: 'editor.field.facePrompt' },
+    ];
+
+    const statusLabel = (entry: MentorRegistryEntry) =>
+        entry.status === 'seed' ? t('editor.bundled') : entry.status === 'published' ? t('editor.publishedStatus') : t('editor.draft');
+
+    return (
+        <div className="p-4 max-w-4xl mx-auto pb-24">
+            <SectionHeader title={t('editor.title')} subtitle={t('editor.subtitle')} />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {/* Registry List */}
+                <div className="newspaper-border p-4 bg-paper md:col-span-1 h-fit">
+                    <div className="flex justify-between items-center mb-4">
+                        <h3 className="font-mono text-xs font-bold uppercase text-ink">{t('editor.registry')}</h3>
+                        <button onClick={handleNew} className="font-mono text-[10px] uppercase font-bold underline hover:text-sepia-accent">{t('editor.newMentor')}</button>
+                    </div>
+                    {loading ? (
+                        <div className="text-center py-6 opacity-50"><RefreshCw className="animate-spin inline-block" size={16} /></div>
+                    ) : (
+                        <ul className="space-y-1">
+                            {registry.map(entry => (
+                                <li key={entry.mentor.id}>
+                                    <button onClick={() => handleSelect(entry)}
+                                        className={`w-full text-left p-2 border-b border-ink/10 hover:bg-[#f0e6d2] transition-colors ${!isNew && draft.id === entry.mentor.id ? 'bg-vintage-gold/20' : ''}`}>
+                                        <span className="font-serif font-bold text-sm text-ink block">{entry.mentor.name}</span>
+                                        <span className="font-mono text-[9px] uppercase text-ink/50">{entry.mentor.era} • {statusLabel(entry)}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Authoring Form */}
+                <div className="md:col-span-2 space-y-6">
+                    <div className="bg-[#fdf6e3] border-4 border-ink p-6 shadow-xl relative">
+                        <div className="absolute -top-3 left-6 bg-ink text-paper px-2 font-mono text-xs uppercase font-bold">
+                            {isNew ? t('editor.newManuscript') : t('editor.revising', { name: draft.name })}
+                        </div>
+                        <div className="space-y-4">
+                            {fields.map(field => (
+                                <div key={field.key}>
+                                    <label className="font-mono text-[10px] uppercase font-bold block mb-1 text-ink">{t(field.label)}</label>
+                                    {field.multiline ? (
+                                        <textarea
+                                            value={(draft[field.key] as string) || ''}
+                                            onChange={(e) => updateField(field.key, e.target.value)}
+                                            placeholder={field.placeholder && t(field.placeholder)}
+                                            className="w-full h-20 bg-white/50 border-2 border-ink p-2 font-mono text-sm text-ink focus:outline-none"
+                                        />
+                                    ) : (
+                                        <input
+                                            value={(draft[field.key] as string) || ''}
+                                            onChange={(e) => updateField(field.key, e.target.value)}
+                                            placeholder={field.placeholder && t(field.placeholder)}
+                                            disabled={field.key === 'id' && !isNew}
+                                            className="w-full bg-white/50 border-b-2 border-ink p-2 font-serif text-lg text-ink focus:outline-none disabled:opacity-50"
+                                        />
+                                    )}
                                 </div>
                             ))}
                         </div>
+
+                        {errors.length > 0 && (
+                            <div className="mt-4 border-2 border-alert-red bg-alert-red/5 p-3">
+                                <div className="flex items-center gap-2 font-mono text-xs uppercase font-bold text-alert-red mb-1">
+                                    <AlertTriangle size={14} /> {t('editor.corrections')}
+                                </div>
+                                <ul className="font-mono text-xs text-alert-red list-disc pl-5">
+                                    {errors.map(err => <li key={err}>{err}</li>)}
+                                </ul>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-3 gap-2 mt-6">
+                            <button onClick={handlePreviewStart} className="border-2 border-ink py-3 font-mono text-xs font-bold uppercase hover:bg-vintage-gold/20 transition-colors">
+                                {t('editor.preview')}
+                            </button>
+                            <button onClick={() => handleSave(false)} disabled={saving} className="border-2 border-ink py-3 font-mono text-xs font-bold uppercase hover:bg-vintage-gold/20 transition-colors">
+                                {t('editor.saveDraft')}
+                            </button>
+                            <button onClick={() => handleSave(true)} disabled={saving} className="bg-ink text-paper py-3 font-mono text-xs font-bold uppercase hover:bg-sepia-accent transition-colors flex items-center justify-center gap-2">
+                                {saving ? <RefreshCw className="animate-spin" size={14} /> : <Stamp size={14} />} {t('editor.publish')}
+                            </button>
+                        </div>
                     </div>
+
+                    {/* Preview Proof */}
+                    {previewPrompt && (
+                        <div className="border-4 border-double border-ink bg-paper shadow-xl animate-in slide-in-from-bottom-4 duration-500">
+                            <div className="h-48 relative">
+                                <AsyncImage prompt={previewPrompt} alt={draft.name || t('editor.portraitProof')} className="w-full h-full" aspectRatio="4:3" />
+                                <div className="absolute bottom-0 left-0 p-3 bg-gradient-to-t from-black/80 to-transparent w-full text-paper">
+                                    <h3 className="font-serif text-2xl font-bold leading-none">{draft.name || t('editor.unnamed')}</h3>
+                                    <p className="font-mono text-[10px] uppercase tracking-widest text-vintage-gold">{draft.era} • {draft.role}</p>
+                                </div>
+                            </div>
+                            <div className="p-4 space-y-3 max-h-72 overflow-y-auto bg-[#e6dbc4]">
+                                {previewMessages.map(msg => (
+                                    <div key={msg.id} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                                        <p className={`max-w-[85%] p-3 border border-ink text-sm ${msg.sender === 'user' ? 'bg-white font-body' : 'bg-[#fdf6e3] font-mono'}`}>{msg.text}</p>
+                                    </div>
+                                ))}
+                                {previewLoading && <div className="text-center font-mono text-xs uppercase animate-pulse">{t('mentors.waiting')}</div>}
+                                {previewError && <GenerationErrorNotice error={previewError} />}
+                            </div>
+                            <div className="flex gap-2 p-2 border-t-2 border-ink">
+                                <input
+                                    value={previewInput}
+                                    onChange={(e) => setPreviewInput(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handlePreviewSend()}
+                                    placeholder={t('editor.testPlaceholder')}
+                                    className="flex-1 bg-transparent p-2 font-body text-lg focus:outline-none text-ink"
+                                />
+                                <button onClick={handlePreviewSend} className="bg-ink text-paper px-4 hover:bg-sepia-accent transition-colors"><Send size={18} /></button>
+                            </div>
+                        </div>
+                    )}
                 </div>
-            )}
+            </div>
         </div>
     );
 };
@@ -959,48 +2757,104 @@ const Simulation: React.FC = () => {
 // Main App remains largely the same, wrapping components
 const App: React.FC = () => {
     const [currentSection, setCurrentSection] = useState<AppSection>(AppSection.HOME);
-    const [session, setSession] = useState<any>(null);
+    const [session, setSession] = useState<TravelerSession | null>(null);
+    const [restoring, setRestoring] = useState(true);
     const [isProfileOpen, setIsProfileOpen] = useState(false);
+    const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+    // Restore a saved session on reload and follow sign-in/sign-out events from Supabase
+    useEffect(() => {
+        restoreSession().then(restored => {
+            setSession(restored);
+            setRestoring(false);
+        });
+        return onAuthChange(setSession);
+    }, []);
+
+    // Switch to the traveler's saved language; a first-time traveler keeps the one picked at the door
+    const travelerId = session?.userId;
+    useEffect(() => {
+        if (!session) return;
+        let cancelled = false;
+        fetchTravelerLocale(session).then(saved => {
+            if (cancelled) return;
+            if (saved) setLocaleState(saved);
+            else saveTravelerLocale(session, locale);
+        });
+        return () => { cancelled = true; };
+    }, [travelerId]);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const setLocale = (next: Locale) => {
+        setLocaleState(next);
+        if (session) saveTravelerLocale(session, next);
+    };
+
+    const localeValue = {
+        locale,
+        setLocale,
+        t: (key: TranslationKey, vars?: Record<string, string | number>) => translate(locale, key, vars),
+    };
 
-    const handleLogout = () => {
+    const handleLogout = async () => {
+        await signOut();
         setSession(null);
         setCurrentSection(AppSection.HOME);
         setIsProfileOpen(false);
     };
 
+    if (restoring) {
+        return (
+            <div className="min-h-screen w-full bg-paper text-ink flex flex-col items-center justify-center gap-4">
+                <RefreshCw className="animate-spin text-ink" size={32} />
+                <span className="font-mono text-xs uppercase tracking-widest animate-pulse">{translate(locale, 'login.checkingVisa')}</span>
+            </div>
+        );
+    }
+
     if (!session) {
         return (
-            <div className="min-h-screen w-full bg-paper text-ink font-serif relative overflow-hidden">
-                <OldPaperTexture />
-                <div className="relative z-10">
-                    <LoginView onLogin={() => setSession({ user: { email: 'traveler@timension.com' } })} />
+            <LocaleContext.Provider value={localeValue}>
+                <div className="min-h-screen w-full bg-paper text-ink font-serif relative overflow-hidden">
+                    <OldPaperTexture />
+                    <div className="relative z-10">
+                        <LoginView onLogin={setSession} />
+                    </div>
                 </div>
-            </div>
+            </LocaleContext.Provider>
         );
     }
 
     return (
-        <div className="min-h-screen w-full bg-paper text-ink font-serif relative overflow-x-hidden">
-            <OldPaperTexture />
-            <div className="relative z-10">
-                <div className="sticky top-0 bg-paper/95 backdrop-blur-sm z-30 border-b border-ink shadow-sm p-2 flex justify-between items-center px-4 h-16">
-                    <div className="w-8"></div>
-                    <span className="font-serif font-black text-2xl tracking-tighter text-ink cursor-default">TIMENSION</span>
-                    <button onClick={() => setIsProfileOpen(true)} className="w-10 h-10 rounded-full border-2 border-ink flex items-center justify-center hover:bg-vintage-gold/20 transition-colors bg-paper">
-                        <User size={20} className="text-ink" />
-                    </button>
+        <LocaleContext.Provider value={localeValue}>
+            <div className="min-h-screen w-full bg-paper text-ink font-serif relative overflow-x-hidden">
+                <OldPaperTexture />
+                <div className="relative z-10">
+                    <div className="sticky top-0 bg-paper/95 backdrop-blur-sm z-30 border-b border-ink shadow-sm p-2 flex justify-between items-center px-4 h-16">
+                        <div className="w-8"></div>
+                        <span className="font-serif font-black text-2xl tracking-tighter text-ink cursor-default">TIMENSION</span>
+                        <button onClick={() => setIsProfileOpen(true)} className="w-10 h-10 rounded-full border-2 border-ink flex items-center justify-center hover:bg-vintage-gold/20 transition-colors bg-paper">
+                            <User size={20} className="text-ink" />
+                        </button>
+                    </div>
+                    <BudgetBanner onOpenLedger={() => setIsProfileOpen(true)} />
+                    <ArtifactBanner onOpenVault={() => setIsProfileOpen(true)} />
+                    <main className="pt-4">
+                        {currentSection === AppSection.HOME && <DashboardView />}
+                        {currentSection === AppSection.CHRONOSCOPE && <Chronoscope session={session} />}
+                        {currentSection === AppSection.MENTORS && <MentorChat session={session} />}
+                        {currentSection === AppSection.CHRONICLE && <Simulation session={session} />}
+                        {currentSection === AppSection.COMMUNITY && <CommunityView session={session} />}
+                        {currentSection === AppSection.EDITOR && canEditMentors(session) && <MentorEditor />}
+                    </main>
+                    <TravelerVault isOpen={isProfileOpen} onClose={() => setIsProfileOpen(false)} session={session} onLogout={handleLogout} />
                 </div>
-                <main className="pt-4">
-                    {currentSection === AppSection.HOME && <DashboardView />}
-                    {currentSection === AppSection.CHRONOSCOPE && <Chronoscope />}
-                    {currentSection === AppSection.MENTORS && <MentorChat />}
-                    {currentSection === AppSection.CHRONICLE && <Simulation />}
-                    {currentSection === AppSection.COMMUNITY && <CommunityView />}
-                </main>
-                <TravelerVault isOpen={isProfileOpen} onClose={() => setIsProfileOpen(false)} userEmail={session?.user?.email} onLogout={handleLogout} />
+                <Navigation currentSection={currentSection} onNavigate={setCurrentSection} showEditor={canEditMentors(session)} />
             </div>
-            <Navigation currentSection={currentSection} onNavigate={setCurrentSection} />
-        </div>
+        </LocaleContext.Provider>
     );
 };
 
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookOpen, Camera, Minus, Plus, RotateCcw } from 'lucide-react';
+import { ChronoscopeMapPin } from '../types';
+
+interface Props {
+  imageUrl?: string;
+  pins: ChronoscopeMapPin[];
+  selectedPinId: string | null;
+  onSelectPin: (pin: ChronoscopeMapPin) => void;
+  // Shown in the corner, e.g. the destination's coordinates
+  caption?: string;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+
+interface ViewState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const clampView = (view: ViewState, width: number, height: number): ViewState => {
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, view.scale));
+  // Keep the sheet covering the frame so the traveler cannot drag it out of sight
+  const minX = width - width * scale;
+  const minY = height - height * scale;
+  return { scale, x: Math.min(0, Math.max(minX, view.x)), y: Math.min(0, Math.max(minY, view.y)) };
+};
+
+// Pannable, zoomable vintage map sheet with pins for the destination's trivia and photographs
+export const ChronoscopeMap: React.FC<Props> = ({ imageUrl, pins, selectedPinId, onSelectPin, caption }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerId: number; startX: number; startY: number; origin: ViewState; moved: boolean } | null>(null);
+  const [view, setView] = useState<ViewState>({ scale: 1, x: 0, y: 0 });
+
+  const frameSize = () => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    return { width: rect?.width || 1, height: rect?.height || 1, left: rect?.left || 0, top: rect?.top || 0 };
+  };
+
+  // Zooms while keeping the point under (px, py) fixed
+  const zoomAt = (factor: number, px?: number, py?: number) => {
+    const { width, height } = frameSize();
+    setView(prev => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * factor));
+      const cx = px ?? width / 2;
+      const cy = py ?? height / 2;
+      const ratio = scale / prev.scale;
+      return clampView({ scale, x: cx - (cx - prev.x) * ratio, y: cy - (cy - prev.y) * ratio }, width, height);
+    });
+  };
+
+  // React registers wheel listeners as passive, so the page would scroll along with the zoom
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { left, top } = frameSize();
+      zoomAt(e.deltaY < 0 ? 1.2 : 1 / 1.2, e.clientX - left, e.clientY - top);
+    };
+    frame.addEventListener('wheel', handleWheel, { passive: false });
+    return () => frame.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, origin: view, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < 4) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      // Capture only once it is really a drag, so clicks still reach the pins
+      frameRef.current?.setPointerCapture(e.pointerId);
+    }
+    const { width, height } = frameSize();
+    setView(clampView({ ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy }, width, height));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragRef.current?.pointerId === e.pointerId) dragRef.current = null;
+  };
+
+  const controlClass = "w-8 h-8 bg-paper border-2 border-ink flex items-center justify-center hover:bg-vintage-gold/30";
+
+  return (
+    <div
+      ref={frameRef}
+      className="aspect-square bg-[#e6dbc4] relative overflow-hidden border-2 border-ink touch-none select-none cursor-grab active:cursor-grabbing"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <div
+        className="absolute inset-0 origin-top-left"
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+      >
+        {imageUrl ? (
+          <img src={imageUrl} alt="Vintage Map" draggable={false} className="w-full h-full object-cover sepia contrast-125 pointer-events-none" />
+        ) : (
+          <div className="flex items-center justify-center h-full font-mono text-xs text-alert-red">[MAP GENERATION FAILED - CHECK API]</div>
+        )}
+
+        {pins.map(pin => (
+          <button
+            key={pin.id}
+            onClick={() => onSelectPin(pin)}
+            title={pin.located ? pin.label : `${pin.label} (approximate)`}
+            className="absolute -translate-x-1/2 -translate-y-full"
+            style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+          >
+            {/* Counter the map scale so pins stay the same size at every zoom level */}
+            <span
+              className={`flex items-center justify-center w-7 h-7 rounded-full border-2 shadow-md origin-bottom ${selectedPinId === pin.id ? 'bg-alert-red text-paper border-paper' : 'bg-ink text-paper border-paper hover:bg-sepia-accent'} ${pin.located ? '' : 'border-dashed'}`}
+              style={{ transform: `scale(${1 / view.scale})` }}
+            >
+              {pin.kind === 'trivia' ? <BookOpen size={14} /> : <Camera size={14} />}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="absolute top-2 right-2 flex flex-col gap-1" onPointerDown={e => e.stopPropagation()}>
+        <button onClick={() => zoomAt(1.5)} className={controlClass} title="Zoom in"><Plus size={14} /></button>
+        <button onClick={() => zoomAt(1 / 1.5)} className={controlClass} title="Zoom out"><Minus size={14} /></button>
+        <button onClick={() => setView({ scale: 1, x: 0, y: 0 })} className={controlClass} title="Reset view"><RotateCcw size={14} /></button>
+      </div>
+
+      {caption && (
+        <span className="absolute bottom-2 left-2 bg-paper/90 border border-ink px-2 py-0.5 font-mono text-[10px] uppercase text-ink pointer-events-none">{caption}</span>
+      )}
+    </div>
+  );
+};
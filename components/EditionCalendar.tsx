@@ -0,0 +1,65 @@
+import React from 'react';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { getLocaleInfo } from '../services/i18nService';
+import { useLocale } from './LocaleContext';
+
+interface Props {
+  month: string; // YYYY-MM
+  markedDates: string[]; // YYYY-MM-DD days that have an edition
+  selectedDate: string | null;
+  onSelectDate: (date: string) => void;
+  onChangeMonth: (month: string) => void;
+  // Months after this one (YYYY-MM) cannot be browsed
+  latestMonth: string;
+}
+
+const shiftMonth = (month: string, delta: number): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const shifted = new Date(year, monthIndex - 1 + delta, 1);
+  return `${shifted.getFullYear()}-${String(shifted.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const EditionCalendar: React.FC<Props> = ({ month, markedDates, selectedDate, onSelectDate, onChangeMonth, latestMonth }) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const leadingBlanks = new Date(year, monthIndex - 1, 1).getDay();
+  const daysInMonth = new Date(year, monthIndex, 0).getDate();
+  const { dateTag } = getLocaleInfo(useLocale().locale);
+  const label = new Date(year, monthIndex - 1, 1).toLocaleDateString(dateTag, { month: 'long', year: 'numeric' });
+  // January 1st, 2023 was a Sunday
+  const weekdays = Array.from({ length: 7 }, (_, i) => new Date(2023, 0, 1 + i).toLocaleDateString(dateTag, { weekday: 'short' }));
+
+  return (
+    <div className="border-2 border-ink bg-white p-4">
+      <div className="flex items-center justify-between mb-3">
+        <button onClick={() => onChangeMonth(shiftMonth(month, -1))} className="p-1 hover:text-sepia-accent" title="Previous month">
+          <ArrowLeft size={16} />
+        </button>
+        <span className="font-serif font-bold uppercase text-ink">{label}</span>
+        <button onClick={() => onChangeMonth(shiftMonth(month, 1))} disabled={month >= latestMonth} className="p-1 hover:text-sepia-accent disabled:opacity-20" title="Next month">
+          <ArrowRight size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {weekdays.map((day, i) => (
+          <span key={i} className="font-mono text-[9px] uppercase text-ink/50">{day}</span>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, i) => <span key={`blank-${i}`} />)}
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const date = `${month}-${String(i + 1).padStart(2, '0')}`;
+          const marked = markedDates.includes(date);
+          return (
+            <button
+              key={date}
+              onClick={() => onSelectDate(date)}
+              disabled={!marked}
+              className={`aspect-square font-mono text-xs border ${selectedDate === date ? 'bg-ink text-paper border-ink' : marked ? 'border-ink font-bold hover:bg-vintage-gold/20' : 'border-transparent text-ink/30'}`}
+            >
+              {i + 1}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { AlertTriangle, KeyRound, RefreshCw, Wallet } from 'lucide-react';
+import { GenerationError } from '../types';
+import { useLocale } from './LocaleContext';
+
+interface Props {
+  error: GenerationError;
+  // Offered for failures that may clear up on their own (not for a missing key, a spent budget or a safety block)
+  onRetry?: () => void;
+  className?: string;
+}
+
+// Title and message come from the traveler's dictionary (errors.<kind>.*), not error.message,
+// which is always English since proxied errors are written on the server
+export const GenerationErrorNotice: React.FC<Props> = ({ error, onRetry, className = '' }) => {
+  const { t } = useLocale();
+  const canRetry = onRetry && error.kind !== 'missing-key' && error.kind !== 'budget' && error.kind !== 'safety';
+
+  return (
+    <div role="alert" className={`border-2 border-alert-red bg-paper p-4 text-ink ${className}`}>
+      <div className="flex items-center gap-2 font-mono text-xs uppercase font-bold text-alert-red mb-1">
+        {error.kind === 'missing-key' ? <KeyRound size={14} /> : error.kind === 'budget' ? <Wallet size={14} /> : <AlertTriangle size={14} />}
+        {t(`errors.${error.kind}.title`)}
+      </div>
+      <p className="font-serif text-sm leading-snug">{t(`errors.${error.kind}.message`)}</p>
+      {canRetry && (
+        <button onClick={onRetry} className="mt-3 border-2 border-ink px-3 py-1 font-mono text-[10px] uppercase font-bold hover:bg-vintage-gold/20 flex items-center gap-2">
+          <RefreshCw size={10} /> {t('errors.retry')}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { LOCALES } from '../services/i18nService';
+import { useLocale } from './LocaleContext';
+
+interface Props {
+  className?: string;
+}
+
+// Each language is listed under its own name, so it can be found without reading the current one
+export const LanguagePicker: React.FC<Props> = ({ className = '' }) => {
+  const { locale, setLocale } = useLocale();
+
+  return (
+    <div className={`flex items-center gap-1 font-mono text-[10px] uppercase text-ink ${className}`}>
+      <Globe size={12} className="mr-1" />
+      {LOCALES.map(option => (
+        <button
+          key={option.id}
+          onClick={() => setLocale(option.id)}
+          lang={option.id}
+          aria-pressed={locale === option.id}
+          className={`border border-ink px-2 py-0.5 ${locale === option.id ? 'bg-ink text-paper font-bold' : 'hover:bg-vintage-gold/20'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { Locale } from '../types';
+import { DEFAULT_LOCALE, TranslationKey, translate } from '../services/i18nService';
+
+interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: TranslationKey, vars?: Record<string, string | number>) => string;
+}
+
+// Provided by App; the default only matters for components rendered outside it
+export const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, vars) => translate(DEFAULT_LOCALE, key, vars),
+});
+
+export const useLocale = () => useContext(LocaleContext);
@@ -1,20 +1,24 @@
 
 import React from 'react';
-import { Home, Users, Zap, Radar, MessageSquare } from 'lucide-react';
+import { Home, Users, Zap, Radar, MessageSquare, PenTool } from 'lucide-react';
 import { AppSection } from '../types';
+import { useLocale } from './LocaleContext';
 
 interface NavigationProps {
   currentSection: AppSection;
   onNavigate: (section: AppSection) => void;
+  showEditor: boolean;
 }
 
-export const Navigation: React.FC<NavigationProps> = ({ currentSection, onNavigate }) => {
+export const Navigation: React.FC<NavigationProps> = ({ currentSection, onNavigate, showEditor }) => {
+  const { t } = useLocale();
   const navItems = [
-    { id: AppSection.HOME, label: 'Dashboard', icon: <Home size={20} /> },
-    { id: AppSection.CHRONOSCOPE, label: 'Chronoscope', icon: <Radar size={20} /> },
-    { id: AppSection.MENTORS, label: 'Mentors', icon: <Users size={20} /> },
-    { id: AppSection.CHRONICLE, label: 'Simulation', icon: <Zap size={20} /> },
-    { id: AppSection.COMMUNITY, label: 'Community', icon: <MessageSquare size={20} /> },
+    { id: AppSection.HOME, label: t('nav.dashboard'), icon: <Home size={20} /> },
+    { id: AppSection.CHRONOSCOPE, label: t('nav.chronoscope'), icon: <Radar size={20} /> },
+    { id: AppSection.MENTORS, label: t('nav.mentors'), icon: <Users size={20} /> },
+    { id: AppSection.CHRONICLE, label: t('nav.simulation'), icon: <Zap size={20} /> },
+    { id: AppSection.COMMUNITY, label: t('nav.community'), icon: <MessageSquare size={20} /> },
+    ...(showEditor ? [{ id: AppSection.EDITOR, label: t('nav.editor'), icon: <PenTool size={20} /> }] : []),
   ];
 
   return (
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText, Newspaper, RefreshCw, X } from 'lucide-react';
+import { FrontPageStory } from '../types';
+import {
+  exportFrontPage,
+  getPressTray,
+  addToPressTray,
+  removeFromPressTray,
+  clearPressTray,
+  onPressTrayChange,
+  MAX_FRONT_PAGE_STORIES,
+} from '../services/newspaperExport';
+
+interface Props {
+  story: FrontPageStory;
+}
+
+// Print controls for a single story, plus the shared tray for composing a multi-story front page
+export const PressExportPanel: React.FC<Props> = ({ story }) => {
+  const [tray, setTray] = useState<FrontPageStory[]>(getPressTray());
+  const [printing, setPrinting] = useState(false);
+
+  useEffect(() => onPressTrayChange(setTray), []);
+
+  const inTray = tray.some(s => s.id === story.id);
+
+  const print = async (stories: FrontPageStory[], format: 'png' | 'pdf') => {
+    setPrinting(true);
+    try {
+      await exportFrontPage(stories, format);
+    } catch (e) {
+      console.error("Front page export failed", e);
+      alert("The press jammed. Please try printing again.");
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const toggleTray = () => {
+    if (inTray) {
+      removeFromPressTray(story.id);
+    } else if (!addToPressTray(story)) {
+      alert(`The front page holds at most ${MAX_FRONT_PAGE_STORIES} stories.`);
+    }
+  };
+
+  const buttonClass = "flex items-center gap-1 border border-ink px-2 py-1 font-mono text-[10px] uppercase font-bold hover:bg-vintage-gold/20 disabled:opacity-50";
+
+  return (
+    <div className="border-2 border-ink bg-white p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono text-[10px] uppercase text-ink/60 mr-auto flex items-center gap-1">
+          {printing ? <RefreshCw className="animate-spin" size={12} /> : <Newspaper size={12} />} Send to Press
+        </span>
+        <button onClick={() => print([story], 'png')} disabled={printing} className={buttonClass}>
+          <Download size={12} /> PNG
+        </button>
+        <button onClick={() => print([story], 'pdf')} disabled={printing} className={buttonClass}>
+          <FileText size={12} /> PDF
+        </button>
+        <button onClick={toggleTray} className={`${buttonClass} ${inTray ? 'bg-ink text-paper hover:bg-sepia-accent' : ''}`}>
+          {inTray ? 'On the Front Page' : 'Add to Front Page'}
+        </button>
+      </div>
+
+      {tray.length > 0 && (
+        <div className="border-t border-ink/20 pt-2 space-y-1">
+          <span className="font-mono text-[10px] uppercase font-bold text-ink">Front Page ({tray.length}/{MAX_FRONT_PAGE_STORIES})</span>
+          {tray.map((s, i) => (
+            <div key={s.id} className="flex items-center gap-2 font-serif text-xs uppercase text-ink">
+              <span className="font-mono text-[9px] text-ink/50">{i === 0 ? 'LEAD' : `COL ${i}`}</span>
+              <span className="truncate flex-1">{s.headline}</span>
+              <button onClick={() => removeFromPressTray(s.id)} className="text-ink/50 hover:text-alert-red" title="Remove">
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-2 pt-1">
+            <button onClick={() => print(tray, 'png')} disabled={printing} className={buttonClass}>
+              <Download size={12} /> Front Page PNG
+            </button>
+            <button onClick={() => print(tray, 'pdf')} disabled={printing} className={buttonClass}>
+              <FileText size={12} /> Front Page PDF
+            </button>
+            <button onClick={clearPressTray} className={`${buttonClass} ml-auto`}>Clear</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from 'react';
+
+interface Props {
+  text: string;
+  // When true, the text is tapped out character by character as it arrives
+  animate?: boolean;
+  className?: string;
+}
+
+export const TelegraphText: React.FC<Props> = ({ text, animate = false, className }) => {
+  const [shown, setShown] = useState(animate ? 0 : text.length);
+
+  useEffect(() => {
+    if (shown >= text.length) return;
+    // Speed up when the telegraph falls far behind the incoming signal
+    const step = Math.max(1, Math.ceil((text.length - shown) / 40));
+    const timer = setTimeout(() => setShown(prev => Math.min(text.length, prev + step)), 18);
+    return () => clearTimeout(timer);
+  }, [text, shown]);
+
+  const typing = animate || shown < text.length;
+
+  return (
+    <p className={className}>
+      {text.slice(0, shown)}
+      {typing && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-ink/70 animate-pulse" />}
+    </p>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { GitBranch } from 'lucide-react';
+import { TimelineTree } from '../types';
+import { getChildren } from '../services/timelineService';
+
+interface Props {
+  tree: TimelineTree;
+  activeId: string;
+  compareId: string | null;
+  onSelect: (nodeId: string) => void;
+}
+
+// Renders the whole tree of divergent futures as an indented chronicle index
+export const TimelineTreeView: React.FC<Props> = ({ tree, activeId, compareId, onSelect }) => {
+  const renderNode = (nodeId: string, depth: number): React.ReactNode => {
+    const node = tree.nodes[nodeId];
+    const children = getChildren(tree, nodeId);
+
+    return (
+      <li key={nodeId}>
+        <button
+          onClick={() => onSelect(nodeId)}
+          style={{ paddingLeft: `${depth * 16 + 8}px` }}
+          className={`w-full text-left py-2 pr-2 border-b border-ink/10 flex items-start gap-2 transition-colors ${nodeId === activeId ? 'bg-vintage-gold/30' : 'hover:bg-[#f0e6d2]'}`}
+        >
+          {depth > 0 && <GitBranch size={12} className="text-ink/50 mt-1 shrink-0" />}
+          <span className="flex-1">
+            <span className="font-serif text-sm font-bold text-ink block leading-tight">"{node.finalHeadline}"</span>
+            <span className="font-mono text-[9px] uppercase text-ink/50">
+              {node.branchStepIndex === null ? 'Root' : `From step ${node.branchStepIndex + 1}`} • {node.change}
+            </span>
+          </span>
+          {nodeId === compareId && (
+            <span className="font-mono text-[9px] uppercase bg-ink text-paper px-1 shrink-0">Pinned</span>
+          )}
+        </button>
+        {children.length > 0 && (
+          <ul>{children.map(child => renderNode(child.id, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="border-2 border-ink bg-paper">
+      <div className="bg-ink text-paper px-3 py-1 font-mono text-[10px] uppercase font-bold tracking-widest">
+        Branching Chronicle
+      </div>
+      <ul className="max-h-64 overflow-y-auto">{renderNode(tree.rootId, 0)}</ul>
+    </div>
+  );
+};
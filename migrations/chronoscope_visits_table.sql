@@ -0,0 +1,70 @@
+-- Migration to create the Chronoscope travel log table and policies
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- One row per traveler, destination and era; revisiting updates the row instead of adding a new one
+
+create table if not exists chronoscope_visits (
+  id uuid primary key default gen_random_uuid(),
+  traveler_id text not null,
+  location text not null,
+  location_key text not null,
+  era text not null,
+  place_id text,
+  -- Public URLs of images in the chronoscope-images bucket, never inline image data
+  vintage_map_url text,
+  trivia jsonb,
+  historical_photos jsonb,
+  favorite boolean not null default false,
+  visited_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (traveler_id, location_key, era)
+);
+
+create index if not exists chronoscope_visits_traveler_idx
+on chronoscope_visits (traveler_id, updated_at desc);
+
+-- Enable RLS
+alter table chronoscope_visits enable row level security;
+
+-- Policies
+-- Visits are private to the signed-in traveler who owns them. Guests have no auth.uid(),
+-- so the app keeps their travel log in localStorage instead.
+drop policy if exists "Enable read access for all users" on chronoscope_visits;
+drop policy if exists "Enable insert access for all users" on chronoscope_visits;
+drop policy if exists "Enable update access for all users" on chronoscope_visits;
+drop policy if exists "Enable delete access for all users" on chronoscope_visits;
+drop policy if exists "Travelers read their own visits" on chronoscope_visits;
+drop policy if exists "Travelers log their own visits" on chronoscope_visits;
+drop policy if exists "Travelers update their own visits" on chronoscope_visits;
+drop policy if exists "Travelers delete their own visits" on chronoscope_visits;
+
+create policy "Travelers read their own visits"
+on chronoscope_visits for select
+using (auth.uid() is not null and traveler_id = auth.uid()::text);
+
+create policy "Travelers log their own visits"
+on chronoscope_visits for insert
+with check (auth.uid() is not null and traveler_id = auth.uid()::text);
+
+create policy "Travelers update their own visits"
+on chronoscope_visits for update
+using (auth.uid() is not null and traveler_id = auth.uid()::text)
+with check (auth.uid() is not null and traveler_id = auth.uid()::text);
+
+create policy "Travelers delete their own visits"
+on chronoscope_visits for delete
+using (auth.uid() is not null and traveler_id = auth.uid()::text);
+
+-- Maps and photographs are uploaded once into the traveler's own folder and served by public URL
+insert into storage.buckets (id, name, public)
+values ('chronoscope-images', 'chronoscope-images', true)
+on conflict (id) do nothing;
+
+drop policy if exists "Travelers upload their own chronoscope images" on storage.objects;
+
+create policy "Travelers upload their own chronoscope images"
+on storage.objects for insert
+with check (
+  bucket_id = 'chronoscope-images'
+  and auth.uid() is not null
+  and (storage.foldername(name))[1] = auth.uid()::text
+);
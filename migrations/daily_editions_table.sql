@@ -0,0 +1,34 @@
+-- Migration to create the daily edition archive table and policies
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- One canonical article per calendar day and mode, printed by the API proxy (server/editions.ts) for everyone
+
+create table if not exists daily_editions (
+  edition_date date not null,
+  mode text not null check (mode in ('chronicle', 'onThisDay')),
+  headline text not null,
+  story_date text not null,
+  content text not null,
+  weather text not null,
+  -- Public URL of the image in the edition-images bucket, never inline image data
+  image_url text,
+  created_at timestamptz default now(),
+  primary key (edition_date, mode)
+);
+
+-- Enable RLS
+alter table daily_editions enable row level security;
+
+-- Policies
+-- Editions are never updated, so a published day cannot be rewritten
+create policy "Enable read access for all users"
+on daily_editions for select
+using (true);
+
+-- Only the proxy prints editions, with the service key (which bypasses RLS), so there is no insert policy.
+-- The drop removes the open insert policy from earlier versions of this file.
+drop policy if exists "Enable insert access for all users" on daily_editions;
+
+-- Edition images are uploaded by the proxy and served by public URL
+insert into storage.buckets (id, name, public)
+values ('edition-images', 'edition-images', true)
+on conflict (id) do nothing;
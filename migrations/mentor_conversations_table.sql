@@ -0,0 +1,77 @@
+-- Migration to create mentor conversation history tables and policies
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+
+create table if not exists mentor_conversations (
+  id uuid primary key default gen_random_uuid(),
+  traveler_id text not null,
+  mentor_id text not null,
+  title text not null default 'Untitled Dispatch',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists mentor_messages (
+  id bigint primary key generated always as identity,
+  conversation_id uuid not null references mentor_conversations(id) on delete cascade,
+  sender text not null check (sender in ('user', 'ai')),
+  content text not null,
+  created_at timestamptz default now()
+);
+
+create index if not exists mentor_conversations_traveler_mentor_idx
+on mentor_conversations (traveler_id, mentor_id, updated_at desc);
+
+create index if not exists mentor_messages_conversation_idx
+on mentor_messages (conversation_id, created_at);
+
+-- Enable RLS
+alter table mentor_conversations enable row level security;
+alter table mentor_messages enable row level security;
+
+-- Policies
+-- Conversations are private to the signed-in traveler who owns them. Guests have no auth.uid(),
+-- so their inserts are refused and the app keeps their conversations in localStorage instead.
+-- Drops make this file safe to re-run, over the earlier open policies or its own.
+drop policy if exists "Enable read access for all users" on mentor_conversations;
+drop policy if exists "Enable insert access for all users" on mentor_conversations;
+drop policy if exists "Enable update access for all users" on mentor_conversations;
+drop policy if exists "Enable delete access for all users" on mentor_conversations;
+drop policy if exists "Enable read access for all users" on mentor_messages;
+drop policy if exists "Enable insert access for all users" on mentor_messages;
+drop policy if exists "Travelers read their own conversations" on mentor_conversations;
+drop policy if exists "Travelers start their own conversations" on mentor_conversations;
+drop policy if exists "Travelers update their own conversations" on mentor_conversations;
+drop policy if exists "Travelers delete their own conversations" on mentor_conversations;
+drop policy if exists "Travelers read messages in their own conversations" on mentor_messages;
+drop policy if exists "Travelers write messages in their own conversations" on mentor_messages;
+
+create policy "Travelers read their own conversations"
+on mentor_conversations for select
+using (traveler_id = auth.uid()::text);
+
+create policy "Travelers start their own conversations"
+on mentor_conversations for insert
+with check (traveler_id = auth.uid()::text);
+
+create policy "Travelers update their own conversations"
+on mentor_conversations for update
+using (traveler_id = auth.uid()::text)
+with check (traveler_id = auth.uid()::text);
+
+create policy "Travelers delete their own conversations"
+on mentor_conversations for delete
+using (traveler_id = auth.uid()::text);
+
+create policy "Travelers read messages in their own conversations"
+on mentor_messages for select
+using (exists (
+  select 1 from mentor_conversations c
+  where c.id = conversation_id and c.traveler_id = auth.uid()::text
+));
+
+create policy "Travelers write messages in their own conversations"
+on mentor_messages for insert
+with check (exists (
+  select 1 from mentor_conversations c
+  where c.id = conversation_id and c.traveler_id = auth.uid()::text
+));
@@ -0,0 +1,52 @@
+-- Migration to create the mentor registry table and policies
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- Rows here extend (or override by id) the bundled seed in data/mentors.json
+
+create table if not exists mentors (
+  id text primary key,
+  name text not null,
+  role text not null,
+  era text not null,
+  avatar text not null default '',
+  image_url text not null default '',
+  bio text not null,
+  system_prompt text not null,
+  greeting text not null,
+  image_prompt text,
+  face_prompt text,
+  published boolean not null default false,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table mentors enable row level security;
+
+-- Same check as in suggestion_votes_and_status.sql; the role is set in app_metadata with the service key
+create or replace function is_maintainer() returns boolean
+language sql stable as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'maintainer';
+$$;
+
+-- Policies
+-- Everyone sees published mentors; drafts and all writes belong to maintainers.
+-- Every policy, old or current, is dropped first so the file can be run again.
+drop policy if exists "Enable read access for all users" on mentors;
+drop policy if exists "Enable insert access for all users" on mentors;
+drop policy if exists "Enable update access for all users" on mentors;
+drop policy if exists "Enable read access for published mentors" on mentors;
+drop policy if exists "Enable insert access for maintainers" on mentors;
+drop policy if exists "Enable update access for maintainers" on mentors;
+
+create policy "Enable read access for published mentors"
+on mentors for select
+using (published or is_maintainer());
+
+create policy "Enable insert access for maintainers"
+on mentors for insert
+with check (is_maintainer());
+
+create policy "Enable update access for maintainers"
+on mentors for update
+using (is_maintainer())
+with check (is_maintainer());
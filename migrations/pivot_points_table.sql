@@ -0,0 +1,43 @@
+-- Migration to create the pivot point catalog table and policies
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- Requires mentors_table.sql, which creates is_maintainer()
+-- Rows here extend (or override by id, when their version is newer) the bundled seed in data/pivots.json
+
+create table if not exists pivot_points (
+  id text primary key,
+  event text not null,
+  year text not null,
+  original_outcome text not null,
+  image text not null default '',
+  image_prompt text,
+  era text not null,
+  region text not null,
+  themes text[] not null default '{}',
+  version integer not null default 1,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table pivot_points enable row level security;
+
+-- Policies
+-- Everyone reads the catalog; only maintainers curate it.
+drop policy if exists "Enable read access for all users" on pivot_points;
+drop policy if exists "Enable insert access for all users" on pivot_points;
+drop policy if exists "Enable update access for all users" on pivot_points;
+drop policy if exists "Enable insert access for maintainers" on pivot_points;
+drop policy if exists "Enable update access for maintainers" on pivot_points;
+
+create policy "Enable read access for all users"
+on pivot_points for select
+using (true);
+
+create policy "Enable insert access for maintainers"
+on pivot_points for insert
+with check (is_maintainer());
+
+create policy "Enable update access for maintainers"
+on pivot_points for update
+using (is_maintainer())
+with check (is_maintainer());
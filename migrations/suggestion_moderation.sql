@@ -0,0 +1,219 @@
+-- Migration adding moderation to the community board: content checks, posting limits, reports and a review queue
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- Moderators are users whose app_metadata.role is 'moderator' (maintainers moderate too), e.g.
+--   update auth.users set raw_app_meta_data = raw_app_meta_data || '{"role": "moderator"}' where email = '...';
+--
+-- moderation states:
+--   visible - published on the board
+--   flagged - reported by enough travelers; hidden from the public until a moderator reviews it
+--   hidden  - removed by a moderator
+
+alter table suggestions
+  add column if not exists moderation text not null default 'visible' check (moderation in ('visible', 'flagged', 'hidden')),
+  add column if not exists report_count integer not null default 0;
+
+-- Earlier versions rate-limited guests by an author id the client reported about itself
+alter table suggestions drop column if exists author_id;
+
+create index if not exists suggestions_moderation_idx on suggestions (moderation, created_at desc);
+
+create or replace function is_moderator() returns boolean
+language sql stable as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') in ('moderator', 'maintainer');
+$$;
+
+-- Keep in step with BLOCKED_TERMS in services/moderationService.ts
+create table if not exists moderation_blocked_terms (
+  term text primary key
+);
+
+insert into moderation_blocked_terms (term) values
+  ('fuck'), ('shit'), ('bitch'), ('bastard'), ('asshole'), ('cunt'), ('dickhead'),
+  ('motherfucker'), ('slut'), ('whore'), ('wanker'), ('twat'), ('bollocks'), ('prick')
+on conflict do nothing;
+
+-- Anonymous posting log for rate limits; not linked to the posts themselves
+create table if not exists suggestion_post_log (
+  traveler_id text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists suggestion_post_log_idx on suggestion_post_log (traveler_id, created_at desc);
+
+-- Who a new post counts against for posting limits. Signed-in travelers are limited by account.
+-- Guests could make up any guest id, so they are limited by their address instead: the last
+-- entry in X-Forwarded-For, which the API gateway appends itself. Null when neither is known.
+create or replace function moderation_poster() returns text
+language sql stable as $$
+  select coalesce(
+    auth.uid()::text,
+    'address:' || nullif(btrim(regexp_replace(
+      coalesce(current_setting('request.headers', true), '{}')::json ->> 'x-forwarded-for', '^.*,', ''
+    )), '')
+  );
+$$;
+
+-- Lowercases and undoes common letter substitutions (sh1t, $hit) before matching
+create or replace function normalize_for_moderation(text) returns text
+language sql immutable as $$
+  select translate(lower($1), '013457@$', 'oieastas');
+$$;
+
+-- Server-side twin of checkSuggestion/checkPostingRate in services/moderationService.ts.
+-- Errors carry hint 'moderation' so the client can show the reason to the traveler.
+create or replace function moderate_new_suggestion() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  body text := btrim(new.content);
+  poster text := moderation_poster();
+  letters text := regexp_replace(body, '[^[:alpha:]]', '', 'g');
+begin
+  if char_length(body) < 10 or char_length(body) > 500 then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'Suggestions must be between 10 and 500 characters.';
+  end if;
+
+  if exists (
+    select 1 from moderation_blocked_terms
+    where normalize_for_moderation(body) ~ ('\m' || term)
+  ) then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'Please keep the language civil.';
+  end if;
+
+  if body ~* '(https?://|www\.|\.(com|net|org|io|ru|xyz)\M)' then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'Links are not allowed on the board.';
+  end if;
+
+  if body ~ '(.)\1{7,}' or (char_length(letters) > 20 and letters = upper(letters) and letters <> lower(letters)) then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'That reads like spam. Please write it out normally.';
+  end if;
+
+  if exists (
+    select 1 from suggestions
+    where lower(btrim(content)) = lower(body) and created_at > now() - interval '1 day'
+  ) then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'This suggestion has already been posted.';
+  end if;
+
+  if poster is null then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'Unknown traveler.';
+  end if;
+
+  if (select count(*) from suggestion_post_log where traveler_id = poster and created_at > now() - interval '10 minutes') >= 3
+     or (select count(*) from suggestion_post_log where traveler_id = poster and created_at > now() - interval '1 day') >= 20 then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'You are posting too quickly. Please wait a few minutes.';
+  end if;
+
+  insert into suggestion_post_log (traveler_id) values (poster);
+
+  new.content := body;
+  return new;
+end;
+$$;
+
+drop trigger if exists suggestions_moderate_insert on suggestions;
+create trigger suggestions_moderate_insert
+before insert on suggestions
+for each row execute function moderate_new_suggestion();
+
+-- Direct updates may only touch what the caller's role allows. Nested updates from our own
+-- triggers (vote and report counts) are let through.
+create or replace function guard_suggestion_update() returns trigger
+language plpgsql as $$
+begin
+  if pg_trigger_depth() > 1 then
+    return new;
+  end if;
+
+  if new.content is distinct from old.content
+     or new.category is distinct from old.category
+     or new.vote_count is distinct from old.vote_count
+     or new.created_at is distinct from old.created_at
+     or new.client_id is distinct from old.client_id then
+    raise exception 'Suggestions cannot be edited';
+  end if;
+
+  if new.status is distinct from old.status and not is_maintainer() then
+    raise exception 'Only maintainers may change a status';
+  end if;
+
+  if (new.moderation is distinct from old.moderation or new.report_count is distinct from old.report_count)
+     and not is_moderator() then
+    raise exception 'Only moderators may review suggestions';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists suggestions_guard_update on suggestions;
+create trigger suggestions_guard_update
+before update on suggestions
+for each row execute function guard_suggestion_update();
+
+create table if not exists suggestion_reports (
+  suggestion_id bigint not null references suggestions(id) on delete cascade,
+  reporter_id text not null,
+  reason text not null check (reason in ('spam', 'offensive', 'off-topic')),
+  created_at timestamptz default now(),
+  primary key (suggestion_id, reporter_id)
+);
+
+-- Three reports take a post off the public board until a moderator reviews it
+create or replace function sync_suggestion_report_count() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  update suggestions
+  set report_count = report_count + 1,
+      moderation = case when moderation = 'visible' and report_count + 1 >= 3 then 'flagged' else moderation end
+  where id = new.suggestion_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists suggestion_reports_count on suggestion_reports;
+create trigger suggestion_reports_count
+after insert on suggestion_reports
+for each row execute function sync_suggestion_report_count();
+
+-- Enable RLS
+alter table suggestion_reports enable row level security;
+alter table suggestion_post_log enable row level security;
+alter table moderation_blocked_terms enable row level security;
+
+-- Policies
+-- The public board only shows published posts; moderators see everything
+drop policy if exists "Enable read access for all users" on suggestions;
+create policy "Enable read access for all users"
+on suggestions for select
+using (moderation = 'visible' or is_moderator());
+
+drop policy if exists "Enable insert access for all users" on suggestions;
+create policy "Enable insert access for all users"
+on suggestions for insert
+with check (status = 'open' and vote_count = 0 and moderation = 'visible' and report_count = 0);
+
+-- Column changes are policed by guard_suggestion_update
+drop policy if exists "Enable reviews for moderators" on suggestions;
+create policy "Enable reviews for moderators"
+on suggestions for update
+using (is_moderator())
+with check (is_moderator());
+
+-- Reporters stay anonymous to everyone but moderators
+drop policy if exists "Enable read access for moderators" on suggestion_reports;
+create policy "Enable read access for moderators"
+on suggestion_reports for select
+using (is_moderator());
+
+-- Only signed-in travelers report, so nobody can invent reporters to take a post down; guests cannot report
+drop policy if exists "Enable reporting as yourself" on suggestion_reports;
+create policy "Enable reporting as yourself"
+on suggestion_reports for insert
+with check (auth.uid() is not null and reporter_id = auth.uid()::text);
@@ -0,0 +1,138 @@
+-- Migration adding reply threads ("letters to the editor") under community suggestions
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- Requires suggestion_moderation.sql. Replies are rows of the same table with a parent_id; threads are
+-- one level deep. Replies stay anonymous, but those written by maintainers are marked official.
+
+alter table suggestions
+  add column if not exists parent_id bigint references suggestions(id) on delete cascade,
+  add column if not exists reply_count integer not null default 0,
+  add column if not exists official boolean not null default false;
+
+create index if not exists suggestions_thread_idx on suggestions (parent_id, created_at);
+
+-- Replies may only answer a published top-level suggestion; official is decided here, never by the client
+create or replace function thread_new_suggestion() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.parent_id is not null and not exists (
+    select 1 from suggestions where id = new.parent_id and parent_id is null and moderation = 'visible'
+  ) then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'That suggestion is no longer taking replies.';
+  end if;
+
+  new.official := new.parent_id is not null and is_maintainer();
+  new.reply_count := 0;
+  return new;
+end;
+$$;
+
+-- Fires after suggestions_moderate_insert (triggers run in name order)
+drop trigger if exists suggestions_thread_insert on suggestions;
+create trigger suggestions_thread_insert
+before insert on suggestions
+for each row execute function thread_new_suggestion();
+
+-- Same checks as before, except a duplicate only counts within the same thread,
+-- so "This is planned." can be said under more than one suggestion
+create or replace function moderate_new_suggestion() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  body text := btrim(new.content);
+  poster text := moderation_poster();
+  letters text := regexp_replace(body, '[^[:alpha:]]', '', 'g');
+begin
+  if char_length(body) < 10 or char_length(body) > 500 then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'Suggestions must be between 10 and 500 characters.';
+  end if;
+
+  if exists (
+    select 1 from moderation_blocked_terms
+    where normalize_for_moderation(body) ~ ('\m' || term)
+  ) then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'Please keep the language civil.';
+  end if;
+
+  if body ~* '(https?://|www\.|\.(com|net|org|io|ru|xyz)\M)' then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'Links are not allowed on the board.';
+  end if;
+
+  if body ~ '(.)\1{7,}' or (char_length(letters) > 20 and letters = upper(letters) and letters <> lower(letters)) then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'That reads like spam. Please write it out normally.';
+  end if;
+
+  if exists (
+    select 1 from suggestions
+    where lower(btrim(content)) = lower(body)
+      and parent_id is not distinct from new.parent_id
+      and created_at > now() - interval '1 day'
+  ) then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'This suggestion has already been posted.';
+  end if;
+
+  if poster is null then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'Unknown traveler.';
+  end if;
+
+  if (select count(*) from suggestion_post_log where traveler_id = poster and created_at > now() - interval '10 minutes') >= 3
+     or (select count(*) from suggestion_post_log where traveler_id = poster and created_at > now() - interval '1 day') >= 20 then
+    raise exception using errcode = 'check_violation', hint = 'moderation',
+      message = 'You are posting too quickly. Please wait a few minutes.';
+  end if;
+
+  insert into suggestion_post_log (traveler_id) values (poster);
+
+  new.content := body;
+  return new;
+end;
+$$;
+
+-- Keep the parent's reply_count in step with its replies (top-level rows have no parent, so nothing is updated)
+create or replace function sync_suggestion_reply_count() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if tg_op = 'INSERT' then
+    update suggestions set reply_count = reply_count + 1 where id = new.parent_id;
+  else
+    update suggestions set reply_count = reply_count - 1 where id = old.parent_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists suggestions_reply_count on suggestions;
+create trigger suggestions_reply_count
+after insert or delete on suggestions
+for each row execute function sync_suggestion_reply_count();
+
+-- Thread columns are never edited directly (nested updates from the count trigger are let through)
+create or replace function guard_suggestion_thread_update() returns trigger
+language plpgsql as $$
+begin
+  if pg_trigger_depth() = 1 and (
+    new.parent_id is distinct from old.parent_id
+    or new.official is distinct from old.official
+    or new.reply_count is distinct from old.reply_count
+  ) then
+    raise exception 'Suggestions cannot be edited';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists suggestions_guard_thread_update on suggestions;
+create trigger suggestions_guard_thread_update
+before update on suggestions
+for each row execute function guard_suggestion_thread_update();
+
+-- Policies
+drop policy if exists "Enable insert access for all users" on suggestions;
+create policy "Enable insert access for all users"
+on suggestions for insert
+with check (status = 'open' and vote_count = 0 and moderation = 'visible' and report_count = 0 and reply_count = 0);
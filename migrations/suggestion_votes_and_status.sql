@@ -0,0 +1,77 @@
+-- Migration adding categories, maintainer status and one-per-traveler upvotes to suggestions
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- Maintainers are users whose app_metadata.role is 'maintainer' (set with the service key, e.g.
+--   update auth.users set raw_app_meta_data = raw_app_meta_data || '{"role": "maintainer"}' where email = '...';)
+
+alter table suggestions
+  add column if not exists category text not null default 'feature' check (category in ('bug', 'feature', 'content')),
+  add column if not exists status text not null default 'open' check (status in ('open', 'planned', 'done')),
+  add column if not exists vote_count integer not null default 0;
+
+create index if not exists suggestions_top_idx on suggestions (vote_count desc, created_at desc);
+
+-- traveler_id is the auth user id; guests cannot vote
+create table if not exists suggestion_votes (
+  suggestion_id bigint not null references suggestions(id) on delete cascade,
+  traveler_id text not null,
+  created_at timestamptz default now(),
+  primary key (suggestion_id, traveler_id)
+);
+
+-- Keep the denormalized vote_count in step with the votes table.
+-- security definer so the count updates even though travelers cannot update suggestions themselves.
+create or replace function sync_suggestion_vote_count() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if tg_op = 'INSERT' then
+    update suggestions set vote_count = vote_count + 1 where id = new.suggestion_id;
+  else
+    update suggestions set vote_count = vote_count - 1 where id = old.suggestion_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists suggestion_votes_count on suggestion_votes;
+create trigger suggestion_votes_count
+after insert or delete on suggestion_votes
+for each row execute function sync_suggestion_vote_count();
+
+create or replace function is_maintainer() returns boolean
+language sql stable as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'maintainer';
+$$;
+
+-- Enable RLS
+alter table suggestion_votes enable row level security;
+
+-- Policies
+-- New suggestions always start open and unvoted
+drop policy if exists "Enable insert access for all users" on suggestions;
+create policy "Enable insert access for all users"
+on suggestions for insert
+with check (status = 'open' and vote_count = 0);
+
+create policy "Enable status updates for maintainers"
+on suggestions for update
+using (is_maintainer())
+with check (is_maintainer());
+
+create policy "Enable read access for all users"
+on suggestion_votes for select
+using (true);
+
+-- Only signed-in travelers vote, as themselves. Guest ids are made up in the browser, so
+-- accepting them would let anyone vote as often as they liked.
+drop policy if exists "Enable voting as yourself" on suggestion_votes;
+create policy "Enable voting as yourself"
+on suggestion_votes for insert
+with check (auth.uid() is not null and traveler_id = auth.uid()::text);
+
+drop policy if exists "Enable removing your own vote" on suggestion_votes;
+create policy "Enable removing your own vote"
+on suggestion_votes for delete
+using (auth.uid() is not null and traveler_id = auth.uid()::text);
+
+-- Withdraw guest votes cast under the earlier policy; the trigger above lowers the counts
+delete from suggestion_votes where traveler_id like 'guest-%';
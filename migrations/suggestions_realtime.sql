@@ -0,0 +1,19 @@
+-- Migration enabling the live community board
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- (or, for a local stack started with `supabase start`, in Studio at http://localhost:54323)
+
+-- Set by the submitting client so it can match the realtime echo to its optimistic copy
+alter table suggestions
+  add column if not exists client_id uuid unique;
+
+-- Broadcast inserts and updates (new posts, vote counts, status changes) to subscribed clients
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'suggestions'
+  ) then
+    alter publication supabase_realtime add table suggestions;
+  end if;
+end;
+$$;
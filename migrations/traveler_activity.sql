@@ -0,0 +1,70 @@
+-- Migration making traveler activity updates atomic
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- Requires traveler_artifacts_table.sql. Counters and milestone progress are added to in the database
+-- rather than read, changed and written back by the client, so two tabs recording at once cannot lose a trip.
+
+create or replace function record_traveler_activity(
+  p_traveler_id text,
+  p_email text,
+  p_centuries integer default 0,
+  p_paradoxes integer default 0,
+  p_discoveries integer default 0,
+  p_event jsonb default null
+) returns traveler_profiles
+language plpgsql as $$
+declare
+  mentor_id text := p_event ->> 'mentorId';
+  place text := lower(btrim(p_event ->> 'location'));
+  result traveler_profiles;
+begin
+  -- Travelers only ever add to their own record; guests have no auth.uid() and keep theirs locally
+  if auth.uid() is null or p_traveler_id <> auth.uid()::text then
+    raise exception using errcode = 'insufficient_privilege',
+      message = 'Travelers can only record their own activity.';
+  end if;
+
+  -- First activity of a traveler who has never opened their Vault
+  insert into traveler_profiles (traveler_id, email) values (p_traveler_id, p_email)
+  on conflict (traveler_id) do nothing;
+
+  update traveler_profiles set
+    centuries_traversed = centuries_traversed + p_centuries,
+    paradoxes_caused = paradoxes_caused + p_paradoxes,
+    major_discoveries = major_discoveries + p_discoveries,
+    progress = case p_event ->> 'type'
+      when 'mentor' then case
+        when coalesce(progress -> 'mentorsVisited', '[]'::jsonb) ? mentor_id then progress
+        else jsonb_set(progress, '{mentorsVisited}', coalesce(progress -> 'mentorsVisited', '[]'::jsonb) || to_jsonb(mentor_id))
+      end
+      when 'location' then case
+        when coalesce(progress -> 'locationsExplored', '[]'::jsonb) ? place then progress
+        else jsonb_set(progress, '{locationsExplored}', coalesce(progress -> 'locationsExplored', '[]'::jsonb) || to_jsonb(place))
+      end
+      when 'simulation' then
+        jsonb_set(progress, '{simulationsRun}', to_jsonb(coalesce((progress ->> 'simulationsRun')::integer, 0) + 1))
+      else progress
+    end,
+    updated_at = now()
+  where traveler_id = p_traveler_id
+  returning * into result;
+
+  return result;
+end;
+$$;
+
+-- artifacts_found counts the rows actually stored, so an artifact inserted twice
+-- (ignored by the primary key) is never counted twice
+create or replace function count_traveler_artifact() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  update traveler_profiles
+  set artifacts_found = artifacts_found + 1, updated_at = now()
+  where traveler_id = new.traveler_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists traveler_artifacts_count on traveler_artifacts;
+create trigger traveler_artifacts_count
+after insert on traveler_artifacts
+for each row execute function count_traveler_artifact();
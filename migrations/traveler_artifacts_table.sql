@@ -0,0 +1,34 @@
+-- Migration to track artifact milestones and earned artifacts per traveler
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- Requires traveler_profiles_table.sql to have been run first
+
+-- Progress towards milestones (mentors visited, locations explored, simulations run)
+alter table traveler_profiles add column if not exists progress jsonb not null default '{}'::jsonb;
+
+-- Earned artifacts replace the old free-text inventory
+alter table traveler_profiles drop column if exists inventory;
+
+create table if not exists traveler_artifacts (
+  traveler_id text not null references traveler_profiles(traveler_id) on delete cascade,
+  artifact_id text not null,
+  earned_at timestamptz default now(),
+  primary key (traveler_id, artifact_id)
+);
+
+-- Enable RLS
+alter table traveler_artifacts enable row level security;
+
+-- Policies
+-- Each traveler sees and stores only their own artifacts; guests keep theirs in localStorage
+drop policy if exists "Enable read access for all users" on traveler_artifacts;
+drop policy if exists "Enable insert access for all users" on traveler_artifacts;
+drop policy if exists "Travelers read their own artifacts" on traveler_artifacts;
+drop policy if exists "Travelers store their own artifacts" on traveler_artifacts;
+
+create policy "Travelers read their own artifacts"
+on traveler_artifacts for select
+using (auth.uid() is not null and traveler_id = auth.uid()::text);
+
+create policy "Travelers store their own artifacts"
+on traveler_artifacts for insert
+with check (auth.uid() is not null and traveler_id = auth.uid()::text);
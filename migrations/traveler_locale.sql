@@ -0,0 +1,19 @@
+-- Migration adding a language choice per traveler and per printed edition
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+-- Requires traveler_profiles_table.sql and daily_editions_table.sql to have been run first
+
+-- Null until the traveler picks a language, so the one chosen at the door is saved instead of overridden
+alter table traveler_profiles
+  add column if not exists locale text check (locale in ('en', 'hi', 'de'));
+
+-- Earlier versions of this file filled in 'en' for everyone
+alter table traveler_profiles
+  alter column locale drop not null,
+  alter column locale drop default;
+
+-- Each language gets its own canonical paper for the day; existing editions are English
+alter table daily_editions
+  add column if not exists locale text not null default 'en' check (locale in ('en', 'hi', 'de'));
+
+alter table daily_editions drop constraint if exists daily_editions_pkey;
+alter table daily_editions add primary key (edition_date, mode, locale);
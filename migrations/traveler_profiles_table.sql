@@ -0,0 +1,40 @@
+-- Migration to create the traveler profiles table and policies
+-- Run this in your Supabase SQL Editor if MCP tools cannot access the self-hosted instance
+
+create table if not exists traveler_profiles (
+  traveler_id text primary key,
+  email text not null,
+  centuries_traversed integer not null default 0,
+  paradoxes_caused integer not null default 0,
+  artifacts_found integer not null default 0,
+  major_discoveries integer not null default 0,
+  inventory text[] not null default '{}',
+  join_date date not null default current_date,
+  updated_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table traveler_profiles enable row level security;
+
+-- Policies
+-- Profiles hold the traveler's email, so each traveler reads and changes only their own.
+-- Guests have no auth.uid(), so the app keeps their dossier in localStorage instead.
+drop policy if exists "Enable read access for all users" on traveler_profiles;
+drop policy if exists "Enable insert access for all users" on traveler_profiles;
+drop policy if exists "Enable update access for all users" on traveler_profiles;
+drop policy if exists "Travelers read their own profile" on traveler_profiles;
+drop policy if exists "Travelers create their own profile" on traveler_profiles;
+drop policy if exists "Travelers update their own profile" on traveler_profiles;
+
+create policy "Travelers read their own profile"
+on traveler_profiles for select
+using (auth.uid() is not null and traveler_id = auth.uid()::text);
+
+create policy "Travelers create their own profile"
+on traveler_profiles for insert
+with check (auth.uid() is not null and traveler_id = auth.uid()::text);
+
+create policy "Travelers update their own profile"
+on traveler_profiles for update
+using (auth.uid() is not null and traveler_id = auth.uid()::text)
+with check (auth.uid() is not null and traveler_id = auth.uid()::text);
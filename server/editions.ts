@@ -0,0 +1,120 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { generateDailyHeadline } from '../services/geminiService';
+import { DailyEdition, EditionMode, GenerationResult, Locale } from '../types';
+
+// Prints the day's canonical edition with the service key. Browsers can only read daily_editions;
+// writes are reserved for this server so nobody can file a fake front page first.
+// Generated images go to the public "edition-images" bucket and the row keeps only their URL.
+
+const IMAGE_BUCKET = 'edition-images';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let client: SupabaseClient | null = null;
+
+const getClient = (): SupabaseClient | null => {
+  const url = process.env.SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+  if (!client) client = createClient(url, serviceKey, { auth: { persistSession: false } });
+  return client;
+};
+
+export const canPrintEditions = (): boolean => !!getClient();
+
+// The reader's calendar day can be a day either side of the server's in other time zones
+export const isPrintableDate = (editionDate: string, now = Date.now()): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(editionDate)) return false;
+  const day = Date.parse(`${editionDate}T00:00:00Z`);
+  const today = Date.parse(`${new Date(now).toISOString().slice(0, 10)}T00:00:00Z`);
+  return !isNaN(day) && Math.abs(day - today) <= DAY_MS;
+};
+
+const mapEdition = (item: any): DailyEdition => ({
+  editionDate: item.edition_date,
+  mode: item.mode,
+  locale: item.locale,
+  headline: item.headline,
+  date: item.story_date,
+  content: item.content,
+  weather: item.weather,
+  imageUrl: item.image_url || undefined,
+});
+
+const fetchEdition = async (db: SupabaseClient, editionDate: string, mode: EditionMode, locale: Locale): Promise<DailyEdition | null> => {
+  const { data, error } = await db
+    .from('daily_editions')
+    .select('*')
+    .eq('edition_date', editionDate)
+    .eq('mode', mode)
+    .eq('locale', locale)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapEdition(data) : null;
+};
+
+// Generated images arrive as data URLs; a link (e.g. the fallback photo) is kept as it is.
+// Inline data is never written to the row, so an image that cannot be uploaded is left out.
+const storeImage = async (db: SupabaseClient, imageUrl: string | undefined, path: string): Promise<string | null> => {
+  if (!imageUrl) return null;
+  if (/^https?:\/\//.test(imageUrl)) return imageUrl;
+  const match = imageUrl.match(/^data:(image\/[\w+.-]+);base64,(.+)$/);
+  if (!match) return null;
+
+  const { error } = await db.storage
+    .from(IMAGE_BUCKET)
+    .upload(path, Buffer.from(match[2], 'base64'), { contentType: match[1], upsert: true });
+  if (error) {
+    console.warn("Failed to store edition image, printing without it", error);
+    return null;
+  }
+  return db.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+// Prints in progress, so readers arriving together wait for one generation instead of starting their own
+const inFlightPrints = new Map<string, Promise<GenerationResult<DailyEdition>>>();
+
+export const printEdition = (editionDate: string, mode: EditionMode, locale: Locale): Promise<GenerationResult<DailyEdition>> => {
+  const key = `${editionDate}|${mode}|${locale}`;
+  const pending = inFlightPrints.get(key);
+  if (pending) return pending;
+
+  const print = fetchOrPrint(editionDate, mode, locale).finally(() => inFlightPrints.delete(key));
+  inFlightPrints.set(key, print);
+  return print;
+};
+
+const fetchOrPrint = async (editionDate: string, mode: EditionMode, locale: Locale): Promise<GenerationResult<DailyEdition>> => {
+  const db = getClient();
+  if (!db) throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required to print editions");
+
+  const existing = await fetchEdition(db, editionDate, mode, locale);
+  if (existing) return { ok: true, value: existing };
+
+  const onThisDay = mode === 'onThisDay'
+    ? new Date(`${editionDate}T00:00:00Z`).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' })
+    : undefined;
+  const article = await generateDailyHeadline(onThisDay, locale);
+  if (!article.ok) return { ok: false, error: article.error };
+
+  const imageUrl = await storeImage(db, article.value.imageUrl, `${editionDate}/${mode}-${locale}.png`);
+  const { error } = await db
+    .from('daily_editions')
+    .insert([{
+      edition_date: editionDate,
+      mode,
+      locale,
+      headline: article.value.headline,
+      story_date: article.value.date,
+      content: article.value.content,
+      weather: article.value.weather,
+      image_url: imageUrl,
+    }]);
+
+  // Two readers asked at once; the row that landed first is the canonical one
+  if (error?.code === '23505') {
+    const printed = await fetchEdition(db, editionDate, mode, locale);
+    if (printed) return { ok: true, value: printed };
+  }
+  if (error) throw error;
+  return { ok: true, value: { ...article.value, imageUrl: imageUrl || undefined, editionDate, mode, locale } };
+};
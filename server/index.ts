@@ -0,0 +1,253 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import {
+  testApiKey,
+  generateImage,
+  generateDailyHeadline,
+  chatWithMentor,
+  generateLocationTrivia,
+  simulateAlternateHistory,
+} from '../services/geminiService';
+import { setProvider } from '../services/aiProvider';
+import { createMockProvider } from '../services/mockProvider';
+import { DEFAULT_LOCALE, LOCALES, isLocale } from '../services/i18nService';
+import { createRateLimiter } from './rateLimit';
+import { canPrintEditions, isPrintableDate, printEdition } from './editions';
+import { findMentor, isMaintainerToken } from './mentors';
+import { ChatMessage, EditionMode, Locale, Mentor } from '../types';
+
+// Small backend that keeps the Gemini API key on the server.
+// nginx proxies /api/* here; the client switches to it when built with GEMINI_PROXY_URL=/api.
+//
+// Environment:
+//   API_KEY                 Gemini API key (required unless MOCK_MODEL is set)
+//   PORT                    Port to listen on (default 8787)
+//   RATE_LIMIT_PER_MINUTE   Requests allowed per client IP per minute (default 30)
+//   MOCK_MODEL=1            Serve deterministic fixtures instead of calling Gemini
+//   GEMINI_TEXT_MODEL       Text model name (default gemini-2.5-flash)
+//   GEMINI_IMAGE_MODEL      Image model name (default gemini-2.5-flash-image)
+//   SUPABASE_URL            Supabase project the daily editions are printed to
+//   SUPABASE_SERVICE_ROLE_KEY  Service key for printing editions; without it /edition answers 503
+//   TRUSTED_PROXIES         Comma-separated addresses whose X-Real-IP header is believed
+//                           (default: loopback and private networks, where nginx runs)
+
+const PORT = Number(process.env.PORT || 8787);
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE || 30);
+const MOCK_MODEL = process.env.MOCK_MODEL === '1' || process.env.MOCK_MODEL === 'true';
+const MAX_BODY_BYTES = 64 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const requireString = (body: any, key: string, maxLength: number): string => {
+  const value = body?.[key];
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${key}" must be a non-empty string`);
+  if (value.length > maxLength) throw new HttpError(413, `"${key}" exceeds ${maxLength} characters`);
+  return value;
+};
+
+const optionalString = (body: any, key: string, maxLength: number): string | undefined =>
+  body?.[key] === undefined || body?.[key] === null ? undefined : requireString(body, key, maxLength);
+
+const requireObject = (body: any, key: string): any => {
+  const value = body?.[key];
+  if (typeof value !== 'object' || value === null) throw new HttpError(400, `"${key}" must be an object`);
+  return value;
+};
+
+// Generated content comes back in this language; older clients send none and get English
+const optionalLocale = (body: any): Locale => {
+  const value = body?.locale;
+  if (value === undefined || value === null) return DEFAULT_LOCALE;
+  if (!isLocale(value)) throw new HttpError(400, `"locale" must be one of ${LOCALES.map(l => l.id).join(', ')}`);
+  return value;
+};
+
+const MAX_HISTORY = 200;
+const MAX_MESSAGE_LENGTH = 4000;
+
+// Only the fields the model needs are kept; ids and timestamps from the client are ignored
+const requireHistory = (body: any): ChatMessage[] => {
+  const history = body?.history;
+  if (!Array.isArray(history) || history.length > MAX_HISTORY) throw new HttpError(400, `"history" must be an array of at most ${MAX_HISTORY} messages`);
+  return history.map((item: any, i: number) => {
+    if (item?.sender !== 'user' && item?.sender !== 'ai') throw new HttpError(400, `"history[${i}].sender" must be "user" or "ai"`);
+    if (typeof item.text !== 'string') throw new HttpError(400, `"history[${i}].text" must be a string`);
+    if (item.text.length > MAX_MESSAGE_LENGTH) throw new HttpError(413, `"history[${i}].text" exceeds ${MAX_MESSAGE_LENGTH} characters`);
+    return { id: String(i), sender: item.sender, text: item.text, timestamp: 0 };
+  });
+};
+
+const bearerToken = (req: IncomingMessage): string | null =>
+  req.headers.authorization?.match(/^Bearer (.+)$/)?.[1] || null;
+
+// Published mentors by id; an inline draft only with a maintainer's token (the Editor's preview)
+const requireMentor = async (body: any, req: IncomingMessage): Promise<Mentor> => {
+  if (body?.mentor === undefined) {
+    const mentor = await findMentor(requireString(body, 'mentorId', 100));
+    if (!mentor) throw new HttpError(404, 'Unknown mentor');
+    return mentor;
+  }
+
+  const token = bearerToken(req);
+  if (!token || !(await isMaintainerToken(token))) throw new HttpError(403, 'Only maintainers can preview unpublished mentors');
+  const draft = requireObject(body, 'mentor');
+  return {
+    id: requireString(draft, 'id', 100),
+    name: requireString(draft, 'name', 100),
+    role: requireString(draft, 'role', 100),
+    era: requireString(draft, 'era', 40),
+    systemPrompt: requireString(draft, 'systemPrompt', MAX_MESSAGE_LENGTH),
+    greeting: '',
+    bio: '',
+    avatar: '',
+    imageUrl: '',
+  };
+};
+
+const EDITION_MODES: EditionMode[] = ['chronicle', 'onThisDay'];
+
+const requireEditionRequest = (body: any): { editionDate: string; mode: EditionMode } => {
+  const editionDate = requireString(body, 'editionDate', 10);
+  if (!isPrintableDate(editionDate)) throw new HttpError(400, '"editionDate" must be today\'s date as YYYY-MM-DD');
+  const mode = body?.mode;
+  if (!EDITION_MODES.includes(mode)) throw new HttpError(400, `"mode" must be one of ${EDITION_MODES.join(', ')}`);
+  return { editionDate, mode };
+};
+
+// The shared generators run unchanged; mock mode only swaps the provider underneath them
+if (MOCK_MODEL) setProvider(createMockProvider());
+
+const backend = {
+  ping: async () => ({ ok: await testApiKey() }),
+  // Generators answer with a GenerationResult, so typed failures reach the client as-is
+  image: generateImage,
+  headline: generateDailyHeadline,
+  chat: chatWithMentor,
+  trivia: generateLocationTrivia,
+  simulate: simulateAlternateHistory,
+  edition: printEdition,
+};
+
+const routes: Record<string, (body: any, req: IncomingMessage) => Promise<unknown>> = {
+  ping: () => backend.ping(),
+  image: body => backend.image(requireString(body, 'prompt', 2000), optionalString(body, 'aspectRatio', 10) || '1:1'),
+  headline: body => backend.headline(optionalString(body, 'onThisDay', 40), optionalLocale(body)),
+  chat: async (body, req) => {
+    const history = requireHistory(body);
+    const newMessage = requireString(body, 'newMessage', MAX_MESSAGE_LENGTH);
+    const locale = optionalLocale(body);
+    return backend.chat(await requireMentor(body, req), history, newMessage, locale);
+  },
+  edition: body => {
+    if (!canPrintEditions()) throw new HttpError(503, 'Edition printing is not configured');
+    const { editionDate, mode } = requireEditionRequest(body);
+    return backend.edition(editionDate, mode, optionalLocale(body));
+  },
+  trivia: body => backend.trivia(requireString(body, 'location', 200), requireString(body, 'era', 20), optionalLocale(body)),
+  simulate: body => backend.simulate(
+    requireString(body, 'event', 500),
+    requireString(body, 'originalOutcome', 1000),
+    requireString(body, 'userChange', 2000),
+    optionalString(body, 'priorContext', 20000),
+    optionalLocale(body)
+  ),
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (!chunks.length) return resolve({});
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Malformed JSON body'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const TRUSTED_PROXIES = (process.env.TRUSTED_PROXIES || '').split(',').map(ip => ip.trim()).filter(Boolean);
+
+// Loopback and private ranges: nginx on the same host or on the Docker network
+const isPrivateAddress = (ip: string): boolean => {
+  const v4 = ip.replace(/^::ffff:/, '');
+  return ip === '::1'
+    || /^(127|10)\./.test(v4)
+    || /^192\.168\./.test(v4)
+    || /^172\.(1[6-9]|2\d|3[01])\./.test(v4)
+    || /^f[cd][0-9a-f]{2}:/i.test(ip);
+};
+
+const isTrustedProxy = (ip: string | undefined): boolean =>
+  !!ip && (TRUSTED_PROXIES.length ? TRUSTED_PROXIES.includes(ip) : isPrivateAddress(ip));
+
+// nginx forwards the original address in X-Real-IP; from anyone else the header could be forged
+// to dodge the rate limit, so it is only read when the connection comes from the proxy
+const getClientIp = (req: IncomingMessage): string => {
+  const peer = req.socket.remoteAddress;
+  const forwarded = req.headers['x-real-ip'];
+  if (isTrustedProxy(peer) && typeof forwarded === 'string' && forwarded) return forwarded;
+  return peer || 'unknown';
+};
+
+const checkRateLimit = createRateLimiter(RATE_LIMIT_PER_MINUTE);
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const endpoint = url.pathname.replace(/^\/api\//, '').replace(/\/$/, '');
+
+  if (req.method === 'GET' && endpoint === 'health') {
+    return sendJson(res, 200, { status: 'ok', mock: MOCK_MODEL });
+  }
+
+  const handler = routes[endpoint];
+  if (req.method !== 'POST' || !handler) {
+    return sendJson(res, 404, { error: 'Not found' });
+  }
+
+  const { allowed, retryAfterSeconds } = checkRateLimit(getClientIp(req));
+  if (!allowed) {
+    return sendJson(res, 429, { error: 'Too many requests' }, { 'Retry-After': String(retryAfterSeconds) });
+  }
+
+  try {
+    const body = await readJsonBody(req);
+    sendJson(res, 200, await handler(body, req));
+  } catch (e) {
+    if (e instanceof HttpError) return sendJson(res, e.status, { error: e.message });
+    console.error(`Proxy /${endpoint} failed`, e);
+    sendJson(res, 500, { error: 'Generation failed' });
+  }
+});
+
+if (process.env.GEMINI_PROXY_URL) {
+  // The shared generators would call back into this proxy instead of Gemini
+  console.error("GEMINI_PROXY_URL must not be set for the proxy server itself.");
+  process.exit(1);
+}
+if (!MOCK_MODEL && !process.env.API_KEY) {
+  console.error("API_KEY is required (or set MOCK_MODEL=1 for fixtures).");
+  process.exit(1);
+}
+
+server.listen(PORT, () => {
+  console.warn(`Timension proxy listening on :${PORT}${MOCK_MODEL ? ' (mock model)' : ''}`);
+});
@@ -0,0 +1,30 @@
+import { fetchMentors } from '../services/mentorService';
+import { supabase } from '../services/supabaseClient';
+import { Mentor } from '../types';
+
+// Chat personas are looked up here by id, so a client cannot send its own system prompt.
+// The only exception is a maintainer previewing an unpublished draft in the Editor.
+
+const MENTOR_CACHE_MS = 60_000;
+
+let cached: { mentors: Mentor[]; loadedAt: number } | null = null;
+
+// Bundled and published mentors, re-read from the registry at most once a minute
+export const findMentor = async (id: string): Promise<Mentor | null> => {
+  if (!cached || Date.now() - cached.loadedAt > MENTOR_CACHE_MS) {
+    cached = { mentors: await fetchMentors(), loadedAt: Date.now() };
+  }
+  return cached.mentors.find(m => m.id === id) || null;
+};
+
+// Same check as is_maintainer() in the migrations, made against the caller's Supabase access token
+export const isMaintainerToken = async (accessToken: string): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase.auth.getUser(accessToken);
+    if (error) throw error;
+    return data.user?.app_metadata?.role === 'maintainer';
+  } catch (e) {
+    console.warn("Could not verify access token", e);
+    return false;
+  }
+};
@@ -0,0 +1,40 @@
+// Fixed-window request counter per client IP
+
+interface Window {
+  count: number;
+  startedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export const createRateLimiter = (limit: number, windowMs: number = 60_000) => {
+  const windows = new Map<string, Window>();
+
+  // Forget idle clients so the map does not grow forever
+  const sweeper = setInterval(() => {
+    const now = Date.now();
+    for (const [ip, window] of windows) {
+      if (now - window.startedAt >= windowMs) windows.delete(ip);
+    }
+  }, windowMs);
+  sweeper.unref();
+
+  return (ip: string): RateLimitResult => {
+    const now = Date.now();
+    const current = windows.get(ip);
+
+    if (!current || now - current.startedAt >= windowMs) {
+      windows.set(ip, { count: 1, startedAt: now });
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    current.count += 1;
+    if (current.count > limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((current.startedAt + windowMs - now) / 1000) };
+    }
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+};
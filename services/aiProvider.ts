@@ -0,0 +1,100 @@
+// Provider-neutral interface for every kind of generation the app performs.
+// geminiService.ts builds prompts and parses results; the provider only talks to a model.
+
+import { GenerationErrorKind, SourceCitation } from '../types';
+
+export interface AIMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Plain JSON Schema subset used for structured output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+}
+
+// Token counts the model reported for one call
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export type UsageCallback = (usage: TokenUsage) => void;
+
+export interface TextRequest {
+  prompt: string | AIMessage[];
+  systemInstruction?: string;
+  signal?: AbortSignal;
+  // Names the kind of call (e.g. 'headline', 'chat') so the mock provider can pick a matching fixture
+  fixture?: string;
+  // Called with the model's token counts, when the provider reports them (see usageMeter.ts)
+  onUsage?: UsageCallback;
+}
+
+export interface JsonRequest extends TextRequest {
+  schema: JsonSchema;
+}
+
+export type GroundingTool = 'maps' | 'search';
+
+export type GroundingSource = SourceCitation;
+
+export interface GroundedResult {
+  text: string;
+  sources: GroundingSource[];
+}
+
+// Thrown by providers (and the proxy client) when the cause of a failure is known,
+// e.g. no API key or a reply blocked by safety filters. See aiResponse.ts for classification.
+// retryable: false stops withRetry from trying again even when the kind is usually transient
+export class AIProviderError extends Error {
+  constructor(public kind: GenerationErrorKind, message: string, public status?: number, public retryable = true) {
+    super(message);
+  }
+}
+
+export interface AIProvider {
+  name: string;
+  isAvailable(): boolean;
+  ping(): Promise<boolean>;
+  generateText(request: TextRequest): Promise<string>;
+  streamText(request: TextRequest): AsyncGenerator<string>;
+  // Returns the raw JSON text; callers parse and validate it
+  generateJson(request: JsonRequest): Promise<string>;
+  generateImage(prompt: string, aspectRatio: string, onUsage?: UsageCallback): Promise<string | null>;
+  generateGrounded(request: TextRequest, tool: GroundingTool): Promise<GroundedResult>;
+}
+
+// --- Model Configuration ---
+
+export interface ModelConfig {
+  text: string;
+  image: string;
+}
+
+const modelConfig: ModelConfig = {
+  text: process.env.GEMINI_TEXT_MODEL || 'gemini-2.5-flash',
+  image: process.env.GEMINI_IMAGE_MODEL || 'gemini-2.5-flash-image',
+};
+
+export const getModelConfig = (): ModelConfig => modelConfig;
+
+export const setModelConfig = (overrides: Partial<ModelConfig>) => {
+  Object.assign(modelConfig, overrides);
+};
+
+// --- Provider Registry ---
+
+let activeProvider: AIProvider | null = null;
+
+// Overrides the provider for the whole app (e.g. the proxy server switching to fixtures)
+export const setProvider = (provider: AIProvider | null) => {
+  activeProvider = provider;
+};
+
+export const getActiveProvider = (): AIProvider | null => activeProvider;
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseJsonReply, validateNewsArticle, withRetry } from './aiResponse';
+import { AIProviderError } from './aiProvider';
+
+const article = { headline: 'Airship Lands', date: 'June 1, 1925', content: 'Crowds gathered.', weather: 'Fair' };
+
+describe('validateNewsArticle', () => {
+  it('keeps a complete article, trimmed', () => {
+    expect(validateNewsArticle({ ...article, headline: '  Airship Lands \n' })).toEqual(article);
+  });
+
+  it('ignores fields it does not know', () => {
+    expect(validateNewsArticle({ ...article, imageUrl: 'x.png' })).toEqual(article);
+  });
+
+  it.each(['headline', 'date', 'content', 'weather'])('rejects a missing or blank %s', field => {
+    expect(() => validateNewsArticle({ ...article, [field]: undefined })).toThrow(field);
+    expect(() => validateNewsArticle({ ...article, [field]: '   ' })).toThrow(field);
+    expect(() => validateNewsArticle({ ...article, [field]: 42 })).toThrow(field);
+  });
+
+  it('rejects replies that are not objects as malformed', () => {
+    for (const raw of [null, 'Airship Lands', 42]) {
+      expect(() => validateNewsArticle(raw)).toThrow(expect.objectContaining({ kind: 'malformed' }));
+    }
+  });
+
+  it('accepts JSON wrapped in Markdown fences', () => {
+    expect(validateNewsArticle(parseJsonReply('```json\n' + JSON.stringify(article) + '\n```'))).toEqual(article);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // Settles the attempt loop, letting every backoff delay elapse
+  const run = async <T>(attempt: () => Promise<T>, signal?: AbortSignal) => {
+    const settled = withRetry(attempt, signal).then(value => ({ value }), error => ({ error }));
+    await vi.runAllTimersAsync();
+    return settled;
+  };
+
+  it('returns the first success without waiting', async () => {
+    const attempt = vi.fn().mockResolvedValue('ok');
+    expect(await run(attempt)).toEqual({ value: 'ok' });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient failures until one succeeds', async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(new AIProviderError('unavailable', 'down'))
+      .mockRejectedValueOnce(new AIProviderError('malformed', 'garbled'))
+      .mockResolvedValue('ok');
+    expect(await run(attempt)).toEqual({ value: 'ok' });
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('backs off before each retry', async () => {
+    const attempt = vi.fn().mockRejectedValueOnce(new AIProviderError('quota', 'slow down')).mockResolvedValue('ok');
+    const pending = withRetry(attempt);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(attempt).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(251);
+    expect(attempt).toHaveBeenCalledTimes(2);
+    await expect(pending).resolves.toBe('ok');
+  });
+
+  it('gives up after three attempts with the last error', async () => {
+    const last = new AIProviderError('unavailable', 'still down');
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(new AIProviderError('unavailable', 'down'))
+      .mockRejectedValueOnce(new AIProviderError('unavailable', 'down'))
+      .mockRejectedValueOnce(last);
+    expect(await run(attempt)).toEqual({ error: last });
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it.each([
+    ['a missing key', new AIProviderError('missing-key', 'no key')],
+    ['a spent budget', new AIProviderError('budget', 'spent')],
+    ['a safety block', new AIProviderError('safety', 'blocked')],
+    ['a proxy rate limit', new AIProviderError('quota', 'rate limited', 429, false)],
+  ])('does not retry %s', async (_, error) => {
+    const attempt = vi.fn().mockRejectedValue(error);
+    expect(await run(attempt)).toEqual({ error });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('sorts SDK errors by status before deciding', async () => {
+    const rateLimited = Object.assign(new Error('Too many requests'), { status: 429 });
+    const forbidden = Object.assign(new Error('Forbidden'), { status: 403 });
+    const retried = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValue('ok');
+    const refused = vi.fn().mockRejectedValue(forbidden);
+    expect(await run(retried)).toEqual({ value: 'ok' });
+    expect(await run(refused)).toEqual({ error: forbidden });
+    expect(refused).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops once the request is aborted', async () => {
+    const controller = new AbortController();
+    const error = new AIProviderError('unavailable', 'cut');
+    const attempt = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      throw error;
+    });
+    expect(await run(attempt, controller.signal)).toEqual({ error });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,98 @@
+import { AlternateHistoryResult, GenerationError, GenerationErrorKind, GenerationResult, NewsArticle } from '../types';
+import { AIProviderError } from './aiProvider';
+
+// Turns raw model replies into checked values, and failures into typed GenerationErrors.
+
+const GENERATION_ERROR_MESSAGES: Record<GenerationErrorKind, string> = {
+  'missing-key': "No working Telegraph Key. Add a valid Gemini API key in the settings to reach across time.",
+  quota: "The telegraph lines are saturated: the Gemini rate limit or quota was reached. Wait a minute and try again, or check your plan's quota.",
+  budget: "Today's telegraph budget is spent. Raise the limit in the Telegraph Ledger (in your Vault) or try again tomorrow.",
+  safety: "The censor's office stopped this dispatch for safety reasons. Try rephrasing your request.",
+  malformed: "The dispatch arrived garbled and could not be read. Try again.",
+  unavailable: "The time stream is unreachable. Check your connection and try again.",
+};
+
+export const generationError = (kind: GenerationErrorKind): GenerationError => ({
+  kind,
+  message: GENERATION_ERROR_MESSAGES[kind],
+});
+
+export const failure = <T>(kind: GenerationErrorKind): GenerationResult<T> => ({ ok: false, error: generationError(kind) });
+
+// Providers throw AIProviderError when they know the cause; SDK and fetch errors are sorted by HTTP status
+export const toGenerationError = (e: unknown): GenerationError => {
+  if (e instanceof AIProviderError) return generationError(e.kind);
+
+  const status = typeof e === 'object' && e !== null && 'status' in e && typeof e.status === 'number' ? e.status : undefined;
+  const message = e instanceof Error ? e.message : String(e);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return generationError('quota');
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID/i.test(message)) return generationError('missing-key');
+  return generationError('unavailable');
+};
+
+// Rate limits, outages and garbled output are worth another try; a missing key, a spent budget or a safety block is not
+const isRetryable = (error: GenerationError): boolean =>
+  error.kind === 'quota' || error.kind === 'unavailable' || error.kind === 'malformed';
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs attempt() up to MAX_ATTEMPTS times with exponential backoff (1s, 2s, plus jitter).
+// Rethrows the last error; aborted requests and errors marked not retryable are never retried.
+export const withRetry = async <T>(attempt: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let n = 1; ; n++) {
+    try {
+      return await attempt();
+    } catch (e) {
+      if (signal?.aborted || n >= MAX_ATTEMPTS || (e instanceof AIProviderError && !e.retryable) || !isRetryable(toGenerationError(e))) throw e;
+      console.warn(`Generation attempt ${n} failed, retrying`, e);
+      await sleep(BASE_DELAY_MS * 2 ** (n - 1) + Math.random() * 250);
+    }
+  }
+};
+
+// --- Validation ---
+
+const malformed = (detail: string) => new AIProviderError('malformed', detail);
+
+const requireText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw malformed(`"${field}" must be a non-empty string`);
+  return value.trim();
+};
+
+// Models sometimes wrap JSON in Markdown fences (```json ... ```) even when asked not to
+export const parseJsonReply = (text: string): unknown => {
+  const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  if (!cleaned) throw malformed("Empty reply");
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    throw malformed("Reply is not valid JSON");
+  }
+};
+
+export const validateNewsArticle = (raw: unknown): NewsArticle => {
+  if (typeof raw !== 'object' || raw === null) throw malformed("Article must be an object");
+  const item = raw as Record<string, unknown>;
+  return {
+    headline: requireText(item.headline, 'headline'),
+    date: requireText(item.date, 'date'),
+    content: requireText(item.content, 'content'),
+    weather: requireText(item.weather, 'weather'),
+  };
+};
+
+// The UI lays the timeline out as exactly three steps
+export const validateAlternateHistory = (raw: unknown): AlternateHistoryResult => {
+  if (typeof raw !== 'object' || raw === null) throw malformed("Simulation must be an object");
+  const item = raw as Record<string, unknown>;
+  if (!Array.isArray(item.timelineSteps) || item.timelineSteps.length < 3) {
+    throw malformed('"timelineSteps" must list three steps');
+  }
+  return {
+    timelineSteps: item.timelineSteps.slice(0, 3).map((step, i) => requireText(step, `timelineSteps[${i}]`)),
+    finalHeadline: requireText(item.finalHeadline, 'finalHeadline'),
+  };
+};
@@ -0,0 +1,69 @@
+import { Artifact, ArtifactRule, EarnedArtifact, Locale, TravelerCounter, TravelerProfile } from '../types';
+import { fetchMentors } from './mentorService';
+import { DEFAULT_LOCALE, translate, TranslationKey } from './i18nService';
+import artifactCatalog from '../data/artifacts.json';
+
+export const getArtifactCatalog = (): Artifact[] => artifactCatalog as Artifact[];
+
+// Resolves stored artifact ids back into full catalog entries, skipping any that were retired
+export const resolveArtifacts = (earned: { artifactId: string; earnedAt: number }[]): EarnedArtifact[] => {
+    const catalog = getArtifactCatalog();
+    return earned.flatMap(({ artifactId, earnedAt }) => {
+        const artifact = catalog.find(a => a.id === artifactId);
+        return artifact ? [{ ...artifact, earnedAt }] : [];
+    });
+};
+
+const isRuleMet = (rule: ArtifactRule, profile: TravelerProfile, allMentorIds: string[]): boolean => {
+    const { progress, stats } = profile;
+    switch (rule.type) {
+        case 'mentorsVisited':
+            return progress.mentorsVisited.length >= rule.min;
+        case 'mentorVisited':
+            return progress.mentorsVisited.includes(rule.mentorId);
+        case 'allMentors':
+            return allMentorIds.length > 0 && allMentorIds.every(id => progress.mentorsVisited.includes(id));
+        case 'locationsExplored':
+            return progress.locationsExplored.length >= rule.min;
+        case 'simulationsRun':
+            return progress.simulationsRun >= rule.min;
+        case 'stat':
+            return stats[rule.counter] >= rule.min;
+    }
+};
+
+// Returns the catalog artifacts the traveler has just qualified for but does not yet own
+export const evaluateArtifactRules = async (profile: TravelerProfile): Promise<Artifact[]> => {
+    const owned = new Set(profile.inventory.map(a => a.id));
+    const pending = getArtifactCatalog().filter(a => !owned.has(a.id));
+    if (pending.length === 0) return [];
+
+    const needsMentors = pending.some(a => a.rule.type === 'allMentors');
+    const allMentorIds = needsMentors ? (await fetchMentors()).map(m => m.id) : [];
+
+    return pending.filter(a => isRuleMet(a.rule, profile, allMentorIds));
+};
+
+const COUNTER_LABELS: Record<TravelerCounter, TranslationKey> = {
+    centuriesTraversed: 'stats.centuriesTraversed',
+    paradoxesCaused: 'stats.paradoxesCaused',
+    artifactsFound: 'stats.artifactsFound',
+    majorDiscoveries: 'stats.majorDiscoveries'
+};
+
+export const describeArtifactRule = (rule: ArtifactRule, locale: Locale = DEFAULT_LOCALE): string => {
+    switch (rule.type) {
+        case 'mentorsVisited':
+            return translate(locale, rule.min === 1 ? 'artifact.rule.mentorsVisitedOne' : 'artifact.rule.mentorsVisited', { min: rule.min });
+        case 'mentorVisited':
+            return translate(locale, 'artifact.rule.mentorVisited');
+        case 'allMentors':
+            return translate(locale, 'artifact.rule.allMentors');
+        case 'locationsExplored':
+            return translate(locale, rule.min === 1 ? 'artifact.rule.locationsExploredOne' : 'artifact.rule.locationsExplored', { min: rule.min });
+        case 'simulationsRun':
+            return translate(locale, rule.min === 1 ? 'artifact.rule.simulationsRunOne' : 'artifact.rule.simulationsRun', { min: rule.min });
+        case 'stat':
+            return translate(locale, 'artifact.rule.stat', { min: rule.min, counter: translate(locale, COUNTER_LABELS[rule.counter]) });
+    }
+};
@@ -0,0 +1,135 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase, isAuthConfigured } from './supabaseClient';
+import { TravelerRole, TravelerSession } from '../types';
+
+// Guest sessions live only in this browser. They are always on offer, and the only way in when Supabase auth
+// is not configured; a signed-in Supabase session takes precedence over a stored guest one.
+const GUEST_SESSION_KEY = 'timension_guest_session';
+
+const TRAVELER_ROLES: TravelerRole[] = ['traveler', 'moderator', 'maintainer'];
+
+// app_metadata can only be written with the service key, so the role claim cannot be self-assigned
+const readRole = (session: Session): TravelerRole => {
+    const role = session.user.app_metadata?.role;
+    return TRAVELER_ROLES.includes(role) ? role : 'traveler';
+};
+
+const toTravelerSession = (session: Session | null): TravelerSession | null => {
+    if (!session?.user) return null;
+    return {
+        userId: session.user.id,
+        email: session.user.email || 'Time Traveler',
+        isGuest: false,
+        role: readRole(session)
+    };
+};
+
+const readGuestSession = (): TravelerSession | null => {
+    try {
+        const stored = localStorage.getItem(GUEST_SESSION_KEY);
+        return stored ? { ...JSON.parse(stored), role: 'traveler' } : null;
+    } catch {
+        return null;
+    }
+};
+
+export const restoreSession = async (): Promise<TravelerSession | null> => {
+    if (!isAuthConfigured()) return readGuestSession();
+
+    try {
+        const { data, error } = await supabase.auth.getSession();
+        if (error) throw error;
+        return toTravelerSession(data.session) || readGuestSession();
+    } catch (e) {
+        console.warn("Failed to restore Supabase session", e);
+        return readGuestSession();
+    }
+};
+
+// The signed-in traveler's Supabase access token, e.g. for proving a role to the API proxy
+export const getAccessToken = async (): Promise<string | null> => {
+    if (!isAuthConfigured()) return null;
+    try {
+        const { data, error } = await supabase.auth.getSession();
+        if (error) throw error;
+        return data.session?.access_token || null;
+    } catch (e) {
+        console.warn("Failed to read Supabase access token", e);
+        return null;
+    }
+};
+
+// Subscribes to sign-in/sign-out events (including magic links opened in this tab). Returns an unsubscribe function.
+export const onAuthChange = (callback: (session: TravelerSession | null) => void): (() => void) => {
+    if (!isAuthConfigured()) return () => {};
+
+    // No Supabase session (e.g. the initial event) leaves a guest where they are
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+        callback(toTravelerSession(session) || readGuestSession());
+    });
+    return () => data.subscription.unsubscribe();
+};
+
+// Emails both a magic link and a one-time code; either one completes the sign-in
+export const sendLoginCode = async (email: string): Promise<boolean> => {
+    try {
+        const { error } = await supabase.auth.signInWithOtp({
+            email,
+            options: { emailRedirectTo: window.location.origin }
+        });
+
+        if (error) throw error;
+        return true;
+    } catch (e) {
+        console.error("Failed to send login code", e);
+        return false;
+    }
+};
+
+export const verifyLoginCode = async (email: string, code: string): Promise<TravelerSession | null> => {
+    try {
+        const { data, error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' });
+
+        if (error) throw error;
+        localStorage.removeItem(GUEST_SESSION_KEY);
+        return toTravelerSession(data.session);
+    } catch (e) {
+        console.error("Failed to verify login code", e);
+        return null;
+    }
+};
+
+export const startGuestSession = (name: string): TravelerSession => {
+    const session: TravelerSession = {
+        userId: `guest-${Date.now().toString(36)}`,
+        email: name.trim() || 'Guest Traveler',
+        isGuest: true,
+        role: 'traveler'
+    };
+    try {
+        localStorage.setItem(GUEST_SESSION_KEY, JSON.stringify(session));
+    } catch (e) {
+        console.warn("Failed to persist guest session", e);
+    }
+    return session;
+};
+
+export const signOut = async (): Promise<void> => {
+    localStorage.removeItem(GUEST_SESSION_KEY);
+    if (!isAuthConfigured()) return;
+
+    try {
+        const { error } = await supabase.auth.signOut();
+        if (error) throw error;
+    } catch (e) {
+        console.error("Failed to sign out", e);
+    }
+};
+
+// Matches is_moderator() in migrations/suggestion_moderation.sql
+export const canModerate = (session: TravelerSession): boolean =>
+    session.role === 'moderator' || session.role === 'maintainer';
+
+// Matches is_maintainer() in migrations/mentors_table.sql, which guards the mentor registry
+export const canEditMentors = (session: TravelerSession): boolean =>
+    session.role === 'maintainer';
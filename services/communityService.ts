@@ -1,43 +1,311 @@
-
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from './supabaseClient';
-import { Suggestion } from '../types';
+import { Locale, ModerationState, ReportReason, Suggestion, SuggestionCategory, SuggestionPage, SuggestionSort, SuggestionStatus } from '../types';
+import { DEFAULT_LOCALE, translate } from './i18nService';
+import { translateServerProblem } from './moderationService';
+
+export const SUGGESTIONS_PAGE_SIZE = 50;
+
+export interface SuggestionQuery {
+    sort: SuggestionSort;
+    category: SuggestionCategory | 'all';
+    page: number; // zero-based
+}
+
+const mapSuggestion = (item: any, votedIds: Set<string>): Suggestion => ({
+    id: String(item.id),
+    text: item.content, // Assuming column name is 'content'
+    timestamp: new Date(item.created_at).getTime(),
+    category: item.category || 'feature',
+    status: item.status || 'open',
+    votes: item.vote_count || 0,
+    hasVoted: votedIds.has(String(item.id)),
+    moderation: item.moderation || 'visible',
+    reportCount: item.report_count || 0,
+    parentId: item.parent_id ? String(item.parent_id) : undefined,
+    replyCount: item.reply_count || 0,
+    official: !!item.official,
+    clientId: item.client_id || undefined
+});
+
+// Which of these suggestions the traveler has already upvoted
+const fetchVotedIds = async (travelerId: string, suggestionIds: string[]): Promise<Set<string>> => {
+    if (!suggestionIds.length) return new Set();
+    const { data, error } = await supabase
+        .from('suggestion_votes')
+        .select('suggestion_id')
+        .eq('traveler_id', travelerId)
+        .in('suggestion_id', suggestionIds);
+
+    if (error) throw error;
+    return new Set(data.map((row: any) => String(row.suggestion_id)));
+};
 
-export const fetchSuggestions = async (): Promise<Suggestion[]> => {
+export const fetchSuggestions = async (query: SuggestionQuery, travelerId: string): Promise<SuggestionPage> => {
     try {
-        const { data, error } = await supabase
-            .from('suggestions')
-            .select('*')
+        const from = query.page * SUGGESTIONS_PAGE_SIZE;
+        // Moderators can read held posts too; they belong in the queue, not on the board
+        let request = supabase.from('suggestions').select('*').eq('moderation', 'visible').is('parent_id', null);
+        if (query.category !== 'all') request = request.eq('category', query.category);
+        if (query.sort === 'top') request = request.order('vote_count', { ascending: false });
+
+        // One extra row tells us whether another page exists
+        const { data, error } = await request
             .order('created_at', { ascending: false })
-            .limit(50);
+            .range(from, from + SUGGESTIONS_PAGE_SIZE);
 
         if (error) throw error;
 
-        return data.map((item: any) => ({
-            id: item.id,
-            text: item.content, // Assuming column name is 'content'
-            timestamp: new Date(item.created_at).getTime()
-        }));
+        const rows = data.slice(0, SUGGESTIONS_PAGE_SIZE);
+        const votedIds = await fetchVotedIds(travelerId, rows.map((item: any) => String(item.id)));
+        return {
+            suggestions: rows.map((item: any) => mapSuggestion(item, votedIds)),
+            hasMore: data.length > SUGGESTIONS_PAGE_SIZE
+        };
     } catch (e) {
         console.warn("Failed to fetch suggestions from Supabase, returning mock data", e);
         // Fallback/Mock data for demonstration if DB is missing
-        return [
-            { id: '1', text: 'More events for the 19th century please!', timestamp: Date.now() - 100000 },
-            { id: '2', text: 'The Einstein chat is amazing.', timestamp: Date.now() - 500000 },
-            { id: '3', text: 'Fix the mobile layout overlap.', timestamp: Date.now() - 1000000 },
+        const mock: Suggestion[] = [
+            { id: '1', text: 'More events for the 19th century please!', timestamp: Date.now() - 100000, category: 'content', status: 'planned', votes: 12, hasVoted: false, moderation: 'visible', reportCount: 0, replyCount: 0, official: false },
+            { id: '2', text: 'The Einstein chat is amazing.', timestamp: Date.now() - 500000, category: 'feature', status: 'open', votes: 4, hasVoted: false, moderation: 'visible', reportCount: 0, replyCount: 0, official: false },
+            { id: '3', text: 'Fix the mobile layout overlap.', timestamp: Date.now() - 1000000, category: 'bug', status: 'done', votes: 7, hasVoted: false, moderation: 'visible', reportCount: 0, replyCount: 0, official: false },
         ];
+        const filtered = mock.filter(s => query.category === 'all' || s.category === query.category);
+        return {
+            suggestions: query.sort === 'top' ? filtered.sort((a, b) => b.votes - a.votes) : filtered,
+            hasMore: false
+        };
     }
 };
 
-export const submitSuggestion = async (text: string): Promise<boolean> => {
+export interface SuggestionSubmission {
+    suggestion: Suggestion | null;
+    // Why the board refused the post, when it did, in the traveler's language
+    problems: string[];
+}
+
+const insertSuggestion = async (row: Record<string, unknown>, locale: Locale): Promise<SuggestionSubmission> => {
     try {
-        const { error } = await supabase
+        const { data, error } = await supabase
             .from('suggestions')
-            .insert([{ content: text }]);
+            .insert([row])
+            .select('*')
+            .single();
 
+        // Moderation trigger rejections carry a message meant for the traveler
+        if (error?.hint === 'moderation') return { suggestion: null, problems: [translateServerProblem(error.message, locale)] };
         if (error) throw error;
-        return true;
+        return { suggestion: mapSuggestion(data, new Set()), problems: [] };
     } catch (e) {
         console.error("Failed to submit suggestion", e);
+        return { suggestion: null, problems: [translate(locale, 'community.transmissionFailed')] };
+    }
+};
+
+// `clientId` is echoed back over realtime so the board can replace its optimistic copy.
+// Posts stay anonymous; the server rate-limits them by account, or by address for guests.
+export const submitSuggestion = (text: string, category: SuggestionCategory, clientId: string, locale: Locale = DEFAULT_LOCALE): Promise<SuggestionSubmission> =>
+    insertSuggestion({ content: text.trim(), category, client_id: clientId }, locale);
+
+// Replies stay anonymous too; the database marks those written by maintainers as official
+export const submitReply = (parentId: string, text: string, clientId: string, locale: Locale = DEFAULT_LOCALE): Promise<SuggestionSubmission> =>
+    insertSuggestion({ content: text.trim(), parent_id: parentId, client_id: clientId }, locale);
+
+// Published replies to a suggestion, oldest first
+export const fetchThread = async (suggestionId: string): Promise<Suggestion[]> => {
+    try {
+        const { data, error } = await supabase
+            .from('suggestions')
+            .select('*')
+            .eq('parent_id', suggestionId)
+            .eq('moderation', 'visible')
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data.map((item: any) => mapSuggestion(item, new Set()));
+    } catch (e) {
+        console.error("Failed to fetch replies", e);
+        return [];
+    }
+};
+
+// Adds or withdraws the traveler's single vote; the table's primary key rejects duplicates
+export const setSuggestionVote = async (suggestionId: string, travelerId: string, voted: boolean): Promise<boolean> => {
+    try {
+        const { error } = voted
+            ? await supabase.from('suggestion_votes').insert([{ suggestion_id: suggestionId, traveler_id: travelerId }])
+            : await supabase.from('suggestion_votes').delete().eq('suggestion_id', suggestionId).eq('traveler_id', travelerId);
+
+        // Already voted (e.g. from another tab) counts as success
+        if (error && error.code !== '23505') throw error;
+        return true;
+    } catch (e) {
+        console.error("Failed to record vote", e);
+        return false;
+    }
+};
+
+// Maintainers only; RLS rejects everyone else
+export const setSuggestionStatus = async (suggestionId: string, status: SuggestionStatus): Promise<boolean> => {
+    try {
+        const { data, error } = await supabase
+            .from('suggestions')
+            .update({ status })
+            .eq('id', suggestionId)
+            .select('id');
+
+        if (error) throw error;
+        // RLS filters the update silently, so no returned row means it was refused
+        return data.length > 0;
+    } catch (e) {
+        console.error("Failed to update suggestion status", e);
         return false;
     }
 };
+
+// --- Moderation ---
+
+// Each signed-in traveler can report a post once; enough reports take it off the board for review
+export const reportSuggestion = async (suggestionId: string, travelerId: string, reason: ReportReason): Promise<boolean> => {
+    try {
+        const { error } = await supabase
+            .from('suggestion_reports')
+            .insert([{ suggestion_id: suggestionId, reporter_id: travelerId, reason }]);
+
+        // Already reported counts as success
+        if (error && error.code !== '23505') throw error;
+        return true;
+    } catch (e) {
+        console.error("Failed to report suggestion", e);
+        return false;
+    }
+};
+
+export interface ModerationQueueItem {
+    suggestion: Suggestion;
+    reasons: ReportReason[];
+}
+
+// Moderators only; RLS returns nothing for everyone else
+export const fetchModerationQueue = async (state: Exclude<ModerationState, 'visible'>): Promise<ModerationQueueItem[]> => {
+    try {
+        const { data, error } = await supabase
+            .from('suggestions')
+            .select('*, suggestion_reports(reason)')
+            .eq('moderation', state)
+            .order('report_count', { ascending: false })
+            .order('created_at', { ascending: false })
+            .limit(SUGGESTIONS_PAGE_SIZE);
+
+        if (error) throw error;
+        return data.map((item: any) => ({
+            suggestion: mapSuggestion(item, new Set()),
+            reasons: (item.suggestion_reports || []).map((report: any) => report.reason)
+        }));
+    } catch (e) {
+        console.error("Failed to fetch moderation queue", e);
+        return [];
+    }
+};
+
+// Approving republishes the post and clears its report count; removing hides it for good
+export const reviewSuggestion = async (suggestionId: string, decision: 'approve' | 'remove'): Promise<boolean> => {
+    try {
+        const { data, error } = await supabase
+            .from('suggestions')
+            .update(decision === 'approve' ? { moderation: 'visible', report_count: 0 } : { moderation: 'hidden' })
+            .eq('id', suggestionId)
+            .select('id');
+
+        if (error) throw error;
+        // RLS filters the update silently, so no returned row means it was refused
+        return data.length > 0;
+    } catch (e) {
+        console.error("Failed to review suggestion", e);
+        return false;
+    }
+};
+
+// --- Realtime ---
+
+export type BoardConnection = 'connecting' | 'live' | 'reconnecting';
+
+export interface SuggestionFeedHandlers {
+    onInsert: (suggestion: Suggestion) => void;
+    // Row changes (vote counts, status); hasVoted is unknown here and should be kept from the local copy
+    onUpdate: (suggestion: Suggestion) => void;
+    onConnectionChange: (state: BoardConnection) => void;
+    // Events sent while the connection was down are lost, so the board should refetch
+    onResync: () => void;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Streams suggestion inserts and updates, reconnecting with backoff when the channel drops.
+// Returns a function that closes the subscription.
+export const subscribeToSuggestions = (handlers: SuggestionFeedHandlers): (() => void) => {
+    let channel: RealtimeChannel | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let hasConnected = false;
+    let closed = false;
+
+    const scheduleReconnect = () => {
+        if (closed || retryTimer) return;
+        handlers.onConnectionChange('reconnecting');
+        if (channel) {
+            const stale = channel;
+            channel = null;
+            supabase.removeChannel(stale);
+        }
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempt++);
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            connect();
+        }, delay);
+    };
+
+    const connect = () => {
+        handlers.onConnectionChange(hasConnected ? 'reconnecting' : 'connecting');
+        const current: RealtimeChannel = supabase
+            .channel(`suggestions-board-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+            .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'suggestions' },
+                payload => handlers.onInsert(mapSuggestion(payload.new, new Set())))
+            .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'suggestions' },
+                payload => handlers.onUpdate(mapSuggestion(payload.new, new Set())))
+            .subscribe(status => {
+                // Ignore late callbacks from channels we already tore down
+                if (closed || current !== channel) return;
+                if (status === 'SUBSCRIBED') {
+                    if (hasConnected) handlers.onResync();
+                    hasConnected = true;
+                    attempt = 0;
+                    handlers.onConnectionChange('live');
+                } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+                    scheduleReconnect();
+                }
+            });
+        channel = current;
+    };
+
+    connect();
+
+    return () => {
+        closed = true;
+        if (retryTimer) clearTimeout(retryTimer);
+        if (channel) supabase.removeChannel(channel);
+        channel = null;
+    };
+};
+
+// Folds a server row into the board. It replaces the row with the same id, or the optimistic
+// copy with the same clientId (so our own posts are not shown twice); otherwise it is new.
+// The traveler's own hasVoted is kept, since realtime rows do not carry it.
+export const mergeSuggestion = (list: Suggestion[], incoming: Suggestion): { suggestions: Suggestion[]; isNew: boolean } => {
+    const index = list.findIndex(s => s.id === incoming.id || (!!incoming.clientId && s.clientId === incoming.clientId));
+    if (index === -1) return { suggestions: [incoming, ...list], isNew: true };
+
+    const suggestions = [...list];
+    suggestions[index] = { ...incoming, hasVoted: list[index].hasVoted };
+    return { suggestions, isNew: false };
+};
@@ -0,0 +1,165 @@
+import { supabase } from './supabaseClient';
+import { ChatMessage, MentorConversation } from '../types';
+
+// --- Local Fallback (used when the database is unreachable) ---
+
+const LOCAL_STORAGE_KEY = 'timension_mentor_conversations';
+const LOCAL_ID_PREFIX = 'local-';
+
+interface LocalConversation extends MentorConversation {
+    messages: ChatMessage[];
+}
+
+const readLocal = (): LocalConversation[] => {
+    try {
+        return JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const writeLocal = (conversations: LocalConversation[]) => {
+    try {
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(conversations));
+    } catch (e) {
+        console.warn("Failed to write conversations to localStorage", e);
+    }
+};
+
+const isLocalId = (conversationId: string) => conversationId.startsWith(LOCAL_ID_PREFIX);
+
+const stripMessages = ({ messages, ...conversation }: LocalConversation): MentorConversation => conversation;
+
+const mapConversation = (item: any): MentorConversation => ({
+    id: item.id,
+    travelerId: item.traveler_id,
+    mentorId: item.mentor_id,
+    title: item.title,
+    createdAt: new Date(item.created_at).getTime(),
+    updatedAt: new Date(item.updated_at).getTime()
+});
+
+// --- Public API ---
+
+export const listConversations = async (travelerId: string, mentorId: string): Promise<MentorConversation[]> => {
+    const local = readLocal()
+        .filter(c => c.travelerId === travelerId && c.mentorId === mentorId)
+        .map(stripMessages);
+
+    try {
+        const { data, error } = await supabase
+            .from('mentor_conversations')
+            .select('*')
+            .eq('traveler_id', travelerId)
+            .eq('mentor_id', mentorId)
+            .order('updated_at', { ascending: false })
+            .limit(50);
+
+        if (error) throw error;
+
+        return [...data.map(mapConversation), ...local].sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (e) {
+        console.warn("Failed to fetch conversations from Supabase, using local archive", e);
+        return local.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+};
+
+export const createConversation = async (travelerId: string, mentorId: string, title: string): Promise<MentorConversation> => {
+    try {
+        const { data, error } = await supabase
+            .from('mentor_conversations')
+            .insert([{ traveler_id: travelerId, mentor_id: mentorId, title }])
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapConversation(data);
+    } catch (e) {
+        console.warn("Failed to create conversation in Supabase, storing locally", e);
+        const now = Date.now();
+        const conversation: LocalConversation = {
+            id: `${LOCAL_ID_PREFIX}${now}`,
+            travelerId,
+            mentorId,
+            title,
+            createdAt: now,
+            updatedAt: now,
+            messages: []
+        };
+        writeLocal([...readLocal(), conversation]);
+        return stripMessages(conversation);
+    }
+};
+
+export const loadConversation = async (conversationId: string): Promise<ChatMessage[]> => {
+    if (isLocalId(conversationId)) {
+        return readLocal().find(c => c.id === conversationId)?.messages || [];
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('mentor_messages')
+            .select('*')
+            .eq('conversation_id', conversationId)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        return data.map((item: any) => ({
+            id: String(item.id),
+            sender: item.sender,
+            text: item.content,
+            timestamp: new Date(item.created_at).getTime()
+        }));
+    } catch (e) {
+        console.error("Failed to load conversation", e);
+        return [];
+    }
+};
+
+export const appendMessage = async (conversationId: string, message: ChatMessage): Promise<boolean> => {
+    if (isLocalId(conversationId)) {
+        writeLocal(readLocal().map(c => c.id === conversationId
+            ? { ...c, updatedAt: message.timestamp, messages: [...c.messages, message] }
+            : c));
+        return true;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('mentor_messages')
+            .insert([{ conversation_id: conversationId, sender: message.sender, content: message.text }]);
+
+        if (error) throw error;
+
+        await supabase
+            .from('mentor_conversations')
+            .update({ updated_at: new Date(message.timestamp).toISOString() })
+            .eq('id', conversationId);
+
+        return true;
+    } catch (e) {
+        console.error("Failed to append message", e);
+        return false;
+    }
+};
+
+export const deleteConversation = async (conversationId: string): Promise<boolean> => {
+    if (isLocalId(conversationId)) {
+        writeLocal(readLocal().filter(c => c.id !== conversationId));
+        return true;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('mentor_conversations')
+            .delete()
+            .eq('id', conversationId);
+
+        if (error) throw error;
+        return true;
+    } catch (e) {
+        console.error("Failed to delete conversation", e);
+        return false;
+    }
+};
@@ -0,0 +1,123 @@
+import { supabase } from './supabaseClient';
+import { DailyEdition, EditionMode, GenerationResult, Locale } from '../types';
+import { generateDailyHeadline, requestDailyEdition } from './geminiService';
+import { DEFAULT_LOCALE } from './i18nService';
+
+// --- Local Fallback (used when the database is unreachable) ---
+
+const LOCAL_STORAGE_KEY = 'timension_daily_editions';
+
+// Editions filed before there were languages have no locale part and are English
+const localKey = (editionDate: string, mode: EditionMode, locale: Locale) =>
+    locale === DEFAULT_LOCALE ? `${editionDate}|${mode}` : `${editionDate}|${mode}|${locale}`;
+
+const readLocal = (): Record<string, DailyEdition> => {
+    try {
+        return JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const writeLocal = (edition: DailyEdition) => {
+    try {
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify({ ...readLocal(), [localKey(edition.editionDate, edition.mode, edition.locale)]: edition }));
+    } catch (e) {
+        // Inline images can exceed the storage quota; keep the text edition at least
+        try {
+            localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify({ ...readLocal(), [localKey(edition.editionDate, edition.mode, edition.locale)]: { ...edition, imageUrl: undefined } }));
+        } catch {
+            console.warn("Failed to write edition to localStorage", e);
+        }
+    }
+};
+
+// --- Dates ---
+
+// Calendar day in the traveler's own time zone, as YYYY-MM-DD
+export const toEditionDate = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseEditionDate = (editionDate: string): Date => new Date(`${editionDate}T00:00:00`);
+
+// e.g. "October 19", the phrase used to ask for events on this day in history
+export const formatMonthDay = (editionDate: string): string =>
+    parseEditionDate(editionDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+
+// --- Mapping ---
+
+const mapEdition = (item: any): DailyEdition => ({
+    editionDate: item.edition_date,
+    mode: item.mode,
+    locale: item.locale || DEFAULT_LOCALE,
+    headline: item.headline,
+    date: item.story_date,
+    content: item.content,
+    weather: item.weather,
+    imageUrl: item.image_url || undefined
+});
+
+// --- Public API ---
+
+export const fetchEdition = async (editionDate: string, mode: EditionMode, locale: Locale = DEFAULT_LOCALE): Promise<DailyEdition | null> => {
+    try {
+        const { data, error } = await supabase
+            .from('daily_editions')
+            .select('*')
+            .eq('edition_date', editionDate)
+            .eq('mode', mode)
+            .eq('locale', locale)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data ? mapEdition(data) : null;
+    } catch (e) {
+        console.warn("Failed to fetch edition from Supabase, checking local archive", e);
+        const local = readLocal()[localKey(editionDate, mode, locale)];
+        return local ? { ...local, locale } : null;
+    }
+};
+
+// Returns today's canonical edition in the given language. If nobody reading in that language has
+// opened the paper yet today, the proxy prints it for everyone; only the server may write editions.
+// Without a proxy that can print, the traveler gets a copy generated here and filed locally.
+export const getTodaysEdition = async (mode: EditionMode, locale: Locale = DEFAULT_LOCALE): Promise<GenerationResult<DailyEdition>> => {
+    const editionDate = toEditionDate(new Date());
+    const existing = await fetchEdition(editionDate, mode, locale);
+    if (existing) return { ok: true, value: existing };
+
+    const printed = await requestDailyEdition(editionDate, mode, locale);
+    if (printed) return printed;
+
+    const article = await generateDailyHeadline(mode === 'onThisDay' ? formatMonthDay(editionDate) : undefined, locale);
+    if (!article.ok) return { ok: false, error: article.error };
+    const edition: DailyEdition = { ...article.value, editionDate, mode, locale };
+    writeLocal(edition);
+    return { ok: true, value: edition };
+};
+
+// Lists every edition printed in one language within a month (YYYY-MM), newest first, for the archive calendar
+export const listEditions = async (month: string, locale: Locale = DEFAULT_LOCALE): Promise<DailyEdition[]> => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const first = `${month}-01`;
+    const last = toEditionDate(new Date(year, monthIndex, 0));
+
+    try {
+        const { data, error } = await supabase
+            .from('daily_editions')
+            .select('edition_date, mode, locale, headline, story_date, content, weather')
+            .eq('locale', locale)
+            .gte('edition_date', first)
+            .lte('edition_date', last)
+            .order('edition_date', { ascending: false });
+
+        if (error) throw error;
+        return data.map(mapEdition);
+    } catch (e) {
+        console.warn("Failed to list editions from Supabase, using local archive", e);
+        return Object.values(readLocal())
+            .map(edition => ({ ...edition, locale: edition.locale || DEFAULT_LOCALE }))
+            .filter(edition => edition.locale === locale && edition.editionDate >= first && edition.editionDate <= last)
+            .sort((a, b) => b.editionDate.localeCompare(a.editionDate));
+    }
+};
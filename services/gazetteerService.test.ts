@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { buildMapPins, geocode, projectToMap } from './gazetteerService';
+import { ChronoscopeData, GazetteerPlace } from '../types';
+
+const place = (id: string): GazetteerPlace => {
+  const found = geocode(id);
+  if (!found) throw new Error(`${id} is missing from the gazetteer`);
+  return found;
+};
+
+describe('geocode', () => {
+  it('matches names and aliases regardless of case and accents', () => {
+    expect(geocode('Rome')?.id).toBe('rome');
+    expect(geocode('ROMA')?.id).toBe('rome');
+    expect(geocode('coliseum')?.id).toBe('colosseum');
+    expect(geocode('Notre Dame')?.id).toBe('notre-dame');
+  });
+
+  it('prefers the longest place named in a longer query', () => {
+    expect(geocode('The Colosseum, Rome')?.id).toBe('colosseum');
+    expect(geocode('a stroll near the eiffel tower in paris')?.id).toBe('eiffel-tower');
+  });
+
+  it('gives up on places it does not know', () => {
+    expect(geocode('Atlantis')).toBeNull();
+    expect(geocode('   ')).toBeNull();
+  });
+});
+
+describe('projectToMap', () => {
+  it('puts the center in the middle of the sheet', () => {
+    expect(projectToMap(place('Rome'), place('Rome'))).toEqual({ x: 0.5, y: 0.5 });
+  });
+
+  it('places north up and east right', () => {
+    const colosseum = projectToMap(place('Colosseum'), place('Rome'));
+    const vatican = projectToMap(place('Vatican'), place('Rome'));
+    expect(colosseum!.y).toBeGreaterThan(0.5); // south of the center
+    expect(colosseum!.x).toBeCloseTo(0.47, 2);
+    expect(vatican!.x).toBeLessThan(colosseum!.x); // further west
+  });
+
+  it('returns null for places off the sheet', () => {
+    expect(projectToMap(place('Paris'), place('Rome'))).toBeNull();
+  });
+});
+
+describe('buildMapPins', () => {
+  const data: ChronoscopeData = {
+    location: 'Rome',
+    era: '100 CE',
+    place: place('Rome'),
+    trivia: {
+      facts: [
+        { fact: 'Games were held here.', year: '80', place: 'The Colosseum', confidence: 'high' },
+        { fact: 'A rumour.', year: '', place: '', confidence: 'low' },
+        { fact: 'The city itself.', year: '', place: 'Rome', confidence: 'medium' },
+      ],
+      sources: [],
+    },
+    historicalPhotos: ['a.png', 'b.png'],
+  };
+
+  it('adds one pin per fact and per photograph', () => {
+    expect(buildMapPins(data).map(pin => pin.id)).toEqual(['trivia-0', 'trivia-1', 'trivia-2', 'photo-0', 'photo-1']);
+  });
+
+  it('locates facts at geocoded places other than the destination', () => {
+    const [colosseum, rumour, city] = buildMapPins(data);
+    expect(colosseum).toMatchObject({ kind: 'trivia', index: 0, label: 'The Colosseum', located: true });
+    expect(colosseum.x).toBeCloseTo(projectToMap(place('Colosseum'), place('Rome'))!.x);
+    expect(rumour).toMatchObject({ label: 'Fact #2', located: false });
+    expect(city.located).toBe(false);
+  });
+
+  it('scatters unlocated pins the same way on every render', () => {
+    const first = buildMapPins(data);
+    const second = buildMapPins({ ...data });
+    expect(second).toEqual(first);
+    for (const pin of first) {
+      expect(pin.x).toBeGreaterThan(0);
+      expect(pin.x).toBeLessThan(1);
+      expect(pin.y).toBeGreaterThan(0);
+      expect(pin.y).toBeLessThan(1);
+    }
+  });
+
+  it('has nothing to pin before trivia or photographs are loaded', () => {
+    expect(buildMapPins({ location: 'Rome', era: '100 CE' })).toEqual([]);
+  });
+});
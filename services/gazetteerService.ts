@@ -0,0 +1,95 @@
+import { ChronoscopeData, ChronoscopeMapPin, GazetteerPlace } from '../types';
+import gazetteer from '../data/gazetteer.json';
+
+// Offline geocoding against the bundled gazetteer, plus placement of Chronoscope map pins.
+// Generated vintage maps are not surveyed, so each map is treated as a square centered on the
+// destination spanning its radiusKm in every direction.
+
+const KM_PER_DEGREE_LAT = 110.57;
+const KM_PER_DEGREE_LON = 111.32;
+
+export const getGazetteer = (): GazetteerPlace[] => gazetteer.places as GazetteerPlace[];
+
+const normalize = (text: string): string =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const namesOf = (place: GazetteerPlace): string[] => [place.name, ...place.aliases].map(normalize);
+
+// Exact name or alias first; otherwise the longest name mentioned in the query
+// (so "The Colosseum, Rome" finds the Colosseum rather than Rome)
+export const geocode = (query: string): GazetteerPlace | null => {
+  const needle = normalize(query);
+  if (!needle) return null;
+  const places = getGazetteer();
+
+  const exact = places.find(place => namesOf(place).includes(needle));
+  if (exact) return exact;
+
+  let best: { place: GazetteerPlace; length: number } | null = null;
+  for (const place of places) {
+    for (const name of namesOf(place)) {
+      if (name.length > 2 && ` ${needle} `.includes(` ${name} `) && (!best || name.length > best.length)) {
+        best = { place, length: name.length };
+      }
+    }
+  }
+  return best?.place || null;
+};
+
+// Position of a place on a map of `center`, or null if it falls off the sheet
+export const projectToMap = (place: GazetteerPlace, center: GazetteerPlace): { x: number; y: number } | null => {
+  const dxKm = (place.lon - center.lon) * KM_PER_DEGREE_LON * Math.cos(center.lat * Math.PI / 180);
+  const dyKm = (place.lat - center.lat) * KM_PER_DEGREE_LAT;
+  const x = 0.5 + dxKm / (2 * center.radiusKm);
+  const y = 0.5 - dyKm / (2 * center.radiusKm);
+  return x < 0.05 || x > 0.95 || y < 0.05 || y > 0.95 ? null : { x, y };
+};
+
+const hash = (text: string): number => {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = ((h << 5) + h + text.charCodeAt(i)) >>> 0;
+  return h;
+};
+
+// Deterministic spot around the center for pins we cannot geocode, so they do not jump between renders
+const scatter = (seed: string): { x: number; y: number } => {
+  const h = hash(seed);
+  const angle = (h % 360) * Math.PI / 180;
+  const radius = 0.12 + ((h >>> 9) % 24) / 100;
+  return { x: 0.5 + radius * Math.cos(angle), y: 0.5 + radius * Math.sin(angle) };
+};
+
+// One pin per trivia fact and per historical photo
+export const buildMapPins = (data: ChronoscopeData): ChronoscopeMapPin[] => {
+  const pins: ChronoscopeMapPin[] = [];
+
+  data.trivia?.facts.forEach((fact, index) => {
+    const spot = fact.place ? geocode(fact.place) : null;
+    const projected = spot && data.place && spot.id !== data.place.id ? projectToMap(spot, data.place) : null;
+    pins.push({
+      id: `trivia-${index}`,
+      kind: 'trivia',
+      index,
+      label: fact.place || `Fact #${index + 1}`,
+      ...(projected || scatter(`${data.location}|${fact.place}|${index}`)),
+      located: !!projected,
+    });
+  });
+
+  data.historicalPhotos?.forEach((_, index) => {
+    pins.push({
+      id: `photo-${index}`,
+      kind: 'photo',
+      index,
+      label: `Photograph #${index + 1}`,
+      ...scatter(`${data.location}|photo|${index}`),
+      located: false,
+    });
+  });
+
+  return pins;
+};
+
+// e.g. 41.89°N, 12.49°E
+export const formatCoordinates = (place: GazetteerPlace): string =>
+  `${Math.abs(place.lat).toFixed(2)}°${place.lat >= 0 ? 'N' : 'S'}, ${Math.abs(place.lon).toFixed(2)}°${place.lon >= 0 ? 'E' : 'W'}`;
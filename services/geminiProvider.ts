@@ -0,0 +1,156 @@
+import { GoogleGenAI, Content, GenerateContentResponse } from "@google/genai";
+import { AIMessage, AIProvider, AIProviderError, GroundedResult, GroundingSource, GroundingTool, JsonRequest, TextRequest, UsageCallback, getModelConfig } from './aiProvider';
+
+const toContents = (prompt: string | AIMessage[]): string | Content[] =>
+  typeof prompt === 'string'
+    ? prompt
+    : prompt.map(message => ({ role: message.role, parts: [{ text: message.text }] }));
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Gemini reports blocked prompts and replies in the response rather than as an HTTP error
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new AIProviderError('safety', `Prompt blocked: ${blockReason}`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new AIProviderError('safety', `Reply blocked: ${finishReason}`);
+  }
+};
+
+// Thinking tokens are billed as output
+const reportUsage = (response: GenerateContentResponse, onUsage?: UsageCallback) => {
+  const usage = response.usageMetadata;
+  if (!usage || !onUsage) return;
+  onUsage({
+    promptTokens: usage.promptTokenCount || 0,
+    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+  });
+};
+
+// Reads the API key lazily so a key entered at login is picked up without rebuilding the provider
+export const createGeminiProvider = (getApiKey: () => string | null | undefined): AIProvider => {
+  const getClient = () => {
+    const apiKey = getApiKey();
+    if (!apiKey) {
+      console.warn("API_KEY is missing.");
+      return null;
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  const requireClient = () => {
+    const ai = getClient();
+    if (!ai) throw new AIProviderError('missing-key', "API_KEY is missing.");
+    return ai;
+  };
+
+  return {
+    name: 'gemini',
+
+    isAvailable: () => !!getApiKey(),
+
+    ping: async () => {
+      const ai = getClient();
+      if (!ai) return false;
+      try {
+        // Minimal ping to check if billing/key is active
+        await ai.models.generateContent({ model: getModelConfig().text, contents: 'ping' });
+        return true;
+      } catch (e) {
+        console.error("API Connection Test Failed. Check API Key or Billing.", e);
+        return false;
+      }
+    },
+
+    generateText: async (request: TextRequest) => {
+      const response = await requireClient().models.generateContent({
+        model: getModelConfig().text,
+        contents: toContents(request.prompt),
+        config: {
+          systemInstruction: request.systemInstruction,
+          abortSignal: request.signal,
+        }
+      });
+      assertNotBlocked(response);
+      reportUsage(response, request.onUsage);
+      return response.text || '';
+    },
+
+    streamText: async function* (request: TextRequest) {
+      const stream = await requireClient().models.generateContentStream({
+        model: getModelConfig().text,
+        contents: toContents(request.prompt),
+        config: {
+          systemInstruction: request.systemInstruction,
+          abortSignal: request.signal,
+        }
+      });
+      // Each chunk carries the running totals, so the last one counts for the whole reply
+      let last: GenerateContentResponse | undefined;
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        last = chunk;
+        if (chunk.text) yield chunk.text;
+      }
+      if (last) reportUsage(last, request.onUsage);
+    },
+
+    generateJson: async (request: JsonRequest) => {
+      const response = await requireClient().models.generateContent({
+        model: getModelConfig().text,
+        contents: toContents(request.prompt),
+        config: {
+          systemInstruction: request.systemInstruction,
+          abortSignal: request.signal,
+          responseMimeType: "application/json",
+          responseJsonSchema: request.schema,
+        }
+      });
+      assertNotBlocked(response);
+      reportUsage(response, request.onUsage);
+      return response.text || '';
+    },
+
+    generateImage: async (prompt: string, aspectRatio: string, onUsage?: UsageCallback) => {
+      const response = await requireClient().models.generateContent({
+        model: getModelConfig().image,
+        contents: { parts: [{ text: prompt }] },
+        config: { imageConfig: { aspectRatio } }
+      });
+      assertNotBlocked(response);
+      reportUsage(response, onUsage);
+
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:image/png;base64,${part.inlineData.data}`;
+        }
+      }
+      return null;
+    },
+
+    generateGrounded: async (request: TextRequest, tool: GroundingTool): Promise<GroundedResult> => {
+      const response = await requireClient().models.generateContent({
+        model: getModelConfig().text,
+        contents: toContents(request.prompt),
+        config: {
+          systemInstruction: request.systemInstruction,
+          abortSignal: request.signal,
+          // Note: responseSchema/MimeType is NOT allowed with grounding tools
+          tools: [tool === 'maps' ? { googleMaps: {} } : { googleSearch: {} }],
+        }
+      });
+      assertNotBlocked(response);
+      reportUsage(response, request.onUsage);
+
+      const sources: GroundingSource[] = [];
+      for (const chunk of response.candidates?.[0]?.groundingMetadata?.groundingChunks || []) {
+        const source = chunk.maps || chunk.web;
+        if (source?.uri && !sources.some(s => s.uri === source.uri)) {
+          sources.push({ title: source.title || source.uri, uri: source.uri });
+        }
+      }
+      return { text: response.text || '', sources };
+    },
+  };
+};
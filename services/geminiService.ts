@@ -1,6 +1,12 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { NewsArticle, ChatMessage, AlternateHistoryResult } from '../types';
+import { NewsArticle, DailyEdition, EditionMode, ChatMessage, AlternateHistoryResult, Mentor, LocationTrivia, TriviaConfidence, TriviaFact, GenerationResult, Locale, UsageKind } from '../types';
+import { buildImageCacheKey, getCachedImage, putCachedImage } from './imageCache';
+import { AIMessage, AIProvider, AIProviderError, getActiveProvider, getModelConfig } from './aiProvider';
+import { failure, parseJsonReply, toGenerationError, validateAlternateHistory, validateNewsArticle, withRetry } from './aiResponse';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { meterCall, withUsageMeter } from './usageMeter';
+import { DEFAULT_LOCALE, getLocaleInfo } from './i18nService';
 
 let manualApiKey: string | null = null;
 
@@ -8,255 +14,508 @@ export const setManualApiKey = (key: string) => {
   manualApiKey = key;
 };
 
-export const hasGlobalApiKey = (): boolean => {
-  return !!(process.env.API_KEY || manualApiKey);
+// When set (e.g. "/api"), every generation goes through our backend proxy in server/
+// and the API key never reaches the browser. Leave unset for direct-client mode (AI Studio).
+const PROXY_URL = process.env.GEMINI_PROXY_URL;
+
+export const isProxyMode = (): boolean => !!PROXY_URL;
+
+const postToProxy = async <T>(endpoint: string, body: unknown, headers: Record<string, string> = {}): Promise<T> => {
+  const response = await fetch(`${PROXY_URL}/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  // Gemini's own limits come back inside a GenerationResult, so a 429 here is the proxy's per-client
+  // rate limit: asking again a second later would only spend more of it
+  if (response.status === 429) {
+    throw new AIProviderError('quota', `Proxy request to /${endpoint} was rate limited`, 429, false);
+  }
+  if (!response.ok) {
+    throw new AIProviderError('unavailable', `Proxy request to /${endpoint} failed with status ${response.status}`, response.status);
+  }
+  return response.json() as Promise<T>;
 };
 
-const getClient = () => {
-  const apiKey = manualApiKey || process.env.API_KEY;
-  if (!apiKey) {
-    console.warn("API_KEY is missing.");
-    return null;
+// The server does not pass token counts back, so proxied calls are ledgered by count, images and latency only
+const PROXY_USAGE_KINDS: Record<string, UsageKind> = {
+  headline: 'json',
+  chat: 'text',
+  trivia: 'grounded',
+  simulate: 'json',
+  image: 'image',
+  edition: 'json',
+};
+
+const callProxy = async <T>(endpoint: string, body: unknown, headers: Record<string, string> = {}): Promise<T> => {
+  const kind = PROXY_USAGE_KINDS[endpoint];
+  if (!kind) return postToProxy<T>(endpoint, body, headers);
+
+  const config = getModelConfig();
+  return meterCall(
+    { provider: 'proxy', model: kind === 'image' ? config.image : config.text, kind },
+    () => postToProxy<T>(endpoint, body, headers),
+    (reply: { ok?: boolean }) => ({ images: kind === 'image' && reply?.ok ? 1 : 0, ok: reply?.ok !== false })
+  );
+};
+
+let defaultProvider: AIProvider | null = null;
+
+// A provider set via setProvider wins; otherwise AI_PROVIDER=mock selects offline fixtures, else Gemini.
+// Either way every call goes through the usage meter.
+const getAI = (): AIProvider => {
+  const active = getActiveProvider();
+  if (active) return withUsageMeter(active);
+  if (!defaultProvider) {
+    defaultProvider = withUsageMeter(process.env.AI_PROVIDER === 'mock'
+      ? createMockProvider()
+      : createGeminiProvider(() => manualApiKey || process.env.API_KEY));
   }
-  return new GoogleGenAI({ apiKey });
+  return defaultProvider;
+};
+
+export const hasGlobalApiKey = (): boolean => {
+  return !!PROXY_URL || getAI().isAvailable();
 };
 
 // --- Connection Test ---
 export const testApiKey = async (): Promise<boolean> => {
-  const ai = getClient();
-  if (!ai) return false;
-  try {
-    // Minimal ping to check if billing/key is active
-    await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: 'ping',
-    });
-    return true;
-  } catch (e) {
-    console.error("API Connection Test Failed. Check API Key or Billing.", e);
-    return false;
+  if (isProxyMode()) {
+    try {
+      const { ok } = await callProxy<{ ok: boolean }>('ping', {});
+      return ok;
+    } catch (e) {
+      console.error("API Connection Test Failed. Check the proxy server.", e);
+      return false;
+    }
   }
+
+  return getAI().ping();
 };
 
-// Simple in-memory cache for images
-const imageCache = new Map<string, string>();
+// Requests currently on the wire, so identical prompts (e.g. two AsyncImages) share one call
+const inFlightImages = new Map<string, Promise<GenerationResult<string>>>();
 
-// Generic Image Generator for Mentors/Pivots
-export const generateImage = async (prompt: string, aspectRatio: string = "1:1"): Promise<string | null> => {
-  const cacheKey = `${prompt}-${aspectRatio}`;
-  if (imageCache.has(cacheKey)) {
-    return imageCache.get(cacheKey)!;
-  }
+// Generic Image Generator for Mentors/Pivots. Resolves to the image as a data URL, or a typed failure
+export const generateImage = async (prompt: string, aspectRatio: string = "1:1"): Promise<GenerationResult<string>> => {
+  const cacheKey = buildImageCacheKey(prompt, aspectRatio, `${getAI().name}:${getModelConfig().image}`);
+  const pending = inFlightImages.get(cacheKey);
+  if (pending) return pending;
 
-  const ai = getClient();
-  if (!ai) return null;
+  const request = (async () => {
+    const cached = await getCachedImage(cacheKey);
+    if (cached) return { ok: true, value: cached } as GenerationResult<string>;
 
+    const result = await requestImage(prompt, aspectRatio);
+    if (result.ok) await putCachedImage(cacheKey, result.value);
+    return result;
+  })();
+
+  inFlightImages.set(cacheKey, request);
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: prompt }] },
-      config: { imageConfig: { aspectRatio } }
-    });
+    return await request;
+  } finally {
+    inFlightImages.delete(cacheKey);
+  }
+};
 
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          const result = `data:image/png;base64,${part.inlineData.data}`;
-          imageCache.set(cacheKey, result);
-          return result;
-        }
-      }
+const requestImage = async (prompt: string, aspectRatio: string): Promise<GenerationResult<string>> => {
+  if (isProxyMode()) {
+    try {
+      return await withRetry(() => callProxy<GenerationResult<string>>('image', { prompt, aspectRatio }));
+    } catch (e) {
+      console.error("Generic Image Gen Error", e);
+      return { ok: false, error: toGenerationError(e) };
     }
+  }
+
+  const ai = getAI();
+  if (!ai.isAvailable()) return failure('missing-key');
+
+  try {
+    const url = await withRetry(async () => {
+      const image = await ai.generateImage(prompt, aspectRatio);
+      // A reply without an image part is treated like any other unreadable dispatch
+      if (!image) throw new AIProviderError('malformed', "Reply contained no image");
+      return image;
+    });
+    return { ok: true, value: url };
   } catch (e) {
     console.error("Generic Image Gen Error", e);
+    return { ok: false, error: toGenerationError(e) };
   }
-  return null;
 };
 
-export const generateDailyHeadline = async (): Promise<NewsArticle | null> => {
-  const ai = getClient();
+// Added to a prompt so the reply comes back in the traveler's language. Prompts stay in English;
+// JSON keys and fixed values (like trivia confidence) must too, or parsing would fail.
+const languageInstruction = (locale: Locale): string => locale === DEFAULT_LOCALE ? '' : `
+    LANGUAGE: Write every part of your reply in ${getLocaleInfo(locale).language}. Keep JSON keys, and any fixed values you are told to use, in English.
+  `;
+
+// Asks the proxy to print the day's canonical edition (server/editions.ts), since only the server may write it.
+// Resolves to null outside proxy mode, or when the server cannot print (e.g. no service key configured).
+export const requestDailyEdition = async (editionDate: string, mode: EditionMode, locale: Locale = DEFAULT_LOCALE): Promise<GenerationResult<DailyEdition> | null> => {
+  if (!isProxyMode()) return null;
+  try {
+    return await callProxy<GenerationResult<DailyEdition>>('edition', { editionDate, mode, locale });
+  } catch (e) {
+    console.warn("The proxy could not print the edition", e);
+    return null;
+  }
+};
+
+// With onThisDay (e.g. "October 19") the story is an event that happened on that month and day in any year
+export const generateDailyHeadline = async (onThisDay?: string, locale: Locale = DEFAULT_LOCALE): Promise<GenerationResult<NewsArticle>> => {
+  if (isProxyMode()) {
+    try {
+      return await withRetry(() => callProxy<GenerationResult<NewsArticle>>('headline', { onThisDay, locale }));
+    } catch (error) {
+      console.error("Error generating headline:", error);
+      return { ok: false, error: toGenerationError(error) };
+    }
+  }
+
+  const ai = getAI();
   const fallbackImage = "https://upload.wikimedia.org/wikipedia/commons/thumb/d/d1/Gandhi_spinning.jpg/640px-Gandhi_spinning.jpg";
 
-  if (!ai) return null;
+  if (!ai.isAvailable()) return failure('missing-key');
 
-  const textPrompt = `
-    You are the editor of a 1920s mystical newspaper called "Timension".
+  const subject = onThisDay ? `
+    Generate a front-page headline and a short story (approx 60 words) focused on a fascinating historical event that took place on ${onThisDay}, in any year.
+    The date must fall on ${onThisDay} and be historically accurate for the event chosen.
+  ` : `
     Generate a front-page headline and a short story (approx 60 words) focused on a random fascinating historical event from the 20th century.
     The date should be historically accurate for the event chosen.
+  `;
+
+  const textPrompt = `
+    You are the editor of a 1920s mystical newspaper called "Timension".
+    ${subject}
     Also provide a "Weather of Time" forecast (e.g., "Winds of Change, 32°C").
     
     IMPORTANT: 
     - Headline must be punchy, uppercase, and dramatic (e.g., "NATION WAKES UP").
     - Content should sound like a vintage dispatch.
+    ${languageInstruction(locale)}
   `;
 
   try {
-    const textResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: textPrompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            headline: { type: Type.STRING },
-            date: { type: Type.STRING },
-            content: { type: Type.STRING },
-            weather: { type: Type.STRING },
-          },
-          required: ["headline", "date", "content", "weather"],
-        }
+    const article = await withRetry(async () => validateNewsArticle(parseJsonReply(await ai.generateJson({
+      prompt: textPrompt,
+      fixture: 'headline',
+      schema: {
+        type: 'object',
+        properties: {
+          headline: { type: 'string' },
+          date: { type: 'string' },
+          content: { type: 'string' },
+          weather: { type: 'string' },
+        },
+        required: ["headline", "date", "content", "weather"],
       }
-    });
+    }))));
 
-    const text = textResponse.text;
-    if (!text) return null;
-    const article = JSON.parse(text) as NewsArticle;
+    const imagePrompt = `A vintage, black and white newspaper photograph from the era depicting: ${article.headline}. The scene should look like grainy photojournalism, high contrast, historical setting.`;
+    const image = await generateImage(imagePrompt, "4:3");
+    article.imageUrl = image.ok ? image.value : fallbackImage;
 
-    try {
-      const imagePrompt = `A vintage, black and white newspaper photograph from the era depicting: ${article.headline}. The scene should look like grainy photojournalism, high contrast, historical setting.`;
-      const generatedUrl = await generateImage(imagePrompt, "4:3");
-      article.imageUrl = generatedUrl || fallbackImage;
-
-    } catch (imgError) {
-      console.warn("Image generation failed", imgError);
-      article.imageUrl = fallbackImage;
-    }
-
-    return article;
+    return { ok: true, value: article };
   } catch (error) {
     console.error("Error generating headline:", error);
-    return null;
+    return { ok: false, error: toGenerationError(error) };
   }
 };
 
-export const chatWithMentor = async (
-  mentorName: string,
-  mentorEra: string,
-  history: ChatMessage[],
-  newMessage: string
-): Promise<string> => {
-  const ai = getClient();
+// --- MENTOR CHAT ---
 
-  if (!ai) {
-    return "The chronometer is out of sync. Please configure your Telegraph Key (API Key) to communicate across time.";
-  }
+// Rough budget for how much past conversation we resend each turn.
+// Gemini bills and limits by tokens, so we estimate ~4 characters per token.
+const MENTOR_HISTORY_TOKEN_BUDGET = 2000;
 
-  const conversation = history.map(h => `${h.sender === 'user' ? 'Student' : mentorName}: ${h.text}`).join('\n');
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
 
-  const prompt = `
-    System: You are roleplaying as ${mentorName} from ${mentorEra}.
+// Keeps the most recent messages that fit within the token budget (oldest are dropped first)
+const trimHistoryToBudget = (history: ChatMessage[], budget: number): ChatMessage[] => {
+  const kept: ChatMessage[] = [];
+  let used = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].text);
+    if (used + cost > budget) break;
+    kept.unshift(history[i]);
+    used += cost;
+  }
+  return kept;
+};
+
+const buildMentorSystemInstruction = (mentor: Mentor, locale: Locale): string => `
+    ${mentor.systemPrompt}
+    You are ${mentor.name} (${mentor.role}) from ${mentor.era}.
     You are speaking to a student from the future (2025) via a magical newspaper interface.
-    
+
     CONTEXT:
-    - You are incredibly curious about the future (2025). 
+    - You are incredibly curious about the future (2025).
     - You often ask the user clarifying questions about technology, politics, or society in 2025, comparing it to your own time.
     - Keep your responses concise (under 80 words).
     - Maintain a vintage, wise, slightly dramatic tone.
     - Do not break character.
-    
-    Conversation History:
-    ${conversation}
-    
-    Student: ${newMessage}
-    
-    ${mentorName}:
+    ${languageInstruction(locale)}
   `;
 
+// Converts our chat log into alternating user/model turns, merging consecutive messages from the same side
+const buildMentorContents = (history: ChatMessage[], newMessage: string): AIMessage[] => {
+  const contents: AIMessage[] = [];
+  const turns = [
+    ...trimHistoryToBudget(history, MENTOR_HISTORY_TOKEN_BUDGET),
+    { sender: 'user' as const, text: newMessage },
+  ];
+
+  for (const turn of turns) {
+    const role = turn.sender === 'user' ? 'user' : 'model';
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.text += `\n${turn.text}`;
+    } else {
+      contents.push({ role, text: turn.text });
+    }
+  }
+  return contents;
+};
+
+// The proxy looks mentors up by id. Only the Editor's preview sends a whole draft, together with
+// the maintainer's access token (draftToken) so the server can check they may.
+export const chatWithMentor = async (
+  mentor: Mentor,
+  history: ChatMessage[],
+  newMessage: string,
+  locale: Locale = DEFAULT_LOCALE,
+  draftToken?: string
+): Promise<GenerationResult<string>> => {
+  if (isProxyMode()) {
+    const turns = history.map(({ sender, text }) => ({ sender, text }));
+    const body = draftToken
+      ? { mentor, history: turns, newMessage, locale }
+      : { mentorId: mentor.id, history: turns, newMessage, locale };
+    const headers: Record<string, string> = draftToken ? { Authorization: `Bearer ${draftToken}` } : {};
+    try {
+      return await withRetry(() => callProxy<GenerationResult<string>>('chat', body, headers));
+    } catch (error) {
+      console.error("Chat error:", error);
+      return { ok: false, error: toGenerationError(error) };
+    }
+  }
+
+  const ai = getAI();
+  if (!ai.isAvailable()) return failure('missing-key');
+
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
-    return response.text || "...";
+    const text = await withRetry(() => ai.generateText({
+      prompt: buildMentorContents(history, newMessage),
+      systemInstruction: buildMentorSystemInstruction(mentor, locale),
+      fixture: 'chat',
+    }));
+    return { ok: true, value: text || "..." };
   } catch (error) {
     console.error("Chat error:", error);
-    return "The ink is smudged... I cannot hear you clearly.";
+    return { ok: false, error: toGenerationError(error) };
   }
 };
 
+// Streams the mentor's reply in chunks as the telegraph receives them.
+// Falls back to the regular (retried) request if the stream fails before any text arrives, and
+// throws an AIProviderError carrying the failure's kind if that fails too.
+export async function* streamChatWithMentor(
+  mentor: Mentor,
+  history: ChatMessage[],
+  newMessage: string,
+  signal?: AbortSignal,
+  locale: Locale = DEFAULT_LOCALE
+): AsyncGenerator<string> {
+  const replyOrThrow = async (): Promise<string> => {
+    const result = await chatWithMentor(mentor, history, newMessage, locale);
+    if (!result.ok) throw new AIProviderError(result.error.kind, result.error.message);
+    return result.value;
+  };
+
+  // The proxy answers in one piece; the telegraph effect still types it out
+  if (isProxyMode()) {
+    const reply = await replyOrThrow();
+    if (!signal?.aborted) yield reply;
+    return;
+  }
+
+  const ai = getAI();
+  if (!ai.isAvailable()) throw new AIProviderError('missing-key', "API_KEY is missing.");
+
+  let received = false;
+  try {
+    const stream = ai.streamText({
+      prompt: buildMentorContents(history, newMessage),
+      systemInstruction: buildMentorSystemInstruction(mentor, locale),
+      signal,
+      fixture: 'chat',
+    });
+
+    for await (const text of stream) {
+      if (signal?.aborted) return;
+      if (text) {
+        received = true;
+        yield text;
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    // A blocked prompt would only be blocked again
+    if (!received && toGenerationError(error).kind === 'safety') throw error;
+    console.warn("Chat stream failed, falling back to single reply", error);
+    if (!received) {
+      yield await replyOrThrow();
+    }
+  }
+}
+
 // --- CHRONOSCOPE FEATURES ---
 
+// Every generator below takes the era as a label such as "100 CE" or "1920" (see formatEraYear)
+
 // 1. Generate Vintage Map
-export const generateVintageMap = async (location: string): Promise<string | null> => {
+export const generateVintageMap = async (location: string, era: string): Promise<GenerationResult<string>> => {
   const imagePrompt = `
-        A highly detailed, antique map of ${location} from the year 1920.
-        Top-down cartographic view, sepia paper texture, vintage typography, intricate street lines.
-        Looks like an authentic historical artifact from a 1920s atlas.
+        A highly detailed, antique map of ${location} as it stood in the year ${era}.
+        Top-down cartographic view, aged paper texture, typography and cartographic conventions of that period, intricate street lines.
+        Only show roads, walls, buildings and coastlines that existed in ${era}.
+        Looks like an authentic historical artifact from an atlas of that age (or a scholar's faithful reconstruction, if maps were not yet drawn that way).
     `;
   return await generateImage(imagePrompt, "1:1");
 };
 
+const TRIVIA_CONFIDENCE: TriviaConfidence[] = ['high', 'medium', 'low'];
+
+// Grounded calls cannot use a response schema, so the JSON array is cut out of the reply and checked by hand.
+// Malformed entries are dropped and near-identical facts are only kept once.
+const parseTriviaFacts = (text: string, location: string): TriviaFact[] => {
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start === -1 || end <= start) return [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  const facts: TriviaFact[] = [];
+  for (const item of raw) {
+    const fact = typeof item?.fact === 'string' ? item.fact.trim() : '';
+    // Letters and digits of any script, so facts written in Hindi are compared too
+    const key = fact.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    if (!fact || seen.has(key)) continue;
+    seen.add(key);
+    facts.push({
+      fact,
+      year: item.year === undefined || item.year === null ? '' : String(item.year).trim(),
+      place: typeof item.place === 'string' && item.place.trim() ? item.place.trim() : location,
+      confidence: TRIVIA_CONFIDENCE.includes(item.confidence) ? item.confidence : 'medium',
+    });
+  }
+  return facts.slice(0, 3);
+};
+
 // 2. Generate Trivia (Grounded with Google Maps)
-export const generateLocationTrivia = async (location: string): Promise<string[]> => {
-  const ai = getClient();
-  if (!ai) return ["Telegraph signal lost. Please check API Key configuration."];
+// A reply with no usable facts counts as malformed
+export const generateLocationTrivia = async (location: string, era: string, locale: Locale = DEFAULT_LOCALE): Promise<GenerationResult<LocationTrivia>> => {
+  if (isProxyMode()) {
+    try {
+      return await withRetry(() => callProxy<GenerationResult<LocationTrivia>>('trivia', { location, era, locale }));
+    } catch (e) {
+      console.error("Trivia Gen Error", e);
+      return { ok: false, error: toGenerationError(e) };
+    }
+  }
+
+  const ai = getAI();
+  if (!ai.isAvailable()) return failure('missing-key');
 
   const prompt = `
-        Find 3 distinct, fascinating, and historically accurate trivia facts about ${location} specifically from the early 20th century (1900-1950).
-        Focus on events, architecture, or cultural shifts that a time traveler would find interesting.
+        Find 3 distinct, fascinating, and historically accurate trivia facts about ${location} specifically around the year ${era} (within a generation either side).
+        Focus on events, architecture, or cultural shifts that a time traveler arriving in ${era} would find interesting.
+        If ${location} did not exist yet, describe what stood at that place instead.
         Use Google Maps data to verify the location's significance.
-        Format the output as a simple list of 3 facts, separated by newlines. Do not use JSON.
+        Reply with only a JSON array of 3 objects, each shaped like:
+        {"fact": "One or two sentences", "year": "The year or span it refers to", "place": "The specific street, building or district", "confidence": "high" | "medium" | "low"}
+        Use "low" confidence for anything legendary, disputed or not confirmed by the sources you found.
+        ${languageInstruction(locale)}
     `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        // Re-enabled Google Maps for paid/billing-enabled usage
-        tools: [{ googleMaps: {} }],
-        // Note: responseSchema/MimeType is NOT allowed with googleMaps tool
-      }
+    const trivia = await withRetry(async () => {
+      // Grounded with Google Maps for paid/billing-enabled usage
+      const { text, sources } = await ai.generateGrounded({ prompt, fixture: 'trivia' }, 'maps');
+      const facts = parseTriviaFacts(text, location);
+      if (!facts.length) throw new AIProviderError('malformed', `Trivia reply could not be parsed: ${text.slice(0, 200)}`);
+      return { facts, sources };
     });
-
-    // Manual Parsing since we can't use JSON Schema with Maps tool easily
-    const text = response.text;
-    if (text) {
-      // Split by newlines and filter empty or short lines
-      const lines = text.split('\n').filter(line => line.length > 10).slice(0, 3);
-      // Cleanup numbering if present (e.g. "1. Fact")
-      return lines.map(l => l.replace(/^\d+[\.\)]\s*/, ''));
-    }
+    return { ok: true, value: trivia };
   } catch (e) {
     console.error("Trivia Gen Error", e);
+    return { ok: false, error: toGenerationError(e) };
   }
-  return [`Historical records for ${location} are currently fragmented.`];
 };
 
 // 3. Generate Historical Photos (Returns 2)
-export const generateHistoricalPhotos = async (location: string): Promise<string[]> => {
-  const images: string[] = [];
+// Eras before photography are still shot as if a time traveler had brought a camera along.
+// Succeeds with whichever photos developed; fails with the first error only if none did.
+export const generateHistoricalPhotos = async (location: string, era: string): Promise<GenerationResult<string[]>> => {
   const prompts = [
-    `A realistic vintage black and white photograph of ${location} in 1924. Street level view, showing people in 1920s fashion, vintage cars. High contrast, film grain.`,
-    `A faded sepia photograph of a landmark in ${location} from 1930. Bustling atmosphere, period accurate architecture, steam or smoke. Old camera aesthetic.`
+    `A realistic vintage black and white photograph of ${location} in ${era}. Street level view, showing people in period-accurate clothing, transport and trades of ${era}. High contrast, film grain.`,
+    `A faded sepia photograph of a landmark in ${location} as it stood in ${era}. Bustling atmosphere, period accurate architecture and daily life. Old camera aesthetic.`
   ];
 
   // Run in parallel for speed
-  await Promise.all(prompts.map(async (p) => {
-    const url = await generateImage(p, "4:3");
-    if (url) images.push(url);
-  }));
-
-  return images;
+  const results = await Promise.all(prompts.map(p => generateImage(p, "4:3")));
+  const images = results.filter(r => r.ok).map(r => r.value);
+  if (images.length) return { ok: true, value: images };
+  return { ok: false, error: results[0].error };
 };
 
 
-export const simulateAlternateHistory = async (event: string, originalOutcome: string, userChange: string): Promise<AlternateHistoryResult | null> => {
-  const ai = getClient();
+// When priorContext is given, the simulation continues an existing alternate timeline
+// (see buildBranchContext) instead of starting from the original event.
+export const simulateAlternateHistory = async (
+  event: string,
+  originalOutcome: string,
+  userChange: string,
+  priorContext?: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<GenerationResult<AlternateHistoryResult>> => {
+  if (isProxyMode()) {
+    try {
+      return await withRetry(() => callProxy<GenerationResult<AlternateHistoryResult>>('simulate', { event, originalOutcome, userChange, priorContext, locale }));
+    } catch (error) {
+      console.error("Alt History Error:", error);
+      return { ok: false, error: toGenerationError(error) };
+    }
+  }
 
-  const fallback: AlternateHistoryResult = {
-    timelineSteps: [
-      "The Time Stream is unresponsive.",
-      "Please ensure the Chrono-Key (API Key) is inserted.",
-      "Simulation aborted."
-    ],
-    finalHeadline: "CONNECTION FAILED"
-  };
+  const ai = getAI();
+  if (!ai.isAvailable()) return failure('missing-key');
 
-  if (!ai) return fallback;
+  const scenario = priorContext ? `
+    You are an Alternate History Simulator continuing an already altered timeline.
 
-  const prompt = `
+    The timeline so far (most recent events last):
+    ${priorContext}
+
+    At this exact moment, the Time Traveler intervenes again: "${userChange}"
+
+    Predict the causal chain of events resulting from this further change, starting from the last event above.
+    Provide exactly 3 distinct steps in the timeline shift:
+    1. The Immediate Consequence.
+    2. The Ripple Effect.
+    3. The Modern Outcome (2020s).
+  ` : `
     You are an Alternate History Simulator.
     
     Historical Event: "${event}"
@@ -268,58 +527,48 @@ export const simulateAlternateHistory = async (event: string, originalOutcome: s
     1. The Immediate Consequence (1940s-1950s).
     2. The Ripple Effect (1970s-1990s).
     3. The Modern Outcome (2020s).
+  `;
+
+  const prompt = `
+    ${scenario}
     
     Style: Write in a gripping, narrative tone. Not too short, but not an essay. About 2-3 compelling sentences per step.
     
     Also generate a sensational newspaper headline from this new present day.
-    
+    ${languageInstruction(locale)}
     Return valid JSON format only.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            timelineSteps: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            },
-            finalHeadline: { type: Type.STRING }
+    const result = await withRetry(async () => validateAlternateHistory(parseJsonReply(await ai.generateJson({
+      prompt,
+      fixture: 'simulation',
+      schema: {
+        type: 'object',
+        properties: {
+          timelineSteps: {
+            type: 'array',
+            items: { type: 'string' }
           },
-          required: ["timelineSteps", "finalHeadline"]
-        }
+          finalHeadline: { type: 'string' }
+        },
+        required: ["timelineSteps", "finalHeadline"]
       }
-    });
-
-    let text = response.text;
-    if (!text) return fallback;
-
-    // Clean Markdown fences if the model adds them (e.g., ```json ... ```)
-    text = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    }))));
 
-    const result = JSON.parse(text) as AlternateHistoryResult;
-
-    try {
-      const imagePrompt = `
+    const imagePrompt = `
             Cinematic concept art depicting the alternate history result of: ${result.finalHeadline}. 
             Scene description based on: ${result.timelineSteps[2]}. 
             Retro-futuristic or dystopian aesthetic depending on the outcome. Highly detailed, atmospheric.
         `;
-      const url = await generateImage(imagePrompt, "16:9");
-      if (url) result.imageUrl = url;
-    } catch (imgError) {
-      console.warn("Alt History Image Gen Failed", imgError);
-    }
+    const image = await generateImage(imagePrompt, "16:9");
+    if (image.ok) result.imageUrl = image.value;
+    else console.warn("Alt History Image Gen Failed", image.error);
 
-    return result;
+    return { ok: true, value: result };
 
   } catch (error) {
     console.error("Alt History Error:", error);
-    return fallback;
+    return { ok: false, error: toGenerationError(error) };
   }
 };
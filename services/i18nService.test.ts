@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LOCALES, TranslationKey, detectLocale, isLocale, translate } from './i18nService';
+import en from '../data/locales/en.json';
+import hi from '../data/locales/hi.json';
+import de from '../data/locales/de.json';
+import artifacts from '../data/artifacts.json';
+import ranks from '../data/ranks.json';
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) || []).sort();
+
+describe('translate', () => {
+  afterEach(() => {
+    vi.doUnmock('../data/locales/de.json');
+    vi.resetModules();
+  });
+
+  it('uses the dictionary of the chosen locale', () => {
+    expect(translate('en', 'nav.mentors')).toBe(en['nav.mentors']);
+    expect(translate('de', 'nav.mentors')).toBe(de['nav.mentors']);
+    expect(translate('hi', 'nav.mentors')).toBe(hi['nav.mentors']);
+  });
+
+  it('fills in placeholders and leaves unknown ones as they are', () => {
+    expect(translate('en', 'dashboard.year', { year: 1925 })).toBe('1925 AD');
+    expect(translate('en', 'dashboard.year')).toBe('{year} AD');
+  });
+
+  it('falls back to English for keys missing from a dictionary', async () => {
+    vi.doMock('../data/locales/de.json', () => ({ default: { 'nav.mentors': 'Große Geister' } }));
+    vi.resetModules();
+    const i18n = await import('./i18nService');
+    expect(i18n.translate('de', 'nav.mentors')).toBe('Große Geister');
+    expect(i18n.translate('de', 'nav.community')).toBe(en['nav.community']);
+  });
+
+  it('shows the key itself when no dictionary has it', () => {
+    expect(translate('hi', 'nav.unknown' as TranslationKey)).toBe('nav.unknown');
+  });
+});
+
+describe('dictionaries', () => {
+  it.each([['hi', hi], ['de', de]] as const)('%s translates every English key with the same placeholders', (_, dictionary) => {
+    const translated = dictionary as Record<string, string>;
+    for (const [key, text] of Object.entries(en)) {
+      expect(translated[key], key).toBeTypeOf('string');
+      expect(placeholders(translated[key]), key).toEqual(placeholders(text));
+    }
+  });
+
+  it('has the names and descriptions of every artifact and rank in the catalogs', () => {
+    const keys = [...artifacts.flatMap(a => [a.name, a.description]), ...ranks.ranks.map(r => r.title)];
+    for (const key of keys) expect(en, key).toHaveProperty([key]);
+  });
+});
+
+describe('detectLocale', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('picks the first supported browser language', () => {
+    vi.stubGlobal('navigator', { languages: ['fr-FR', 'de-AT', 'en-US'], language: 'fr-FR' });
+    expect(detectLocale()).toBe('de');
+  });
+
+  it('defaults to English', () => {
+    vi.stubGlobal('navigator', { languages: ['fr-FR'], language: 'fr-FR' });
+    expect(detectLocale()).toBe('en');
+  });
+
+  it('only accepts supported locales', () => {
+    expect(LOCALES.map(l => l.id).every(isLocale)).toBe(true);
+    expect(isLocale('fr')).toBe(false);
+  });
+});
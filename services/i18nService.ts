@@ -0,0 +1,47 @@
+// UI strings and language names for every supported locale.
+// Dictionaries live in data/locales; English is the reference, and any key missing from another
+// dictionary falls back to it. The traveler's choice is stored by profileService (saveTravelerLocale).
+
+import { Locale } from '../types';
+import en from '../data/locales/en.json';
+import hi from '../data/locales/hi.json';
+import de from '../data/locales/de.json';
+
+export type TranslationKey = keyof typeof en;
+
+export interface LocaleInfo {
+  id: Locale;
+  label: string; // The language's own name, as shown in the picker
+  language: string; // Name used when asking the model to write in this language
+  dateTag: string; // BCP 47 tag for dates and numbers
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { id: 'en', label: 'English', language: 'English', dateTag: 'en-US' },
+  { id: 'hi', label: 'हिन्दी', language: 'Hindi (in Devanagari script)', dateTag: 'hi-IN' },
+  { id: 'de', label: 'Deutsch', language: 'German', dateTag: 'de-DE' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const DICTIONARIES: Record<Locale, Partial<Record<TranslationKey, string>>> = { en, hi, de };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+export const getLocaleInfo = (locale: Locale): LocaleInfo => LOCALES.find(l => l.id === locale) || LOCALES[0];
+
+// Replaces {name} placeholders, e.g. translate('hi', 'dashboard.year', { year: 2025 })
+export const translate = (locale: Locale, key: TranslationKey, vars: Record<string, string | number> = {}): string => {
+  const text = DICTIONARIES[locale]?.[key] ?? en[key] ?? key;
+  return text.replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match);
+};
+
+// Before anyone signs in: the browser's language if we have it, else English
+export const detectLocale = (): Locale => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  for (const tag of preferred) {
+    const base = tag?.slice(0, 2).toLowerCase();
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
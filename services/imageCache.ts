@@ -0,0 +1,226 @@
+// Persistent cache for generated images, so portraits, pivots and maps survive a reload.
+// Images live in IndexedDB with a small metadata store alongside for LRU eviction and TTL checks.
+// Where IndexedDB is unavailable (e.g. the Node proxy server) only the in-memory layer is used, so that
+// layer has its own, smaller LRU budget and honours the same TTL.
+
+const DB_NAME = 'timension-image-cache';
+const DB_VERSION = 1;
+const IMAGE_STORE = 'images';
+const META_STORE = 'meta';
+
+export const IMAGE_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+export const IMAGE_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const MEMORY_CACHE_MAX_BYTES = 20 * 1024 * 1024;
+
+interface CacheMeta {
+  key: string;
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export interface ImageCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  oldestEntry: number | null;
+}
+
+interface MemoryEntry {
+  dataUrl: string;
+  createdAt: number;
+}
+
+// Map order doubles as recency: entries are re-inserted on every hit, so the first key is the least recently used
+const memoryCache = new Map<string, MemoryEntry>();
+let memoryBytes = 0;
+let hits = 0;
+let misses = 0;
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const forgetInMemory = (key: string) => {
+  const entry = memoryCache.get(key);
+  if (!entry) return;
+  memoryBytes -= entry.dataUrl.length;
+  memoryCache.delete(key);
+};
+
+const rememberInMemory = (key: string, dataUrl: string, createdAt: number) => {
+  forgetInMemory(key);
+  memoryCache.set(key, { dataUrl, createdAt });
+  memoryBytes += dataUrl.length;
+  for (const oldest of memoryCache.keys()) {
+    if (memoryBytes <= MEMORY_CACHE_MAX_BYTES) break;
+    forgetInMemory(oldest);
+  }
+};
+
+// Returns a fresh memory hit and marks it most recently used; expired entries are dropped
+const readFromMemory = (key: string): string | null => {
+  const entry = memoryCache.get(key);
+  if (!entry) return null;
+  if (Date.now() - entry.createdAt > IMAGE_CACHE_TTL_MS) {
+    forgetInMemory(key);
+    return null;
+  }
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  return entry.dataUrl;
+};
+
+export const buildImageCacheKey = (prompt: string, aspectRatio: string, model: string): string =>
+  `${model}|${aspectRatio}|${prompt}`;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IMAGE_STORE);
+        request.result.createObjectStore(META_STORE, { keyPath: 'key' }).createIndex('lastAccessed', 'lastAccessed');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Image cache unavailable, falling back to memory only", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const deleteEntries = async (db: IDBDatabase, keys: string[]) => {
+  if (!keys.length) return;
+  const tx = db.transaction([IMAGE_STORE, META_STORE], 'readwrite');
+  keys.forEach(key => {
+    tx.objectStore(IMAGE_STORE).delete(key);
+    tx.objectStore(META_STORE).delete(key);
+    forgetInMemory(key);
+  });
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Drops expired entries, then the least recently used ones until the cache fits its size budget
+const evict = async (db: IDBDatabase) => {
+  const metas = await toPromise(db.transaction(META_STORE).objectStore(META_STORE).index('lastAccessed').getAll()) as CacheMeta[];
+  const now = Date.now();
+  const doomed: string[] = [];
+  let total = 0;
+
+  for (const meta of metas) {
+    if (now - meta.createdAt > IMAGE_CACHE_TTL_MS) doomed.push(meta.key);
+    else total += meta.size;
+  }
+  // metas are sorted oldest access first
+  for (const meta of metas) {
+    if (total <= IMAGE_CACHE_MAX_BYTES) break;
+    if (doomed.includes(meta.key)) continue;
+    doomed.push(meta.key);
+    total -= meta.size;
+  }
+
+  await deleteEntries(db, doomed);
+};
+
+export const getCachedImage = async (key: string): Promise<string | null> => {
+  const remembered = readFromMemory(key);
+  if (remembered) {
+    hits++;
+    return remembered;
+  }
+
+  try {
+    const db = await openDb();
+    if (db) {
+      const meta = await toPromise(db.transaction(META_STORE).objectStore(META_STORE).get(key)) as CacheMeta | undefined;
+      if (meta && Date.now() - meta.createdAt <= IMAGE_CACHE_TTL_MS) {
+        const dataUrl = await toPromise(db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).get(key)) as string | undefined;
+        if (dataUrl) {
+          hits++;
+          rememberInMemory(key, dataUrl, meta.createdAt);
+          db.transaction(META_STORE, 'readwrite').objectStore(META_STORE).put({ ...meta, lastAccessed: Date.now() });
+          return dataUrl;
+        }
+      } else if (meta) {
+        await deleteEntries(db, [key]);
+      }
+    }
+  } catch (e) {
+    console.warn("Image cache read failed", e);
+  }
+
+  misses++;
+  return null;
+};
+
+export const putCachedImage = async (key: string, dataUrl: string): Promise<void> => {
+  const now = Date.now();
+  rememberInMemory(key, dataUrl, now);
+
+  try {
+    const db = await openDb();
+    if (!db) return;
+    const tx = db.transaction([IMAGE_STORE, META_STORE], 'readwrite');
+    tx.objectStore(IMAGE_STORE).put(dataUrl, key);
+    tx.objectStore(META_STORE).put({ key, size: dataUrl.length, createdAt: now, lastAccessed: now } as CacheMeta);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    await evict(db);
+  } catch (e) {
+    console.warn("Image cache write failed", e);
+  }
+};
+
+export const getImageCacheStats = async (): Promise<ImageCacheStats> => {
+  const remembered = [...memoryCache.values()];
+  const stats: ImageCacheStats = {
+    entries: remembered.length,
+    bytes: memoryBytes,
+    hits,
+    misses,
+    oldestEntry: remembered.length ? Math.min(...remembered.map(entry => entry.createdAt)) : null,
+  };
+  try {
+    const db = await openDb();
+    if (!db) return stats;
+    const metas = await toPromise(db.transaction(META_STORE).objectStore(META_STORE).getAll()) as CacheMeta[];
+    stats.entries = metas.length;
+    stats.bytes = metas.reduce((total, meta) => total + meta.size, 0);
+    stats.oldestEntry = metas.length ? Math.min(...metas.map(meta => meta.createdAt)) : null;
+  } catch (e) {
+    console.warn("Image cache stats unavailable", e);
+  }
+  return stats;
+};
+
+export const clearImageCache = async (): Promise<void> => {
+  memoryCache.clear();
+  memoryBytes = 0;
+  hits = 0;
+  misses = 0;
+  try {
+    const db = await openDb();
+    if (!db) return;
+    const tx = db.transaction([IMAGE_STORE, META_STORE], 'readwrite');
+    tx.objectStore(IMAGE_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.error("Failed to clear image cache", e);
+  }
+};
@@ -0,0 +1,109 @@
+import { supabase } from './supabaseClient';
+import { Locale, Mentor, MentorRegistryEntry } from '../types';
+import { DEFAULT_LOCALE, translate, TranslationKey } from './i18nService';
+import seedMentors from '../data/mentors.json';
+
+// Bundled mentors ship with the app so the gallery works even without a database
+export const getSeedMentors = (): Mentor[] => seedMentors as Mentor[];
+
+const mapMentor = (item: any): Mentor => ({
+    id: item.id,
+    name: item.name,
+    role: item.role,
+    era: item.era,
+    avatar: item.avatar,
+    imageUrl: item.image_url,
+    bio: item.bio,
+    systemPrompt: item.system_prompt,
+    greeting: item.greeting,
+    imagePrompt: item.image_prompt || undefined,
+    facePrompt: item.face_prompt || undefined
+});
+
+const fetchRegistryRows = async (): Promise<any[]> => {
+    const { data, error } = await supabase
+        .from('mentors')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data;
+};
+
+// Published registry rows extend the seed, or replace a seed mentor with the same id
+export const fetchMentors = async (): Promise<Mentor[]> => {
+    try {
+        const rows = await fetchRegistryRows();
+        const published = rows.filter(row => row.published).map(mapMentor);
+        const overridden = new Set(published.map(m => m.id));
+        return [...getSeedMentors().filter(m => !overridden.has(m.id)), ...published];
+    } catch (e) {
+        console.warn("Failed to fetch mentors from Supabase, using bundled seed", e);
+        return getSeedMentors();
+    }
+};
+
+// Full registry for the Editor, including unpublished drafts
+export const fetchMentorRegistry = async (): Promise<MentorRegistryEntry[]> => {
+    const seed: MentorRegistryEntry[] = getSeedMentors().map(mentor => ({ mentor, status: 'seed' }));
+    try {
+        const rows = await fetchRegistryRows();
+        const entries: MentorRegistryEntry[] = rows.map(row => ({
+            mentor: mapMentor(row),
+            status: row.published ? 'published' : 'draft'
+        }));
+        const overridden = new Set(entries.map(e => e.mentor.id));
+        return [...seed.filter(e => !overridden.has(e.mentor.id)), ...entries];
+    } catch (e) {
+        console.warn("Failed to fetch mentor registry from Supabase, showing seed only", e);
+        return seed;
+    }
+};
+
+export const saveMentor = async (mentor: Mentor, published: boolean): Promise<boolean> => {
+    try {
+        const { error } = await supabase
+            .from('mentors')
+            .upsert([{
+                id: mentor.id,
+                name: mentor.name,
+                role: mentor.role,
+                era: mentor.era,
+                avatar: mentor.avatar,
+                image_url: mentor.imageUrl,
+                bio: mentor.bio,
+                system_prompt: mentor.systemPrompt,
+                greeting: mentor.greeting,
+                image_prompt: mentor.imagePrompt || null,
+                face_prompt: mentor.facePrompt || null,
+                published,
+                updated_at: new Date().toISOString()
+            }]);
+
+        if (error) throw error;
+        return true;
+    } catch (e) {
+        console.error("Failed to save mentor", e);
+        return false;
+    }
+};
+
+// Returns a list of human-readable problems; an empty list means the mentor is ready to publish
+export const validateMentor = (mentor: Mentor, existingIds: string[] = [], locale: Locale = DEFAULT_LOCALE): string[] => {
+    const errors: TranslationKey[] = [];
+    if (!/^[a-z0-9-]+$/.test(mentor.id)) errors.push('validation.idFormat');
+    if (existingIds.includes(mentor.id)) errors.push('validation.idTaken');
+    if (!mentor.name.trim()) errors.push('validation.nameRequired');
+    if (!mentor.role.trim()) errors.push('validation.roleRequired');
+    if (!mentor.era.trim()) errors.push('validation.eraRequired');
+    if (!mentor.bio.trim()) errors.push('validation.bioRequired');
+    if (mentor.systemPrompt.trim().length < 20) errors.push('validation.systemPromptLength');
+    if (!mentor.greeting.trim()) errors.push('validation.greetingRequired');
+    return errors.map(key => translate(locale, key, { id: mentor.id, min: 20 }));
+};
+
+export const getMentorImagePrompt = (mentor: Mentor): string =>
+    mentor.imagePrompt || `Portrait of ${mentor.name}, ${mentor.era}, vintage photography, historical figure`;
+
+export const getMentorFacePrompt = (mentor: Mentor): string =>
+    mentor.facePrompt || `Portrait of ${mentor.name}, face only`;
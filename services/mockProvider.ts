@@ -0,0 +1,89 @@
+import { AIMessage, AIProvider, GroundedResult, GroundingTool, JsonRequest, JsonSchema, TextRequest } from './aiProvider';
+import fixtures from '../data/mockFixtures.json';
+
+// Deterministic, offline provider for UI development and CI: the same request always yields the same answer.
+
+const FIXTURES = fixtures as Record<string, unknown[]>;
+
+const promptText = (prompt: string | AIMessage[]): string =>
+  typeof prompt === 'string' ? prompt : prompt.map(m => m.text).join('\n');
+
+// djb2 string hash, used to pick a fixture variant
+const hash = (text: string): number => {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = ((h << 5) + h + text.charCodeAt(i)) >>> 0;
+  return h;
+};
+
+const pickFixture = (request: TextRequest): unknown | undefined => {
+  const variants = request.fixture ? FIXTURES[request.fixture] : undefined;
+  if (!variants?.length) return undefined;
+  return variants[hash(promptText(request.prompt)) % variants.length];
+};
+
+// Builds a schema-conforming value when no fixture exists for the request
+const synthesize = (schema: JsonSchema, seed: string): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, child]) => [key, synthesize(child, `${seed}.${key}`)]));
+    case 'array':
+      return [0, 1, 2].map(i => synthesize(schema.items || { type: 'string' }, `${seed}[${i}]`));
+    case 'number':
+    case 'integer':
+      return hash(seed) % 100;
+    case 'boolean':
+      return hash(seed) % 2 === 0;
+    default:
+      return schema.enum?.length ? schema.enum[hash(seed) % schema.enum.length] : `Mock ${seed.split('.').pop()}`;
+  }
+};
+
+const placeholderImage = (prompt: string, aspectRatio: string): string => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const width = 400;
+  const height = Math.round(width * (h || 1) / (w || 1));
+  const label = prompt.trim().slice(0, 40).replace(/[<&"]/g, '');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+    + `<rect width="100%" height="100%" fill="#d6cdae"/>`
+    + `<text x="50%" y="50%" font-family="serif" font-size="14" fill="#2b2218" text-anchor="middle">${label}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const mockText = (request: TextRequest): string => {
+  const fixture = pickFixture(request);
+  return typeof fixture === 'string' ? fixture : `[mock] ${promptText(request.prompt).trim().slice(0, 80)}`;
+};
+
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+
+  isAvailable: () => true,
+
+  ping: async () => true,
+
+  generateText: async (request: TextRequest) => mockText(request),
+
+  streamText: async function* (request: TextRequest) {
+    // Word by word, so streaming UIs behave as they would against a real model
+    for (const word of mockText(request).split(/(?<=\s)/)) {
+      if (request.signal?.aborted) return;
+      yield word;
+    }
+  },
+
+  generateJson: async (request: JsonRequest) => {
+    const fixture = pickFixture(request);
+    return JSON.stringify(fixture && typeof fixture === 'object' ? fixture : synthesize(request.schema, request.fixture || 'root'));
+  },
+
+  generateImage: async (prompt: string, aspectRatio: string) => placeholderImage(prompt, aspectRatio),
+
+  generateGrounded: async (request: TextRequest, tool: GroundingTool): Promise<GroundedResult> => ({
+    text: mockText(request),
+    sources: [{
+      title: tool === 'maps' ? 'Mock Gazetteer' : 'Mock Encyclopaedia',
+      uri: `https://example.com/${tool}/${hash(promptText(request.prompt))}`
+    }]
+  }),
+});
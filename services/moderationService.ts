@@ -0,0 +1,93 @@
+// Client-side checks for community posts. They give travelers instant feedback; the database
+// enforces the same rules (migrations/suggestion_moderation.sql), so keep the two in step.
+
+import { Locale } from '../types';
+import { DEFAULT_LOCALE, translate, TranslationKey } from './i18nService';
+
+export const SUGGESTION_MIN_LENGTH = 10;
+export const SUGGESTION_MAX_LENGTH = 500;
+
+const POSTS_PER_BURST = 3;
+const BURST_WINDOW_MS = 10 * 60 * 1000;
+const POSTS_PER_DAY = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Matched at the start of a word, so "shitty" is caught but "Dickens" is not
+const BLOCKED_TERMS = [
+    'fuck', 'shit', 'bitch', 'bastard', 'asshole', 'cunt', 'dickhead',
+    'motherfucker', 'slut', 'whore', 'wanker', 'twat', 'bollocks', 'prick'
+];
+
+const LINK_PATTERN = /(https?:\/\/|www\.|\.(com|net|org|io|ru|xyz)\b)/i;
+const REPEATED_CHARACTER_PATTERN = /(.)\1{7,}/;
+
+const LENGTH_LIMITS = { min: SUGGESTION_MIN_LENGTH, max: SUGGESTION_MAX_LENGTH };
+
+// The database refuses posts with the English text of these, so its reasons can be translated too
+const SERVER_PROBLEMS: TranslationKey[] = [
+    'moderation.length', 'moderation.civil', 'moderation.links', 'moderation.spam', 'moderation.duplicate',
+    'moderation.tooFast', 'moderation.unknownTraveler', 'moderation.closedThread'
+];
+
+// Undo common letter substitutions (sh1t, $hit) before matching
+const normalizeForModeration = (text: string): string =>
+    text.toLowerCase().replace(/[013457@$]/g, c => ({ '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' }[c] || c));
+
+const isShouting = (text: string): boolean => {
+    const letters = text.replace(/[^\p{L}]/gu, '');
+    // Scripts without case (e.g. Devanagari) are never shouting
+    return letters.length > 20 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+};
+
+// Returns the reasons a post would be rejected; empty when it may be sent
+export const checkSuggestion = (text: string, recentTexts: string[] = [], locale: Locale = DEFAULT_LOCALE): string[] => {
+    const body = text.trim();
+    const problems: TranslationKey[] = [];
+
+    if (body.length < SUGGESTION_MIN_LENGTH || body.length > SUGGESTION_MAX_LENGTH) problems.push('moderation.length');
+    const normalized = normalizeForModeration(body);
+    if (BLOCKED_TERMS.some(term => new RegExp(`(^|[^a-z])${term}`).test(normalized))) problems.push('moderation.civil');
+    if (LINK_PATTERN.test(body)) problems.push('moderation.links');
+    if (REPEATED_CHARACTER_PATTERN.test(body) || isShouting(body)) problems.push('moderation.spam');
+    if (recentTexts.some(recent => recent.trim().toLowerCase() === body.toLowerCase())) problems.push('moderation.duplicate');
+    return problems.map(key => translate(locale, key, LENGTH_LIMITS));
+};
+
+// A refusal from the database in the traveler's language; reasons it does not know are shown as sent
+export const translateServerProblem = (message: string, locale: Locale = DEFAULT_LOCALE): string => {
+    const key = SERVER_PROBLEMS.find(k => translate(DEFAULT_LOCALE, k, LENGTH_LIMITS) === message);
+    return key ? translate(locale, key, LENGTH_LIMITS) : message;
+};
+
+// --- Posting rate (per traveler, per browser) ---
+
+const POST_LOG_KEY = 'timension_post_log';
+
+const readPostLog = (): Record<string, number[]> => {
+    try {
+        return JSON.parse(localStorage.getItem(POST_LOG_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+// A reason to wait, or null when the traveler may post now
+export const checkPostingRate = (travelerId: string, locale: Locale = DEFAULT_LOCALE, now = Date.now()): string | null => {
+    const posts = readPostLog()[travelerId] || [];
+    const inBurst = posts.filter(t => now - t < BURST_WINDOW_MS).length;
+    const inDay = posts.filter(t => now - t < DAY_MS).length;
+    if (inBurst >= POSTS_PER_BURST || inDay >= POSTS_PER_DAY) {
+        return translate(locale, 'moderation.tooFast');
+    }
+    return null;
+};
+
+export const recordPost = (travelerId: string, now = Date.now()) => {
+    const log = readPostLog();
+    const recent = (log[travelerId] || []).filter(t => now - t < DAY_MS);
+    try {
+        localStorage.setItem(POST_LOG_KEY, JSON.stringify({ ...log, [travelerId]: [...recent, now] }));
+    } catch (e) {
+        console.warn("Failed to write post log to localStorage", e);
+    }
+};
@@ -0,0 +1,342 @@
+import { AlternateHistoryResult, FrontPageStory, NewsArticle } from '../types';
+
+// Composes headlines and simulation results into a printable broadsheet and downloads it as PNG or PDF.
+// Everything is drawn on a canvas in the browser; the PDF simply wraps the rendered page as a JPEG.
+
+// A4 at 150dpi
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 70;
+const GUTTER = 30;
+const PDF_PAGE_POINTS = [595.28, 841.89];
+
+export const MAX_FRONT_PAGE_STORIES = 4;
+
+const PAPER = '#e8dfc8';
+const INK = '#2b2218';
+const FONTS = {
+  masthead: '900 150px "Playfair Display", serif',
+  leadHeadline: '900 64px "Playfair Display", serif',
+  headline: '700 32px "Playfair Display", serif',
+  dateline: '700 20px "Playfair Display", serif',
+  leadBody: '24px "IM Fell English", serif',
+  body: '20px "IM Fell English", serif',
+  mono: '16px "Courier Prime", monospace',
+};
+
+// --- Story Builders ---
+
+export const storyFromArticle = (article: NewsArticle): FrontPageStory => ({
+  id: `article:${article.headline}|${article.date}`,
+  headline: article.headline,
+  date: article.date,
+  weather: article.weather,
+  paragraphs: [article.content],
+  imageUrl: article.imageUrl,
+});
+
+export const storyFromSimulation = (result: AlternateHistoryResult & { id?: string }, event?: string): FrontPageStory => ({
+  id: `simulation:${result.id || result.finalHeadline}`,
+  kicker: event ? `What if: ${event}` : 'Timeline Divergence Confirmed',
+  headline: result.finalHeadline,
+  date: `An Alternate ${new Date().getFullYear()}`,
+  paragraphs: result.timelineSteps,
+  imageUrl: result.imageUrl,
+});
+
+// --- Press Tray (stories queued for a combined front page) ---
+
+let pressTray: FrontPageStory[] = [];
+const trayListeners = new Set<(tray: FrontPageStory[]) => void>();
+
+const notifyTray = () => trayListeners.forEach(listener => listener(pressTray));
+
+export const getPressTray = (): FrontPageStory[] => pressTray;
+
+// Returns false when the front page is already full
+export const addToPressTray = (story: FrontPageStory): boolean => {
+  if (pressTray.some(s => s.id === story.id)) return true;
+  if (pressTray.length >= MAX_FRONT_PAGE_STORIES) return false;
+  pressTray = [...pressTray, story];
+  notifyTray();
+  return true;
+};
+
+export const removeFromPressTray = (storyId: string) => {
+  pressTray = pressTray.filter(s => s.id !== storyId);
+  notifyTray();
+};
+
+export const clearPressTray = () => {
+  pressTray = [];
+  notifyTray();
+};
+
+export const onPressTrayChange = (callback: (tray: FrontPageStory[]) => void): (() => void) => {
+  trayListeners.add(callback);
+  return () => { trayListeners.delete(callback); };
+};
+
+// --- Drawing Helpers ---
+
+// Generated images are data URLs; remote fallbacks need CORS or they would taint the canvas
+const loadImage = (url?: string): Promise<HTMLImageElement | null> => new Promise(resolve => {
+  if (!url) return resolve(null);
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => {
+    console.warn("Front page image could not be loaded", url.slice(0, 80));
+    resolve(null);
+  };
+  img.src = url;
+});
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Draws centered wrapped text and returns the y below it
+const drawCentered = (ctx: CanvasRenderingContext2D, text: string, font: string, lineHeight: number, x: number, y: number, width: number): number => {
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  for (const line of wrapText(ctx, text, width)) {
+    y += lineHeight;
+    ctx.fillText(line, x + width / 2, y);
+  }
+  ctx.textAlign = 'left';
+  return y;
+};
+
+const drawRule = (ctx: CanvasRenderingContext2D, y: number, weight = 2, double = false) => {
+  ctx.fillRect(MARGIN, y, PAGE_WIDTH - MARGIN * 2, weight);
+  if (double) ctx.fillRect(MARGIN, y + weight + 4, PAGE_WIDTH - MARGIN * 2, weight);
+};
+
+// Crops the image to fill the frame, in the grainy monochrome of the on-screen edition
+const drawPhoto = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.max(w / img.width, h / img.height);
+  const sw = w / scale;
+  const sh = h / scale;
+  ctx.save();
+  ctx.filter = 'grayscale(100%) sepia(30%) contrast(1.2)';
+  ctx.drawImage(img, (img.width - sw) / 2, (img.height - sh) / 2, sw, sh, x, y, w, h);
+  ctx.restore();
+  ctx.lineWidth = 4;
+  ctx.strokeRect(x, y, w, h);
+};
+
+// Flows paragraphs down a set of columns, truncating with an ellipsis when they run out of room
+const flowColumns = (
+  ctx: CanvasRenderingContext2D,
+  paragraphs: string[],
+  font: string,
+  lineHeight: number,
+  columns: { x: number; width: number }[],
+  top: number,
+  bottom: number
+) => {
+  ctx.font = font;
+  const lines = paragraphs.flatMap((p, i) => [...(i > 0 ? [''] : []), ...wrapText(ctx, p, columns[0].width)]);
+  const perColumn = Math.max(1, Math.floor((bottom - top) / lineHeight));
+  const capacity = perColumn * columns.length;
+  if (lines.length > capacity) {
+    lines.length = capacity;
+    lines[capacity - 1] = `${lines[capacity - 1].replace(/\s*\S*$/, '')}…`;
+  }
+  lines.forEach((line, i) => {
+    const column = columns[Math.floor(i / perColumn)];
+    ctx.fillText(line, column.x, top + (i % perColumn + 1) * lineHeight);
+  });
+};
+
+const splitColumns = (x: number, width: number, count: number) => {
+  const columnWidth = (width - GUTTER * (count - 1)) / count;
+  return Array.from({ length: count }, (_, i) => ({ x: x + i * (columnWidth + GUTTER), width: columnWidth }));
+};
+
+// --- Page Composition ---
+
+const drawMasthead = (ctx: CanvasRenderingContext2D, lead: FrontPageStory): number => {
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  let y = MARGIN;
+
+  ctx.font = FONTS.mono;
+  ctx.fillText('VOL. XCVIII', MARGIN, y + 16);
+  ctx.textAlign = 'center';
+  ctx.fillText('THE VOICE OF HISTORY', PAGE_WIDTH / 2, y + 16);
+  ctx.textAlign = 'right';
+  ctx.fillText('PRICE: 2¢', PAGE_WIDTH - MARGIN, y + 16);
+  ctx.textAlign = 'left';
+  y += 30;
+  drawRule(ctx, y, 1);
+
+  y = drawCentered(ctx, 'TIMENSION', FONTS.masthead, 150, MARGIN, y - 10, contentWidth) + 24;
+  drawRule(ctx, y, 3, true);
+  y += 40;
+
+  ctx.font = FONTS.dateline;
+  ctx.fillText(lead.date.toUpperCase(), MARGIN + 10, y);
+  if (lead.weather) {
+    ctx.textAlign = 'right';
+    ctx.fillText(lead.weather.toUpperCase(), PAGE_WIDTH - MARGIN - 10, y);
+    ctx.textAlign = 'left';
+  }
+  y += 16;
+  drawRule(ctx, y, 3, true);
+  return y + 30;
+};
+
+const drawLead = async (ctx: CanvasRenderingContext2D, story: FrontPageStory, top: number, bottom: number) => {
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  let y = top;
+
+  if (story.kicker) y = drawCentered(ctx, story.kicker.toUpperCase(), FONTS.mono, 22, MARGIN, y, contentWidth) + 8;
+  y = drawCentered(ctx, story.headline.toUpperCase(), FONTS.leadHeadline, 68, MARGIN, y, contentWidth) + 24;
+
+  const img = await loadImage(story.imageUrl);
+  if (img) {
+    const height = Math.min(560, (bottom - y) / 2);
+    drawPhoto(ctx, img, MARGIN, y, contentWidth, height);
+    y += height + 24;
+  }
+
+  flowColumns(ctx, story.paragraphs, FONTS.leadBody, 32, splitColumns(MARGIN, contentWidth, 3), y, bottom);
+};
+
+const drawSecondary = async (ctx: CanvasRenderingContext2D, story: FrontPageStory, x: number, width: number, top: number, bottom: number) => {
+  let y = top;
+  if (story.kicker) y = drawCentered(ctx, story.kicker.toUpperCase(), FONTS.mono, 20, x, y, width) + 4;
+  y = drawCentered(ctx, story.headline.toUpperCase(), FONTS.headline, 36, x, y, width) + 8;
+  ctx.font = FONTS.mono;
+  ctx.textAlign = 'center';
+  ctx.fillText(story.date.toUpperCase(), x + width / 2, y + 16);
+  ctx.textAlign = 'left';
+  y += 32;
+
+  const img = await loadImage(story.imageUrl);
+  if (img) {
+    const height = Math.min(width * 0.75, (bottom - y) / 2);
+    drawPhoto(ctx, img, x, y, width, height);
+    y += height + 16;
+  }
+
+  flowColumns(ctx, story.paragraphs, FONTS.body, 26, [{ x, width }], y, bottom);
+};
+
+// Lays out the first story as the lead across the full width and the rest side by side beneath it
+export const renderFrontPage = async (stories: FrontPageStory[]): Promise<HTMLCanvasElement> => {
+  if (!stories.length) throw new Error("Nothing to print: the front page has no stories.");
+  const [lead, ...others] = stories.slice(0, MAX_FRONT_PAGE_STORIES);
+
+  // Canvas text silently falls back to a default face if the web fonts have not loaded yet
+  await Promise.all(Object.values(FONTS).map(font => document.fonts.load(font).catch(() => [])));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH;
+  canvas.height = PAGE_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+
+  ctx.fillStyle = PAPER;
+  ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+  ctx.fillStyle = INK;
+  ctx.strokeStyle = INK;
+  ctx.textBaseline = 'alphabetic';
+
+  const top = drawMasthead(ctx, lead);
+  const bottom = PAGE_HEIGHT - MARGIN;
+  // With companions the lead keeps a little over half of the page
+  const leadBottom = others.length ? top + Math.round((bottom - top) * 0.55) : bottom;
+  await drawLead(ctx, lead, top, leadBottom);
+
+  if (others.length) {
+    drawRule(ctx, leadBottom + 12, 3, true);
+    const columns = splitColumns(MARGIN, PAGE_WIDTH - MARGIN * 2, others.length);
+    for (const [i, story] of others.entries()) {
+      await drawSecondary(ctx, story, columns[i].x, columns[i].width, leadBottom + 36, bottom);
+      if (i > 0) ctx.fillRect(columns[i].x - GUTTER / 2, leadBottom + 40, 1, bottom - leadBottom - 40);
+    }
+  }
+
+  return canvas;
+};
+
+// --- Export ---
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'edition';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("The press jammed: could not encode the page.")), type, quality);
+});
+
+// Minimal single-page PDF with the rendered page embedded as a full-bleed JPEG
+const buildPdf = (jpeg: Uint8Array, width: number, height: number): Blob => {
+  const encoder = new TextEncoder();
+  const [pageW, pageH] = PDF_PAGE_POINTS;
+  const content = `q ${pageW} 0 0 ${pageH} 0 0 cm /Im0 Do Q`;
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageW} ${pageH}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [`<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`, jpeg, '\nendstream'],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+  ];
+
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    offset += bytes.length;
+  };
+
+  push('%PDF-1.4\n');
+  const offsets = objects.map((body, i) => {
+    const start = offset;
+    push(`${i + 1} 0 obj\n`);
+    body.forEach(push);
+    push('\nendobj\n');
+    return start;
+  });
+  const xrefStart = offset;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(o => push(`${String(o).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefStart}\n%%EOF`);
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+};
+
+export const exportFrontPage = async (stories: FrontPageStory[], format: 'png' | 'pdf'): Promise<void> => {
+  const canvas = await renderFrontPage(stories);
+  const filename = `timension-${slugify(stories[0].headline)}.${format}`;
+
+  if (format === 'png') {
+    downloadBlob(await canvasToBlob(canvas, 'image/png'), filename);
+    return;
+  }
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  downloadBlob(buildPdf(jpeg, canvas.width, canvas.height), filename);
+};
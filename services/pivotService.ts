@@ -0,0 +1,105 @@
+import { supabase } from './supabaseClient';
+import { Locale, PivotCatalog, PivotFilter, PivotPoint } from '../types';
+import { DEFAULT_LOCALE, translate, TranslationKey } from './i18nService';
+import seedCatalog from '../data/pivots.json';
+
+// Bundled catalog ships with the app so the Simulation works even without a database
+export const getSeedCatalog = (): PivotCatalog => seedCatalog as PivotCatalog;
+
+const mapPivot = (item: any): PivotPoint => ({
+    id: item.id,
+    event: item.event,
+    year: item.year,
+    originalOutcome: item.original_outcome,
+    image: item.image,
+    imagePrompt: item.image_prompt || undefined,
+    era: item.era,
+    region: item.region,
+    themes: item.themes || [],
+    version: item.version
+});
+
+// Merges database rows over the seed; a row only replaces a seed entry when its version is at least as new
+export const fetchPivotCatalog = async (): Promise<PivotCatalog> => {
+    const seed = getSeedCatalog();
+    try {
+        const { data, error } = await supabase
+            .from('pivot_points')
+            .select('*')
+            .order('year', { ascending: true });
+
+        if (error) throw error;
+
+        const merged = new Map<string, PivotPoint>(seed.pivots.map(p => [p.id, { ...p, version: seed.version }]));
+        for (const row of data.map(mapPivot)) {
+            const existing = merged.get(row.id);
+            if (!existing || (row.version || 0) >= (existing.version || 0)) merged.set(row.id, row);
+        }
+
+        const pivots = Array.from(merged.values()).sort((a, b) => parseInt(a.year) - parseInt(b.year));
+        const version = Math.max(seed.version, ...pivots.map(p => p.version || 0));
+        return { version, pivots };
+    } catch (e) {
+        console.warn("Failed to fetch pivot catalog from Supabase, using bundled seed", e);
+        return seed;
+    }
+};
+
+export const savePivot = async (pivot: PivotPoint): Promise<boolean> => {
+    try {
+        const { error } = await supabase
+            .from('pivot_points')
+            .upsert([{
+                id: pivot.id,
+                event: pivot.event,
+                year: pivot.year,
+                original_outcome: pivot.originalOutcome,
+                image: pivot.image,
+                image_prompt: pivot.imagePrompt || null,
+                era: pivot.era,
+                region: pivot.region,
+                themes: pivot.themes,
+                version: pivot.version || 1,
+                updated_at: new Date().toISOString()
+            }]);
+
+        if (error) throw error;
+        return true;
+    } catch (e) {
+        console.error("Failed to save pivot point", e);
+        return false;
+    }
+};
+
+// Returns a list of human-readable problems; an empty list means the event is ready to save
+export const validatePivot = (pivot: PivotPoint, existingIds: string[] = [], locale: Locale = DEFAULT_LOCALE): string[] => {
+    const errors: TranslationKey[] = [];
+    if (!/^[a-z0-9-]+$/.test(pivot.id)) errors.push('validation.idFormat');
+    if (existingIds.includes(pivot.id)) errors.push('validation.idTaken');
+    if (!pivot.event.trim()) errors.push('validation.eventRequired');
+    if (!/^-?\d{1,4}$/.test(pivot.year.trim())) errors.push('validation.yearFormat');
+    if (!pivot.originalOutcome.trim()) errors.push('validation.outcomeRequired');
+    if (!pivot.era.trim()) errors.push('validation.eraRequired');
+    if (!pivot.region.trim()) errors.push('validation.regionRequired');
+    return errors.map(key => translate(locale, key, { id: pivot.id }));
+};
+
+export const filterPivots = (pivots: PivotPoint[], filter: PivotFilter): PivotPoint[] => {
+    const query = filter.query.trim().toLowerCase();
+    return pivots.filter(p =>
+        (!filter.era || p.era === filter.era) &&
+        (!filter.region || p.region === filter.region) &&
+        (!filter.theme || p.themes.includes(filter.theme)) &&
+        (!query || [p.event, p.year, p.originalOutcome, ...p.themes].some(field => field.toLowerCase().includes(query)))
+    );
+};
+
+// Distinct tag values, used to build the filter controls
+export const getPivotFacets = (pivots: PivotPoint[]) => ({
+    eras: Array.from(new Set(pivots.map(p => p.era))),
+    regions: Array.from(new Set(pivots.map(p => p.region))).sort(),
+    themes: Array.from(new Set(pivots.flatMap(p => p.themes))).sort()
+});
+
+export const getPivotImagePrompt = (pivot: PivotPoint): string =>
+    pivot.imagePrompt || `${pivot.event}, ${pivot.year}, vintage black and white news photo`;
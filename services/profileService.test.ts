@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CHRONOSCOPE_DIAL_STEPS, dialToYear, formatEraYear, parseEraYear, yearToDial } from './profileService';
+
+describe('formatEraYear', () => {
+  it('writes modern years bare and early ones with their era', () => {
+    expect(formatEraYear(1920)).toBe('1920');
+    expect(formatEraYear(100)).toBe('100 CE');
+    expect(formatEraYear(-500)).toBe('500 BCE');
+  });
+
+  it('is read back by parseEraYear', () => {
+    for (const year of [-3000, -500, 1, 100, 999, 1000, 1920]) {
+      expect(parseEraYear(formatEraYear(year))).toBe(year);
+    }
+  });
+});
+
+describe('era dial', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs from 3000 BCE to the present', () => {
+    expect(dialToYear(0)).toBe(-3000);
+    expect(dialToYear(CHRONOSCOPE_DIAL_STEPS)).toBe(2025);
+  });
+
+  it('only moves forward in time and skips year zero', () => {
+    let previous = -Infinity;
+    for (let position = 0; position <= CHRONOSCOPE_DIAL_STEPS; position++) {
+      const year = dialToYear(position);
+      expect(year).not.toBe(0);
+      expect(year).toBeGreaterThanOrEqual(previous);
+      previous = year;
+    }
+  });
+
+  it('rounds to centuries in antiquity and to single years near the present', () => {
+    expect(Math.abs(dialToYear(100) % 100)).toBe(0);
+    expect(dialToYear(CHRONOSCOPE_DIAL_STEPS - 1)).toBe(2025);
+    expect(dialToYear(CHRONOSCOPE_DIAL_STEPS - 120)).toBe(2016);
+  });
+
+  it('puts a year back on the notch that selects it', () => {
+    for (const year of [100, 1200, 1500, 1850, 1920, 2000]) {
+      expect(Math.abs(dialToYear(yearToDial(year)) - year)).toBeLessThanOrEqual(year < 1000 ? 100 : 10);
+    }
+  });
+
+  it('keeps future years at the end of the dial', () => {
+    expect(yearToDial(2025)).toBe(CHRONOSCOPE_DIAL_STEPS);
+    expect(yearToDial(2500)).toBe(CHRONOSCOPE_DIAL_STEPS);
+  });
+});
@@ -0,0 +1,322 @@
+import { supabase } from './supabaseClient';
+import { Artifact, EarnedArtifact, Locale, RankConfig, TravelerCounter, TravelerEvent, TravelerProfile, TravelerProgress, TravelerSession } from '../types';
+import { evaluateArtifactRules, resolveArtifacts } from './artifactService';
+import { isLocale } from './i18nService';
+import rankConfig from '../data/ranks.json';
+
+// --- Local Fallback (used when the database is unreachable) ---
+
+const LOCAL_STORAGE_KEY = 'timension_traveler_profiles';
+
+const readLocal = (): Record<string, TravelerProfile> => {
+    try {
+        return JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const writeLocal = (travelerId: string, profile: TravelerProfile) => {
+    try {
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify({ ...readLocal(), [travelerId]: profile }));
+    } catch (e) {
+        console.warn("Failed to write profile to localStorage", e);
+    }
+};
+
+// --- Rank ---
+
+export const getRankConfig = (): RankConfig => rankConfig as RankConfig;
+
+export const computeRank = (counters: Record<TravelerCounter, number>, config: RankConfig = getRankConfig()): string => {
+    const score = (Object.keys(config.weights) as TravelerCounter[])
+        .reduce((total, key) => total + (counters[key] || 0) * config.weights[key], 0);
+    const earned = [...config.ranks]
+        .sort((a, b) => b.minScore - a.minScore)
+        .find(rank => score >= rank.minScore);
+    return earned?.title || config.ranks[0].title;
+};
+
+// --- Era Helpers ---
+
+// Turns era labels like "1921", "500 BCE" or "c. 1200 AD" into a signed year (negative for BCE)
+export const parseEraYear = (era: string): number | null => {
+    const match = era.match(/(\d{1,4})\s*(BCE|BC|CE|AD)?/i);
+    if (!match) return null;
+    const year = parseInt(match[1], 10);
+    return match[2] && /^BC/i.test(match[2]) ? -year : year;
+};
+
+// Inverse of parseEraYear: 1920 -> "1920", 100 -> "100 CE", -500 -> "500 BCE"
+export const formatEraYear = (year: number): string => {
+    if (year < 0) return `${-year} BCE`;
+    return year < 1000 ? `${year} CE` : String(year);
+};
+
+// The Chronoscope's era dial runs from the Bronze Age to today, with finer steps the closer it gets to the present
+const CHRONOSCOPE_EARLIEST_YEAR = -3000;
+export const CHRONOSCOPE_DIAL_STEPS = 1000;
+
+export const dialToYear = (position: number): number => {
+    const present = new Date().getFullYear();
+    const yearsAgo = (present - CHRONOSCOPE_EARLIEST_YEAR) * Math.pow(1 - position / CHRONOSCOPE_DIAL_STEPS, 3);
+    const step = yearsAgo > 1500 ? 100 : yearsAgo > 300 ? 10 : 1;
+    const year = Math.round((present - yearsAgo) / step) * step;
+    // There is no year zero
+    return year === 0 ? 1 : year;
+};
+
+export const yearToDial = (year: number): number => {
+    const present = new Date().getFullYear();
+    const fraction = Math.max(0, present - year) / (present - CHRONOSCOPE_EARLIEST_YEAR);
+    return Math.round((1 - Math.cbrt(fraction)) * CHRONOSCOPE_DIAL_STEPS);
+};
+
+// Whole centuries between the traveler's present and the destination (at least one per trip)
+export const centuriesBetween = (eraYear: number | null): number => {
+    if (eraYear === null) return 1;
+    return Math.max(1, Math.round(Math.abs(new Date().getFullYear() - eraYear) / 100));
+};
+
+// --- Mapping ---
+
+const emptyProgress = (): TravelerProgress => ({ mentorsVisited: [], locationsExplored: [], simulationsRun: 0 });
+
+const buildProfile = (
+    email: string,
+    counters: Record<TravelerCounter, number>,
+    inventory: EarnedArtifact[],
+    progress: TravelerProgress,
+    joinDate: string
+): TravelerProfile => ({
+    email,
+    stats: {
+        rank: computeRank(counters),
+        ...counters,
+        joinDate
+    },
+    inventory,
+    progress
+});
+
+const mapProfile = (item: any): TravelerProfile => buildProfile(
+    item.email,
+    {
+        centuriesTraversed: item.centuries_traversed,
+        paradoxesCaused: item.paradoxes_caused,
+        artifactsFound: item.artifacts_found,
+        majorDiscoveries: item.major_discoveries
+    },
+    resolveArtifacts((item.traveler_artifacts || []).map((row: any) => ({
+        artifactId: row.artifact_id,
+        earnedAt: new Date(row.earned_at).getTime()
+    }))),
+    { ...emptyProgress(), ...item.progress },
+    item.join_date
+);
+
+const newProfile = (email: string): TravelerProfile => buildProfile(
+    email,
+    { centuriesTraversed: 0, paradoxesCaused: 0, artifactsFound: 0, majorDiscoveries: 0 },
+    [],
+    emptyProgress(),
+    new Date().toISOString().slice(0, 10)
+);
+
+const getCounters = (profile: TravelerProfile): Record<TravelerCounter, number> => ({
+    centuriesTraversed: profile.stats.centuriesTraversed,
+    paradoxesCaused: profile.stats.paradoxesCaused,
+    artifactsFound: profile.stats.artifactsFound,
+    majorDiscoveries: profile.stats.majorDiscoveries
+});
+
+const applyEvent = (progress: TravelerProgress, event?: TravelerEvent): TravelerProgress => {
+    if (!event) return progress;
+    switch (event.type) {
+        case 'mentor':
+            return progress.mentorsVisited.includes(event.mentorId)
+                ? progress
+                : { ...progress, mentorsVisited: [...progress.mentorsVisited, event.mentorId] };
+        case 'location': {
+            const location = event.location.trim().toLowerCase();
+            return progress.locationsExplored.includes(location)
+                ? progress
+                : { ...progress, locationsExplored: [...progress.locationsExplored, location] };
+        }
+        case 'simulation':
+            return { ...progress, simulationsRun: progress.simulationsRun + 1 };
+    }
+};
+
+// --- Public API ---
+
+// Loads the traveler's profile, creating a fresh one on first visit
+export const fetchProfile = async (session: TravelerSession): Promise<TravelerProfile> => {
+    try {
+        const { data, error } = await supabase
+            .from('traveler_profiles')
+            .select('*, traveler_artifacts(artifact_id, earned_at)')
+            .eq('traveler_id', session.userId)
+            .maybeSingle();
+
+        if (error) throw error;
+        if (data) return mapProfile(data);
+
+        const { data: created, error: insertError } = await supabase
+            .from('traveler_profiles')
+            .insert([{ traveler_id: session.userId, email: session.email }])
+            .select()
+            .single();
+
+        if (insertError) throw insertError;
+        return mapProfile(created);
+    } catch (e) {
+        console.warn("Failed to fetch profile from Supabase, using local dossier", e);
+        const local = readLocal()[session.userId];
+        if (local) return { ...local, progress: { ...emptyProgress(), ...local.progress } };
+        const profile = newProfile(session.email);
+        writeLocal(session.userId, profile);
+        return profile;
+    }
+};
+
+// --- Awards ---
+
+const awardListeners = new Set<(awarded: Artifact[]) => void>();
+
+// Called with every batch of newly stored artifacts, e.g. to announce them
+export const onArtifactsAwarded = (callback: (awarded: Artifact[]) => void): (() => void) => {
+    awardListeners.add(callback);
+    return () => { awardListeners.delete(callback); };
+};
+
+type ActivityDelta = Partial<Record<TravelerCounter, number>>;
+type ActivityResult = { profile: TravelerProfile; awarded: Artifact[] };
+
+// Counters and progress are added to by record_traveler_activity (migrations/traveler_activity.sql),
+// so concurrent calls cannot overwrite each other. Artifacts count as awarded only once they are stored:
+// duplicates are ignored by the database, and one that fails to store is simply awarded next time.
+const recordRemotely = async (session: TravelerSession, delta: ActivityDelta, event?: TravelerEvent): Promise<ActivityResult> => {
+    const { data: row, error } = await supabase.rpc('record_traveler_activity', {
+        p_traveler_id: session.userId,
+        p_email: session.email,
+        p_centuries: delta.centuriesTraversed || 0,
+        p_paradoxes: delta.paradoxesCaused || 0,
+        p_discoveries: delta.majorDiscoveries || 0,
+        p_event: event || null
+    });
+    if (error) throw error;
+
+    const { data: owned, error: ownedError } = await supabase
+        .from('traveler_artifacts')
+        .select('artifact_id, earned_at')
+        .eq('traveler_id', session.userId);
+    if (ownedError) throw ownedError;
+
+    const current = mapProfile({ ...row, traveler_artifacts: owned });
+    const qualified = await evaluateArtifactRules(current);
+    if (!qualified.length) return { profile: current, awarded: [] };
+
+    const { data: stored, error: artifactError } = await supabase
+        .from('traveler_artifacts')
+        .upsert(qualified.map(a => ({ traveler_id: session.userId, artifact_id: a.id })), { onConflict: 'traveler_id,artifact_id', ignoreDuplicates: true })
+        .select('artifact_id, earned_at');
+    if (artifactError) {
+        console.warn("Failed to store earned artifacts, they will be awarded on the next activity", artifactError);
+        return { profile: current, awarded: [] };
+    }
+
+    const earned = resolveArtifacts((stored || []).map((r: any) => ({ artifactId: r.artifact_id, earnedAt: new Date(r.earned_at).getTime() })));
+    const counters = getCounters(current);
+    counters.artifactsFound += earned.length;
+    return {
+        profile: buildProfile(current.email, counters, [...current.inventory, ...earned], current.progress, current.stats.joinDate),
+        awarded: qualified.filter(a => earned.some(e => e.id === a.id))
+    };
+};
+
+const recordLocally = async (session: TravelerSession, delta: ActivityDelta, event?: TravelerEvent): Promise<ActivityResult> => {
+    const current = await fetchProfile(session);
+    const counters = getCounters(current);
+    (Object.keys(delta) as TravelerCounter[]).forEach(key => {
+        counters[key] += delta[key] || 0;
+    });
+    const progress = applyEvent(current.progress, event);
+
+    // Evaluate milestones against the updated numbers, then count the new finds too
+    const pending = buildProfile(current.email, counters, current.inventory, progress, current.stats.joinDate);
+    const awarded = await evaluateArtifactRules(pending);
+    const now = Date.now();
+    counters.artifactsFound += awarded.length;
+    const inventory = [...current.inventory, ...awarded.map(a => ({ ...a, earnedAt: now }))];
+    const updated = buildProfile(current.email, counters, inventory, progress, current.stats.joinDate);
+    writeLocal(session.userId, updated);
+    return { profile: updated, awarded };
+};
+
+// Adds to stat counters and milestone progress, then awards any artifacts the traveler now qualifies for.
+// e.g. recordActivity(session, { paradoxesCaused: 1 }, { type: 'simulation' })
+export const recordActivity = async (
+    session: TravelerSession,
+    delta: ActivityDelta,
+    event?: TravelerEvent
+): Promise<ActivityResult> => {
+    let result: ActivityResult;
+    try {
+        result = await recordRemotely(session, delta, event);
+    } catch (e) {
+        console.warn("Failed to record activity in Supabase, saving locally", e);
+        result = await recordLocally(session, delta, event);
+    }
+    if (result.awarded.length) awardListeners.forEach(listener => listener(result.awarded));
+    return result;
+};
+
+// --- Language ---
+
+const LOCALE_STORAGE_KEY = 'timension_traveler_locales';
+
+const readLocalLocales = (): Record<string, Locale> => {
+    try {
+        return JSON.parse(localStorage.getItem(LOCALE_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+// The traveler's chosen language, or null if they have never picked one
+export const fetchTravelerLocale = async (session: TravelerSession): Promise<Locale | null> => {
+    try {
+        const { data, error } = await supabase
+            .from('traveler_profiles')
+            .select('locale')
+            .eq('traveler_id', session.userId)
+            .maybeSingle();
+
+        if (error) throw error;
+        if (data && isLocale(data.locale)) return data.locale;
+    } catch (e) {
+        console.warn("Failed to fetch language from Supabase, using local choice", e);
+    }
+    const local = readLocalLocales()[session.userId];
+    return isLocale(local) ? local : null;
+};
+
+export const saveTravelerLocale = async (session: TravelerSession, locale: Locale) => {
+    try {
+        localStorage.setItem(LOCALE_STORAGE_KEY, JSON.stringify({ ...readLocalLocales(), [session.userId]: locale }));
+    } catch (e) {
+        console.warn("Failed to write language to localStorage", e);
+    }
+
+    try {
+        // Upsert, since the profile row may not have been created yet
+        const { error } = await supabase
+            .from('traveler_profiles')
+            .upsert({ traveler_id: session.userId, email: session.email, locale }, { onConflict: 'traveler_id' });
+
+        if (error) throw error;
+    } catch (e) {
+        console.warn("Failed to save language to Supabase, kept locally", e);
+    }
+};
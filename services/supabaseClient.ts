@@ -16,5 +16,5 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 // Helper to check if auth is configured
 export const isAuthConfigured = () => {
   // Ensure we aren't using a placeholder and have a valid URL structure
-  return supabaseUrl && supabaseUrl !== 'https://placeholder.supabase.co';
+  return !!supabaseUrl && supabaseUrl !== 'https://placeholder.supabase.co';
 };
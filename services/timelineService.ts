@@ -0,0 +1,73 @@
+import { AlternateHistoryResult, TimelineNode, TimelineTree } from '../types';
+
+const createNode = (
+  result: AlternateHistoryResult,
+  change: string,
+  context: string,
+  parentId: string | null,
+  branchStepIndex: number | null
+): TimelineNode => ({
+  ...result,
+  id: `node-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  parentId,
+  branchStepIndex,
+  change,
+  context,
+  createdAt: Date.now()
+});
+
+export const createTimelineTree = (
+  event: string,
+  originalOutcome: string,
+  change: string,
+  result: AlternateHistoryResult
+): TimelineTree => {
+  const context = `Historical Event: "${event}"\nOriginal Outcome: "${originalOutcome}"`;
+  const root = createNode(result, change, context, null, null);
+  return { event, originalOutcome, rootId: root.id, nodes: { [root.id]: root } };
+};
+
+export const addBranch = (
+  tree: TimelineTree,
+  parentId: string,
+  branchStepIndex: number,
+  change: string,
+  context: string,
+  result: AlternateHistoryResult
+): { tree: TimelineTree; node: TimelineNode } => {
+  const node = createNode(result, change, context, parentId, branchStepIndex);
+  return { tree: { ...tree, nodes: { ...tree.nodes, [node.id]: node } }, node };
+};
+
+// Nodes from the root down to (and including) the given node
+export const getPath = (tree: TimelineTree, nodeId: string): TimelineNode[] => {
+  const path: TimelineNode[] = [];
+  let current: TimelineNode | undefined = tree.nodes[nodeId];
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? tree.nodes[current.parentId] : undefined;
+  }
+  return path;
+};
+
+export const getChildren = (tree: TimelineTree, nodeId: string): TimelineNode[] =>
+  Object.values(tree.nodes)
+    .filter(n => n.parentId === nodeId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+// Summarises the chain of changes and consequences leading up to a chosen step,
+// so a follow-up simulation continues from that exact moment instead of the original event.
+export const buildBranchContext = (tree: TimelineTree, nodeId: string, stepIndex: number): string => {
+  const path = getPath(tree, nodeId);
+  const lines = [`Historical Event: "${tree.event}"`, `Original Outcome: "${tree.originalOutcome}"`];
+
+  path.forEach((node, depth) => {
+    const isLast = depth === path.length - 1;
+    // Only the steps up to the branch point happened in this line of history
+    const cutoff = isLast ? stepIndex : (path[depth + 1].branchStepIndex ?? node.timelineSteps.length - 1);
+    lines.push(`Change #${depth + 1}: "${node.change}"`);
+    node.timelineSteps.slice(0, cutoff + 1).forEach(step => lines.push(`- ${step}`));
+  });
+
+  return lines.join('\n');
+};
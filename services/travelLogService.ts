@@ -0,0 +1,233 @@
+import { supabase } from './supabaseClient';
+import { ChronoscopeData, TravelerSession, TravelLogEntry } from '../types';
+import { getGazetteer } from './gazetteerService';
+
+// --- Local Fallback (used for guests and when the database is unreachable) ---
+
+const LOCAL_STORAGE_KEY = 'timension_travel_log';
+const LOCAL_ID_PREFIX = 'local-';
+
+interface LocalVisit extends TravelLogEntry {
+    data: ChronoscopeData;
+}
+
+const readLocal = (): LocalVisit[] => {
+    try {
+        return JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const writeLocal = (visits: LocalVisit[]) => {
+    try {
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(visits));
+    } catch (e) {
+        // Inline images can exceed the storage quota; they are still in the image cache
+        try {
+            localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(visits.map(v => ({
+                ...v,
+                data: { ...v.data, vintageMapUrl: undefined, historicalPhotos: undefined }
+            }))));
+        } catch {
+            console.warn("Failed to write travel log to localStorage", e);
+        }
+    }
+};
+
+const isLocalId = (visitId: string) => visitId.startsWith(LOCAL_ID_PREFIX);
+
+const stripData = ({ data, ...entry }: LocalVisit): TravelLogEntry => entry;
+
+const toLocationKey = (location: string) => location.trim().toLowerCase();
+
+const sortByRecent = (entries: TravelLogEntry[]) => entries.sort((a, b) => b.updatedAt - a.updatedAt);
+
+const saveLocally = (travelerId: string, data: ChronoscopeData): TravelLogEntry => {
+    const locationKey = toLocationKey(data.location);
+    const now = Date.now();
+    const visits = readLocal();
+    const existing = visits.find(v => v.travelerId === travelerId && toLocationKey(v.location) === locationKey && v.era === data.era);
+    const visit: LocalVisit = existing
+        ? { ...existing, location: data.location, updatedAt: now, data }
+        : { id: `${LOCAL_ID_PREFIX}${now}`, travelerId, location: data.location, era: data.era, favorite: false, visitedAt: now, updatedAt: now, data };
+    writeLocal([...visits.filter(v => v.id !== visit.id), visit]);
+    return stripData(visit);
+};
+
+// --- Images ---
+
+// Generated images arrive as data URLs. Each one is uploaded to the traveler's folder in the
+// "chronoscope-images" bucket once, and the visit row keeps only its public URL.
+const IMAGE_BUCKET = 'chronoscope-images';
+
+const uploadedImages = new Map<string, Promise<string | null>>();
+
+const uploadImage = async (travelerId: string, dataUrl: string): Promise<string | null> => {
+    if (!/^data:image\/[\w+.-]+;base64,/.test(dataUrl)) return null;
+
+    const blob = await (await fetch(dataUrl)).blob();
+    const path = `${travelerId}/${crypto.randomUUID()}`;
+    const { error } = await supabase.storage
+        .from(IMAGE_BUCKET)
+        .upload(path, blob, { contentType: blob.type });
+    if (error) throw error;
+    return supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+// A link (e.g. a fallback photo or an image already uploaded) is kept as it is.
+// An image that cannot be uploaded is left out of the row and tried again on the next save.
+const storeImage = (travelerId: string, imageUrl: string): Promise<string | null> => {
+    if (!imageUrl.startsWith('data:')) return Promise.resolve(imageUrl);
+
+    let stored = uploadedImages.get(imageUrl);
+    if (!stored) {
+        stored = uploadImage(travelerId, imageUrl).catch(e => {
+            console.warn("Failed to upload visit image, saving the visit without it", e);
+            uploadedImages.delete(imageUrl);
+            return null;
+        });
+        uploadedImages.set(imageUrl, stored);
+    }
+    return stored;
+};
+
+// --- Mapping ---
+
+const mapEntry = (item: any): TravelLogEntry => ({
+    id: item.id,
+    travelerId: item.traveler_id,
+    location: item.location,
+    era: item.era,
+    favorite: item.favorite,
+    visitedAt: new Date(item.visited_at).getTime(),
+    updatedAt: new Date(item.updated_at).getTime()
+});
+
+const mapData = (item: any): ChronoscopeData => ({
+    location: item.location,
+    era: item.era,
+    place: getGazetteer().find(place => place.id === item.place_id),
+    vintageMapUrl: item.vintage_map_url || undefined,
+    trivia: item.trivia || undefined,
+    historicalPhotos: item.historical_photos || undefined
+});
+
+// --- Public API ---
+
+export const listVisits = async (session: TravelerSession): Promise<TravelLogEntry[]> => {
+    const travelerId = session.userId;
+    const local = readLocal().filter(v => v.travelerId === travelerId).map(stripData);
+    if (session.isGuest) return sortByRecent(local);
+
+    try {
+        const { data, error } = await supabase
+            .from('chronoscope_visits')
+            .select('id, traveler_id, location, era, favorite, visited_at, updated_at')
+            .eq('traveler_id', travelerId)
+            .order('updated_at', { ascending: false })
+            .limit(100);
+
+        if (error) throw error;
+        return sortByRecent([...data.map(mapEntry), ...local]);
+    } catch (e) {
+        console.warn("Failed to fetch travel log from Supabase, using local log", e);
+        return sortByRecent(local);
+    }
+};
+
+export const loadVisit = async (visitId: string): Promise<ChronoscopeData | null> => {
+    if (isLocalId(visitId)) {
+        return readLocal().find(v => v.id === visitId)?.data || null;
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('chronoscope_visits')
+            .select('*')
+            .eq('id', visitId)
+            .single();
+
+        if (error) throw error;
+        return mapData(data);
+    } catch (e) {
+        console.error("Failed to load visit", e);
+        return null;
+    }
+};
+
+// Records the destination (and whatever has been generated for it so far).
+// Visiting the same place in the same era again updates the existing entry.
+// Guests have no account to file it under, so their travel log stays in this browser.
+export const saveVisit = async (session: TravelerSession, data: ChronoscopeData): Promise<TravelLogEntry | null> => {
+    const travelerId = session.userId;
+    if (session.isGuest) return saveLocally(travelerId, data);
+
+    try {
+        const [vintageMapUrl, ...historicalPhotos] = await Promise.all(
+            [data.vintageMapUrl, ...(data.historicalPhotos || [])].map(url => url ? storeImage(travelerId, url) : null)
+        );
+
+        const { data: saved, error } = await supabase
+            .from('chronoscope_visits')
+            .upsert({
+                traveler_id: travelerId,
+                location: data.location,
+                location_key: toLocationKey(data.location),
+                era: data.era,
+                place_id: data.place?.id || null,
+                vintage_map_url: vintageMapUrl,
+                trivia: data.trivia || null,
+                historical_photos: data.historicalPhotos ? historicalPhotos.filter(Boolean) : null,
+                updated_at: new Date().toISOString()
+            }, { onConflict: 'traveler_id,location_key,era' })
+            .select('id, traveler_id, location, era, favorite, visited_at, updated_at')
+            .single();
+
+        if (error) throw error;
+        return mapEntry(saved);
+    } catch (e) {
+        console.warn("Failed to save visit to Supabase, logging locally", e);
+        return saveLocally(travelerId, data);
+    }
+};
+
+export const setVisitFavorite = async (visitId: string, favorite: boolean): Promise<boolean> => {
+    if (isLocalId(visitId)) {
+        writeLocal(readLocal().map(v => v.id === visitId ? { ...v, favorite } : v));
+        return true;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('chronoscope_visits')
+            .update({ favorite })
+            .eq('id', visitId);
+
+        if (error) throw error;
+        return true;
+    } catch (e) {
+        console.error("Failed to update favorite", e);
+        return false;
+    }
+};
+
+export const deleteVisit = async (visitId: string): Promise<boolean> => {
+    if (isLocalId(visitId)) {
+        writeLocal(readLocal().filter(v => v.id !== visitId));
+        return true;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('chronoscope_visits')
+            .delete()
+            .eq('id', visitId);
+
+        if (error) throw error;
+        return true;
+    } catch (e) {
+        console.error("Failed to delete visit", e);
+        return false;
+    }
+};
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CallInfo, DEFAULT_USAGE_BUDGET, clearUsageLedger, getBudgetStatus, getUsageLedger, getUsageSummary, meterCall, onUsageChange, recordUsage, setUsageBudget } from './usageMeter';
+import { UsageBudget, UsageEntry } from '../types';
+
+// Node has no localStorage, so the meter keeps its ledger and budget in memory here
+
+const NOW = new Date('2025-06-01T12:00:00').getTime();
+
+const textCall: CallInfo = { provider: 'gemini', model: 'text-model', kind: 'text' };
+const imageCall: CallInfo = { provider: 'gemini', model: 'image-model', kind: 'image' };
+
+const entry = (overrides: Partial<UsageEntry> = {}): UsageEntry => ({
+  ...textCall, at: NOW, promptTokens: 0, outputTokens: 0, images: 0, latencyMs: 10, ok: true, ...overrides,
+});
+
+const budget = (overrides: Partial<UsageBudget>): UsageBudget => ({ ...DEFAULT_USAGE_BUDGET, ...overrides });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  clearUsageLedger();
+  setUsageBudget(DEFAULT_USAGE_BUDGET);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getBudgetStatus', () => {
+  it('leaves out metrics without a limit', () => {
+    recordUsage(entry());
+    expect(getBudgetStatus()).toEqual([]);
+    expect(getBudgetStatus(budget({ images: 5 })).map(s => s.metric)).toEqual(['images']);
+  });
+
+  it('warns from 80% of a limit and is over once it is reached', () => {
+    const limit = budget({ calls: 10 });
+    for (let i = 0; i < 7; i++) recordUsage(entry());
+    expect(getBudgetStatus(limit)[0]).toEqual({ metric: 'calls', used: 7, limit: 10, level: 'ok' });
+    recordUsage(entry());
+    expect(getBudgetStatus(limit)[0].level).toBe('warn');
+    recordUsage(entry());
+    recordUsage(entry());
+    expect(getBudgetStatus(limit)[0].level).toBe('over');
+  });
+
+  it('counts prompt and output tokens, and images, separately', () => {
+    recordUsage(entry({ promptTokens: 300, outputTokens: 200 }));
+    recordUsage(entry({ ...imageCall, images: 1 }));
+    expect(getBudgetStatus(budget({ tokens: 1000, images: 1 }))).toEqual([
+      { metric: 'tokens', used: 500, limit: 1000, level: 'ok' },
+      { metric: 'images', used: 1, limit: 1, level: 'over' },
+    ]);
+  });
+
+  it('starts again at local midnight', () => {
+    recordUsage(entry({ at: NOW - 24 * 60 * 60 * 1000 }));
+    recordUsage(entry());
+    expect(getUsageLedger()).toHaveLength(2);
+    expect(getBudgetStatus(budget({ calls: 1 }))[0]).toMatchObject({ used: 1, level: 'over' });
+  });
+});
+
+describe('meterCall', () => {
+  it('records token counts, images and failures', async () => {
+    await meterCall(textCall, async onUsage => { onUsage({ promptTokens: 12, outputTokens: 30 }); return 'reply'; });
+    await meterCall(imageCall, async () => null, url => ({ images: url ? 1 : 0, ok: !!url }));
+    await expect(meterCall(textCall, async () => { throw new Error('down'); })).rejects.toThrow('down');
+
+    expect(getUsageSummary()).toMatchObject({ calls: 3, failures: 2, promptTokens: 12, outputTokens: 30, images: 0 });
+  });
+
+  it('only warns about a spent budget in warn mode', async () => {
+    setUsageBudget(budget({ calls: 1, mode: 'warn' }));
+    recordUsage(entry());
+    await expect(meterCall(textCall, async () => 'reply')).resolves.toBe('reply');
+  });
+
+  it('refuses calls once a blocking budget is spent, without recording them', async () => {
+    setUsageBudget(budget({ tokens: 100, mode: 'block' }));
+    recordUsage(entry({ promptTokens: 60, outputTokens: 40 }));
+    const run = vi.fn();
+    await expect(meterCall(textCall, run)).rejects.toMatchObject({ kind: 'budget' });
+    expect(run).not.toHaveBeenCalled();
+    expect(getUsageLedger()).toHaveLength(1);
+  });
+
+  it('lets text through when only the image budget is spent', async () => {
+    setUsageBudget(budget({ images: 1, mode: 'block' }));
+    recordUsage(entry({ ...imageCall, images: 1 }));
+    await expect(meterCall(textCall, async () => 'reply')).resolves.toBe('reply');
+    await expect(meterCall(imageCall, async () => 'data:image/png;base64,')).rejects.toMatchObject({ kind: 'budget' });
+  });
+});
+
+describe('onUsageChange', () => {
+  it('tells listeners about new entries and budgets until they unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = onUsageChange(listener);
+    recordUsage(entry());
+    setUsageBudget(budget({ calls: 5 }));
+    expect(listener).toHaveBeenCalledTimes(2);
+    unsubscribe();
+    recordUsage(entry());
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
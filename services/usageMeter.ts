@@ -0,0 +1,239 @@
+// Usage meter for every generation call: the "Telegraph Ledger".
+// withUsageMeter wraps a provider so each call records its model, token counts (from the
+// provider's usage metadata), images and latency, and checks the daily budget before it is sent.
+// The ledger lives in localStorage; where that is unavailable (e.g. the Node proxy server) it is kept in memory.
+
+import { BudgetMetric, BudgetStatus, UsageBudget, UsageEntry, UsageKind, UsageSummary } from '../types';
+import { AIProvider, AIProviderError, TokenUsage, UsageCallback, getModelConfig } from './aiProvider';
+
+const LEDGER_KEY = 'timension_usage_ledger';
+const BUDGET_KEY = 'timension_usage_budget';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LEDGER_MAX_AGE_MS = 7 * DAY_MS;
+const LEDGER_MAX_ENTRIES = 1000;
+
+// Budgets start warning at this share of the limit
+export const BUDGET_WARN_RATIO = 0.8;
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { calls: 0, tokens: 0, images: 0, mode: 'warn' };
+
+// When this page (or server process) started, for the "this session" column
+export const SESSION_STARTED_AT = Date.now();
+
+let memoryLedger: UsageEntry[] = [];
+let memoryBudget: UsageBudget = DEFAULT_USAGE_BUDGET;
+
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const onUsageChange = (callback: () => void): (() => void) => {
+  listeners.add(callback);
+  return () => { listeners.delete(callback); };
+};
+
+// --- Ledger ---
+
+export const getUsageLedger = (): UsageEntry[] => {
+  if (!hasLocalStorage()) return memoryLedger;
+  try {
+    return JSON.parse(localStorage.getItem(LEDGER_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeLedger = (entries: UsageEntry[]) => {
+  if (!hasLocalStorage()) {
+    memoryLedger = entries;
+    return;
+  }
+  try {
+    localStorage.setItem(LEDGER_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.warn("Failed to write usage ledger to localStorage", e);
+  }
+};
+
+export const recordUsage = (entry: UsageEntry) => {
+  const cutoff = entry.at - LEDGER_MAX_AGE_MS;
+  const kept = getUsageLedger().filter(e => e.at > cutoff);
+  writeLedger([...kept, entry].slice(-LEDGER_MAX_ENTRIES));
+  notify();
+};
+
+export const clearUsageLedger = () => {
+  writeLedger([]);
+  notify();
+};
+
+const startOfDay = (now: number): number => {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+export const summarizeUsage = (entries: UsageEntry[]): UsageSummary => {
+  const byModel = new Map<string, UsageSummary['byModel'][number]>();
+  let latency = 0;
+  for (const e of entries) {
+    const row = byModel.get(e.model) || { model: e.model, calls: 0, tokens: 0, images: 0 };
+    row.calls++;
+    row.tokens += e.promptTokens + e.outputTokens;
+    row.images += e.images;
+    byModel.set(e.model, row);
+    latency += e.latencyMs;
+  }
+  return {
+    calls: entries.length,
+    failures: entries.filter(e => !e.ok).length,
+    promptTokens: entries.reduce((sum, e) => sum + e.promptTokens, 0),
+    outputTokens: entries.reduce((sum, e) => sum + e.outputTokens, 0),
+    images: entries.reduce((sum, e) => sum + e.images, 0),
+    averageLatencyMs: entries.length ? Math.round(latency / entries.length) : 0,
+    byModel: [...byModel.values()].sort((a, b) => b.calls - a.calls),
+  };
+};
+
+// Usage since local midnight, or since the given time (e.g. SESSION_STARTED_AT)
+export const getUsageSummary = (since = startOfDay(Date.now())): UsageSummary =>
+  summarizeUsage(getUsageLedger().filter(e => e.at >= since));
+
+// --- Budget ---
+
+export const getUsageBudget = (): UsageBudget => {
+  if (!hasLocalStorage()) return memoryBudget;
+  try {
+    return { ...DEFAULT_USAGE_BUDGET, ...JSON.parse(localStorage.getItem(BUDGET_KEY) || '{}') };
+  } catch {
+    return DEFAULT_USAGE_BUDGET;
+  }
+};
+
+export const setUsageBudget = (budget: UsageBudget) => {
+  if (!hasLocalStorage()) {
+    memoryBudget = budget;
+  } else {
+    try {
+      localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+    } catch (e) {
+      console.warn("Failed to write usage budget to localStorage", e);
+    }
+  }
+  notify();
+};
+
+// One status per limited metric; metrics without a limit are left out
+export const getBudgetStatus = (budget = getUsageBudget()): BudgetStatus[] => {
+  const today = getUsageSummary();
+  const used: Record<BudgetMetric, number> = {
+    calls: today.calls,
+    tokens: today.promptTokens + today.outputTokens,
+    images: today.images,
+  };
+  return (['calls', 'tokens', 'images'] as BudgetMetric[])
+    .filter(metric => budget[metric] > 0)
+    .map(metric => {
+      const limit = budget[metric];
+      const level = used[metric] >= limit ? 'over' : used[metric] >= limit * BUDGET_WARN_RATIO ? 'warn' : 'ok';
+      return { metric, used: used[metric], limit, level };
+    });
+};
+
+// Throws before a call is sent when a blocking budget is already used up.
+// Image limits only stop image calls; token and call limits stop everything.
+const assertWithinBudget = (kind: UsageKind) => {
+  const budget = getUsageBudget();
+  if (budget.mode !== 'block') return;
+  const spent = getBudgetStatus(budget).find(s => s.level === 'over' && (s.metric !== 'images' || kind === 'image'));
+  if (spent) {
+    throw new AIProviderError('budget', `Daily ${spent.metric} budget of ${spent.limit} reached`);
+  }
+};
+
+// --- Metering ---
+
+export interface CallInfo {
+  provider: string;
+  model: string;
+  kind: UsageKind;
+}
+
+// Runs one call against the budget and records it in the ledger, whether it succeeds or not.
+// The call reports its token counts through the callback it is given; describe() reads the
+// number of images from the result, and whether a result that did not throw still failed.
+export const meterCall = async <T>(
+  info: CallInfo,
+  run: (onUsage: UsageCallback) => Promise<T>,
+  describe: (result: T) => { images?: number; ok?: boolean } = () => ({})
+): Promise<T> => {
+  assertWithinBudget(info.kind);
+  let tokens: TokenUsage = { promptTokens: 0, outputTokens: 0 };
+  const startedAt = Date.now();
+  const record = (ok: boolean, imageCount: number) => recordUsage({
+    ...info,
+    ...tokens,
+    at: startedAt,
+    images: imageCount,
+    latencyMs: Date.now() - startedAt,
+    ok,
+  });
+
+  try {
+    const result = await run(usage => { tokens = usage; });
+    const { images = 0, ok = true } = describe(result);
+    record(ok, images);
+    return result;
+  } catch (e) {
+    record(false, 0);
+    throw e;
+  }
+};
+
+const metered = new WeakMap<AIProvider, AIProvider>();
+
+export const withUsageMeter = (provider: AIProvider): AIProvider => {
+  const existing = metered.get(provider);
+  if (existing) return existing;
+
+  const info = (kind: UsageKind): CallInfo => ({
+    provider: provider.name,
+    model: kind === 'image' ? getModelConfig().image : getModelConfig().text,
+    kind,
+  });
+
+  const wrapped: AIProvider = {
+    name: provider.name,
+    isAvailable: () => provider.isAvailable(),
+    // A connection test is not a generation, so it is neither budgeted nor recorded
+    ping: () => provider.ping(),
+    generateText: request => meterCall(info('text'), onUsage => provider.generateText({ ...request, onUsage })),
+    generateJson: request => meterCall(info('json'), onUsage => provider.generateJson({ ...request, onUsage })),
+    generateGrounded: (request, tool) => meterCall(info('grounded'), onUsage => provider.generateGrounded({ ...request, onUsage }, tool)),
+    generateImage: (prompt, aspectRatio) => meterCall(
+      info('image'),
+      onUsage => provider.generateImage(prompt, aspectRatio, onUsage),
+      url => ({ images: url ? 1 : 0 })
+    ),
+    // Recorded once the stream ends, is abandoned or fails
+    streamText: async function* (request) {
+      const call = info('stream');
+      assertWithinBudget(call.kind);
+      let tokens: TokenUsage = { promptTokens: 0, outputTokens: 0 };
+      let ok = false;
+      const startedAt = Date.now();
+      try {
+        yield* provider.streamText({ ...request, onUsage: usage => { tokens = usage; } });
+        ok = true;
+      } finally {
+        recordUsage({ ...call, ...tokens, at: startedAt, images: 0, latencyMs: Date.now() - startedAt, ok });
+      }
+    },
+  };
+
+  metered.set(provider, wrapped);
+  return wrapped;
+};
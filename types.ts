@@ -8,13 +8,93 @@ export enum AppSection {
   EDITOR = 'EDITOR',
 }
 
+export type SuggestionCategory = 'bug' | 'feature' | 'content';
+export type SuggestionStatus = 'open' | 'planned' | 'done';
+export type SuggestionSort = 'top' | 'new';
+// 'flagged' posts were reported and await review; 'hidden' ones were removed by a moderator
+export type ModerationState = 'visible' | 'flagged' | 'hidden';
+export type ReportReason = 'spam' | 'offensive' | 'off-topic';
+
 export interface Suggestion {
   id: string;
   text: string;
   timestamp: number;
+  category: SuggestionCategory;
+  status: SuggestionStatus; // Set by maintainers
+  votes: number;
+  hasVoted: boolean; // Whether the current traveler has upvoted it
+  moderation: ModerationState;
+  reportCount: number;
+  parentId?: string; // Set on replies ("letters to the editor"); threads are one level deep
+  replyCount: number;
+  official: boolean; // Reply written by a maintainer
+  clientId?: string; // Generated by the submitting client to match the realtime echo to its optimistic copy
+  pending?: boolean; // Optimistic local copy the server has not confirmed yet
   // No user info as requested
 }
 
+export interface SuggestionPage {
+  suggestions: Suggestion[];
+  hasMore: boolean;
+}
+
+// Why a generation call failed, so the UI can say what to do about it
+// 'budget' means the traveler's own daily limit (see UsageBudget) stopped the call before it was sent
+export type GenerationErrorKind = 'missing-key' | 'quota' | 'budget' | 'safety' | 'malformed' | 'unavailable';
+
+export interface GenerationError {
+  kind: GenerationErrorKind;
+  message: string; // Shown to the traveler
+}
+
+export type GenerationResult<T> =
+  | { ok: true; value: T; error?: undefined }
+  | { ok: false; value?: undefined; error: GenerationError };
+
+// --- Usage Ledger ---
+
+export type UsageKind = 'text' | 'stream' | 'json' | 'grounded' | 'image';
+
+// One generation call as recorded by the usage meter (services/usageMeter.ts)
+export interface UsageEntry {
+  at: number;
+  provider: string; // 'gemini', 'mock', or 'proxy' when the server made the call
+  model: string;
+  kind: UsageKind;
+  promptTokens: number; // 0 when the provider does not report usage (mock, proxy)
+  outputTokens: number;
+  images: number;
+  latencyMs: number;
+  ok: boolean;
+}
+
+export type BudgetMetric = 'calls' | 'tokens' | 'images';
+
+// Daily limits per browser; 0 means no limit. 'warn' only warns, 'block' refuses calls past the limit.
+export interface UsageBudget {
+  calls: number;
+  tokens: number;
+  images: number;
+  mode: 'warn' | 'block';
+}
+
+export interface BudgetStatus {
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+  level: 'ok' | 'warn' | 'over'; // 'warn' from BUDGET_WARN_RATIO of the limit
+}
+
+export interface UsageSummary {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+  images: number;
+  averageLatencyMs: number;
+  byModel: { model: string; calls: number; tokens: number; images: number }[];
+}
+
 export interface NewsArticle {
   headline: string;
   date: string;
@@ -23,6 +103,19 @@ export interface NewsArticle {
   weather: string;
 }
 
+// UI and generated-content language (see services/i18nService.ts)
+export type Locale = 'en' | 'hi' | 'de';
+
+// 'chronicle' is the random headline of the day; 'onThisDay' is an event from the same month and day
+export type EditionMode = 'chronicle' | 'onThisDay';
+
+// The canonical article for one calendar day, mode and language, shared by every traveler reading in it
+export interface DailyEdition extends NewsArticle {
+  editionDate: string; // YYYY-MM-DD
+  mode: EditionMode;
+  locale: Locale;
+}
+
 export interface Mentor {
   id: string;
   name: string;
@@ -33,6 +126,15 @@ export interface Mentor {
   bio: string;
   systemPrompt: string;
   greeting: string;
+  imagePrompt?: string; // Full portrait used on the gallery card
+  facePrompt?: string; // Close-up used as the chat avatar
+}
+
+export type MentorStatus = 'seed' | 'draft' | 'published';
+
+export interface MentorRegistryEntry {
+  mentor: Mentor;
+  status: MentorStatus;
 }
 
 export interface ChatMessage {
@@ -42,30 +144,152 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+export interface MentorConversation {
+  id: string;
+  travelerId: string;
+  mentorId: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface AlternateHistoryResult {
   timelineSteps: string[];
   finalHeadline: string;
   imageUrl?: string;
 }
 
+// One story as laid out on an exported front page (see newspaperExport.ts)
+export interface FrontPageStory {
+  id: string;
+  kicker?: string;
+  headline: string;
+  date: string;
+  weather?: string;
+  paragraphs: string[];
+  imageUrl?: string;
+}
+
+// A single simulated future. The root node branches from the pivot event itself,
+// every other node branches from one step of its parent.
+export interface TimelineNode extends AlternateHistoryResult {
+  id: string;
+  parentId: string | null;
+  branchStepIndex: number | null;
+  change: string;
+  context: string; // The causal chain fed to the model when this node was generated
+  createdAt: number;
+}
+
+export interface TimelineTree {
+  event: string;
+  originalOutcome: string;
+  rootId: string;
+  nodes: Record<string, TimelineNode>;
+}
+
 export interface PivotPoint {
   id: string;
   event: string;
   year: string;
   originalOutcome: string;
   image: string;
+  era: string;
+  region: string;
+  themes: string[];
+  imagePrompt?: string;
+  version?: number; // Catalog revision this entry was last edited in
+}
+
+export interface PivotCatalog {
+  version: number;
+  pivots: PivotPoint[];
+}
+
+export interface PivotFilter {
+  query: string;
+  era: string | null;
+  region: string | null;
+  theme: string | null;
 }
 
 // New Interface for the input-based Chronoscope
+// A web or map page the model consulted, shown so readers can verify what it said
+export interface SourceCitation {
+  title: string;
+  uri: string;
+}
+
+export type TriviaConfidence = 'high' | 'medium' | 'low';
+
+export interface TriviaFact {
+  fact: string;
+  year: string;
+  place: string;
+  confidence: TriviaConfidence;
+}
+
+export interface LocationTrivia {
+  facts: TriviaFact[];
+  sources: SourceCitation[];
+}
+
+// An entry in the bundled gazetteer (data/gazetteer.json)
+export interface GazetteerPlace {
+  id: string;
+  name: string;
+  aliases: string[];
+  country: string;
+  lat: number;
+  lon: number;
+  radiusKm: number; // Half the width of the area a map of this place should cover
+}
+
+// A marker on the Chronoscope map; x and y are fractions of the map's width and height
+export interface ChronoscopeMapPin {
+  id: string;
+  kind: 'trivia' | 'photo';
+  index: number;
+  label: string;
+  x: number;
+  y: number;
+  // False when the spot was not in the gazetteer and the pin was only placed near the center
+  located: boolean;
+}
+
 export interface ChronoscopeData {
   location: string;
+  era: string; // e.g. "100 CE", "1920"; see formatEraYear
+  place?: GazetteerPlace;
   vintageMapUrl?: string;
-  trivia?: string[];
+  trivia?: LocationTrivia;
   historicalPhotos?: string[];
 }
 
+// One destination in a traveler's Chronoscope log; the generated map, trivia and photos load separately
+export interface TravelLogEntry {
+  id: string;
+  travelerId: string;
+  location: string;
+  era: string;
+  favorite: boolean;
+  visitedAt: number;
+  updatedAt: number;
+}
+
+// Granted through the Supabase app_metadata.role claim; guests are always plain travelers.
+// Moderators review reported posts; maintainers can do that too and also set statuses.
+export type TravelerRole = 'traveler' | 'moderator' | 'maintainer';
+
+export interface TravelerSession {
+  userId: string;
+  email: string;
+  isGuest: boolean; // True when Supabase auth is not configured and the traveler entered locally
+  role: TravelerRole;
+}
+
 export interface TravelerStats {
-  rank: string;
+  rank: string; // Translation key of the rank title, e.g. 'rank.cadet'
   centuriesTraversed: number;
   paradoxesCaused: number;
   artifactsFound: number;
@@ -73,8 +297,54 @@ export interface TravelerStats {
   joinDate: string;
 }
 
+export type TravelerCounter = 'centuriesTraversed' | 'paradoxesCaused' | 'artifactsFound' | 'majorDiscoveries';
+
+export interface RankConfig {
+  weights: Record<TravelerCounter, number>;
+  ranks: { title: string; minScore: number }[]; // title is a translation key
+}
+
+export type ArtifactRarity = 'common' | 'rare' | 'legendary';
+
+// Milestones that award an artifact once the traveler's progress satisfies them
+export type ArtifactRule =
+  | { type: 'mentorsVisited'; min: number }
+  | { type: 'mentorVisited'; mentorId: string }
+  | { type: 'allMentors' }
+  | { type: 'locationsExplored'; min: number }
+  | { type: 'simulationsRun'; min: number }
+  | { type: 'stat'; counter: TravelerCounter; min: number };
+
+export interface Artifact {
+  id: string;
+  name: string; // Translation key, like description; the catalog text lives in data/locales
+  era: string;
+  rarity: ArtifactRarity;
+  description: string;
+  imagePrompt: string;
+  imageUrl?: string;
+  rule: ArtifactRule;
+}
+
+export interface EarnedArtifact extends Artifact {
+  earnedAt: number;
+}
+
+export interface TravelerProgress {
+  mentorsVisited: string[];
+  locationsExplored: string[];
+  simulationsRun: number;
+}
+
+// Something the traveler just did that may count towards an artifact milestone
+export type TravelerEvent =
+  | { type: 'mentor'; mentorId: string }
+  | { type: 'location'; location: string }
+  | { type: 'simulation' };
+
 export interface TravelerProfile {
   email: string;
   stats: TravelerStats;
-  inventory: string[];
+  inventory: EarnedArtifact[];
+  progress: TravelerProgress;
 }
@@ -9,9 +9,26 @@ export default defineConfig(({ mode }) => {
 
   return {
     plugins: [react()],
+    server: {
+      // In dev, forward /api to the local proxy server (npm run server)
+      proxy: {
+        '/api': 'http://localhost:8787',
+      },
+    },
     define: {
       // This is critical: it replaces process.env.API_KEY with the actual string during build
       'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      // Optional: route generation through the backend proxy (server/) instead of calling Gemini from the browser
+      'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL || ''),
+      // Optional: AI_PROVIDER=mock serves fixtures with no key or network; model names override the defaults
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+      'process.env.GEMINI_TEXT_MODEL': JSON.stringify(env.GEMINI_TEXT_MODEL || ''),
+      'process.env.GEMINI_IMAGE_MODEL': JSON.stringify(env.GEMINI_IMAGE_MODEL || ''),
+      // Optional: point the app at another Supabase project, e.g. a local `supabase start` stack
+      'process.env.NEXT_PUBLIC_SUPABASE_URL': JSON.stringify(env.NEXT_PUBLIC_SUPABASE_URL || ''),
+      'process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY': JSON.stringify(env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''),
+      'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL || ''),
+      'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY || ''),
     },
   };
 });
\ No newline at end of file